@@ -0,0 +1,13 @@
+-- M6_client_signal_thresholds.sql
+-- Per-client coach overrides for the signal threshold profiles (lib/analytics/thresholds.ts).
+--   skill_tier   pins the profile tier (scratch | advanced | intermediate | beginner | unknown); null = derive from handicap
+--   overrides    { "all" | "driver" | "wood" | "iron" | "wedge": { "<threshold>": number } }
+-- Stored signals (session_stats.stats_json.signals_v1_2.threshold_profile) record the profile id, version and overrides used.
+
+create table if not exists public.client_signal_thresholds (
+  client_id uuid primary key,
+  skill_tier text check (skill_tier in ('scratch', 'advanced', 'intermediate', 'beginner', 'unknown')),
+  overrides jsonb not null default '{}'::jsonb,
+  updated_by uuid,
+  updated_at timestamptz not null default now()
+);
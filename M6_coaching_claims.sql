@@ -0,0 +1,10 @@
+-- M6_coaching_claims.sql
+-- Evidence grounding (lib/engine/coaching/grounding.ts): numbers a model writes into coaching are checked against the
+-- run's inputs before the output is written.
+--   coaching_telemetry.claims_checked      numeric claims and model citations looked at; null when no model output was kept
+--   coaching_telemetry.claims_unsupported  of those, how many matched no input (stripped, or repaired under the reject policy)
+-- The citations themselves live in the documents (sessioncoach_v1 evidence.citations, coaching_summary_v1 citations).
+
+alter table public.coaching_telemetry
+  add column if not exists claims_checked integer,
+  add column if not exists claims_unsupported integer;
@@ -0,0 +1,18 @@
+-- M6_coaching_prompt_versions.sql
+-- Prompt registry (lib/engine/coaching/prompts): which template version produced a run, and the experiment that
+-- assigned it (null outside an experiment).
+--   coaching_telemetry  every run that rendered a prompt (session coaching, coaching summary, plan6m regen)
+--   session_coaching    the published row, when its output came from the model
+-- plan3m records the same triple in content_json.meta.prompt.
+
+alter table public.coaching_telemetry
+  add column if not exists prompt_id text,
+  add column if not exists prompt_version text,
+  add column if not exists prompt_experiment text;
+
+alter table public.session_coaching
+  add column if not exists prompt_id text,
+  add column if not exists prompt_version text,
+  add column if not exists prompt_experiment text;
+
+create index if not exists coaching_telemetry_prompt_idx on public.coaching_telemetry (prompt_id, prompt_version);
@@ -0,0 +1,36 @@
+-- M6_coaching_schema_version.sql
+-- Versioned coaching schemas (lib/engine/coaching/schemas): every coaching document is validated against the schema
+-- registered for its schema_version before it is written, and the version is stored on the row so readers can pick a
+-- renderer without opening the JSON.
+--   coaching_versions.schema_version   sessioncoach_v1 | sessioncoach_strict_v1 | coaching_summary_v1 | plan3m_v1.1 | plan6m_v1 ...
+--   session_coaching.schema_version    version of output_json
+--   coaching_summary.schema_version    version of content_json
+--   coaching_telemetry.schema_version  version the call was producing
+--   coaching_telemetry.repair_attempts repair turns sent after the model's output failed validation (0 = first try passed)
+-- Existing rows are backfilled from the document's own schema_version field. Strict rows written before the
+-- sessioncoach_strict_v1 rename keep "sessioncoach_v1"; they share its display block.
+
+alter table public.coaching_versions
+  add column if not exists schema_version text;
+
+alter table public.session_coaching
+  add column if not exists schema_version text;
+
+alter table public.coaching_summary
+  add column if not exists schema_version text;
+
+alter table public.coaching_telemetry
+  add column if not exists schema_version text,
+  add column if not exists repair_attempts integer;
+
+update public.coaching_versions
+  set schema_version = content_json ->> 'schema_version'
+  where schema_version is null and content_json ? 'schema_version';
+
+update public.session_coaching
+  set schema_version = output_json ->> 'schema_version'
+  where schema_version is null and output_json ? 'schema_version';
+
+update public.coaching_summary
+  set schema_version = content_json ->> 'schema_version'
+  where schema_version is null and content_json ? 'schema_version';
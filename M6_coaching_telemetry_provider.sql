@@ -0,0 +1,7 @@
+-- M6_coaching_telemetry_provider.sql
+-- LLM provider abstraction (lib/ai/provider.ts): which backend served each model call.
+--   coaching_telemetry.provider  openai | local | replay; null when no model was called (cache hit, deterministic run)
+-- cost_usd is priced by that provider: local and replayed completions record 0.
+
+alter table public.coaching_telemetry
+  add column if not exists provider text;
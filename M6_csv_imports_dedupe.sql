@@ -0,0 +1,17 @@
+-- M6_csv_imports_dedupe.sql
+-- Duplicate-upload detection (lib/ingest/dedupe.ts), checked per client before a session is created.
+--   content_hash       sha256 of the normalized file text (exact re-upload)
+--   shot_fingerprints  per-shot ball-data fingerprints (partial re-export overlap)
+
+alter table public.csv_imports
+  add column if not exists client_id uuid references public.clients(id) on delete cascade,
+  add column if not exists content_hash text,
+  add column if not exists shot_fingerprints text[] not null default '{}';
+
+update public.csv_imports ci
+set client_id = s.client_id
+from public.sessions s
+where s.id = ci.session_id and ci.client_id is null;
+
+create index if not exists csv_imports_client_hash_idx on public.csv_imports (client_id, content_hash);
+create index if not exists csv_imports_shot_fingerprints_idx on public.csv_imports using gin (shot_fingerprints);
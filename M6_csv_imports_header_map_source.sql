@@ -0,0 +1,18 @@
+-- M6_csv_imports_header_map_source.sql
+-- Upload column-mapping wizard (lib/ingest/mapping.ts).
+--   csv_imports.header_map         file header -> shot field actually used for the import
+--   csv_imports.header_map_source  parser (device default) | saved (reused from an earlier upload) | user (edited)
+-- The latest saved/user row per uploaded_by + parser_id is that user's mapping for the device.
+
+alter table public.csv_imports
+  add column if not exists header_map_source text not null default 'parser';
+
+alter table public.csv_imports
+  drop constraint if exists csv_imports_header_map_source_check;
+
+alter table public.csv_imports
+  add constraint csv_imports_header_map_source_check
+  check (header_map_source in ('parser', 'saved', 'user'));
+
+create index if not exists csv_imports_uploader_parser_idx
+  on public.csv_imports (uploaded_by, parser_id, created_at desc);
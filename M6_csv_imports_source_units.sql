@@ -0,0 +1,7 @@
+-- M6_csv_imports_source_units.sql
+-- Units the export used, per mapped column (lib/parsers/units.ts resolveColumnUnits):
+--   { "<file header>": { "field": "carry", "unit": "m", "from": "unit_row" | "header" | "device" | "canonical" } }
+-- shots.* is always canonical (yards / mph / rpm / degrees); this is the audit trail for the conversion.
+
+alter table public.csv_imports
+  add column if not exists source_units jsonb not null default '{}'::jsonb;
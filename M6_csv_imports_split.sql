@@ -0,0 +1,14 @@
+-- M6_csv_imports_split.sql
+-- Multi-session uploads (lib/ingest/split.ts): one csv_imports parent, one sessions row per practice block.
+--   sessions.import_id       -> the parent import (shared by every block)
+--   csv_imports.session_id   -> first block's session
+--   csv_imports.split        [{ "session_id": uuid, "row_start": int, "row_end": int, "fingerprints": text[] }]
+--                            (row_end exclusive; fingerprints = the block's shots, lib/ingest/dedupe.ts)
+--   A merged upload lists the existing sessions its blocks went into, so "split @> [{session_id}]" finds every
+--   import with shots in a session.
+
+alter table public.csv_imports
+  add column if not exists split jsonb;
+
+create index if not exists sessions_import_id_idx on public.sessions (import_id);
+create index if not exists csv_imports_split_idx on public.csv_imports using gin (split jsonb_path_ops);
@@ -0,0 +1,30 @@
+-- M6_csv_imports_state_machine.sql
+-- Resumable ingestion (lib/ingest/pipeline.ts).
+-- csv_imports.status: received -> stored -> raw_parsed -> normalized -> stats_computed -> complete | failed
+-- shots.import_id lets each step delete-then-insert its own rows (idempotent) and lets purge find them.
+
+alter table public.csv_imports
+  add column if not exists parser_id text,
+  add column if not exists failed_step text,
+  add column if not exists error text,
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Pre-state-machine rows
+update public.csv_imports set status = 'failed', failed_step = 'received', error = 'legacy processing row'
+where status = 'processing';
+
+alter table public.csv_imports drop constraint if exists csv_imports_status_check;
+alter table public.csv_imports add constraint csv_imports_status_check
+  check (status in ('received', 'stored', 'raw_parsed', 'normalized', 'stats_computed', 'complete', 'failed'));
+
+alter table public.shots
+  add column if not exists import_id uuid references public.csv_imports(id) on delete cascade;
+
+update public.shots sh
+set import_id = s.import_id
+from public.sessions s
+where s.id = sh.session_id and sh.import_id is null and s.import_id is not null;
+
+create index if not exists shots_import_id_idx on public.shots (import_id);
+create index if not exists shots_raw_import_id_idx on public.shots_raw (import_id);
+create index if not exists csv_imports_status_idx on public.csv_imports (status, created_at desc);
@@ -0,0 +1,13 @@
+-- M6_data_quality.sql
+-- Data-quality analyzer for imported sessions (lib/analytics/dataQuality.ts).
+--   shots.quality_flags     suspect-reading flags set at import (zero_carry, repeated_reading, impossible_spin, ...)
+--   sessions.quality_score  0-100 from the session's non-excluded shots, rebuilt with session_stats
+--   sessions.quality        { version, grade: good | fair | poor, shots, flagged_shots, flags: { <flag>: shots } }
+-- Coaching generation and plan recomputes skip sessions scoring below 60.
+
+alter table public.shots
+  add column if not exists quality_flags text[] not null default '{}';
+
+alter table public.sessions
+  add column if not exists quality_score numeric,
+  add column if not exists quality jsonb;
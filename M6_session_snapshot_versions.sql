@@ -0,0 +1,22 @@
+-- M6_session_snapshot_versions.sql
+-- Snapshot version per session (lib/ingest/recompute.ts), so stale sessions are found in the database instead of by
+-- scanning sessions in the app.
+--   session_snapshot_versions.stat_version    session_stats snapshot stat_version; 0 when the session has no snapshot
+--   session_snapshot_versions.metrics_failed  sessions.metrics_status = 'failed' (half-imported, rebuilt by resume)
+-- security_invoker: the caller's row-level security applies, as on sessions / session_stats.
+
+create or replace view public.session_snapshot_versions
+  with (security_invoker = true) as
+select
+  s.id,
+  s.client_id,
+  s.source,
+  s.session_date,
+  coalesce(s.metrics_status = 'failed', false) as metrics_failed,
+  coalesce(ss.stat_version, 0) as stat_version
+from public.sessions s
+left join public.session_stats ss
+  on ss.session_id = s.id and ss.stat_type = 'snapshot';
+
+create index if not exists session_stats_snapshot_version_idx
+  on public.session_stats (session_id, stat_version) where stat_type = 'snapshot';
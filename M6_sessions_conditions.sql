@@ -0,0 +1,13 @@
+-- M6_sessions_conditions.sql
+-- Playing conditions per session (lib/analytics/conditions.ts), set at upload or edited afterwards:
+--   sessions.conditions  { altitude_ft, temperature_f, ball_type: premium | range | limited_flight, source: upload | edit }
+--                        null = standard conditions (sea level, 70F, premium ball)
+-- Snapshots report carry at standard conditions next to the raw carry; shots keep the raw values.
+-- shot_edits gains the 'conditions' action (shot_ids empty; before / after hold the conditions).
+
+alter table public.sessions
+  add column if not exists conditions jsonb;
+
+alter table public.shot_edits drop constraint if exists shot_edits_action_check;
+alter table public.shot_edits add constraint shot_edits_action_check
+  check (action in ('exclude', 'include', 'retag', 'split_by_club', 'infer', 'confirm', 'conditions'));
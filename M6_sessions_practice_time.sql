@@ -0,0 +1,15 @@
+-- M6_sessions_practice_time.sql
+-- Session date/time from the export instead of upload time (lib/parsers/datetime.ts, lib/ingest/ingestCsv.ts).
+--   sessions.session_date  wall-clock practice date from the file (upload date in the client's zone if none)
+--   sessions.practiced_at  practice start instant; null when the export has no timestamp
+--   sessions.time_zone     IANA zone used to read wall-clock times (null = UTC / offset given in file)
+--   profiles.time_zone     player's IANA zone (set at onboarding from the browser)
+
+alter table public.sessions
+  add column if not exists practiced_at timestamptz,
+  add column if not exists time_zone text;
+
+alter table public.profiles
+  add column if not exists time_zone text;
+
+create index if not exists sessions_client_session_date_idx on public.sessions (client_id, session_date desc);
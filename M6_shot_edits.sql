@@ -0,0 +1,25 @@
+-- M6_shot_edits.sql
+-- Shot-level editing after import (lib/ingest/edits.ts).
+--   shots.excluded / excluded_reason   practice swings, dropped balls; kept in shots, left out of session_stats
+--   shot_edits                         audit: one row per edit per affected session
+--     action   exclude | include | retag | split_by_club
+--     before / after  { "<shot id>": value } (split_by_club: { "<shot id>": "<session id>" })
+-- The latest shot_edits id is folded into session_stats.data_hash, so an edit invalidates cached coaching.
+
+alter table public.shots
+  add column if not exists excluded boolean not null default false,
+  add column if not exists excluded_reason text;
+
+create table if not exists public.shot_edits (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null,
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  edited_by uuid,
+  action text not null check (action in ('exclude', 'include', 'retag', 'split_by_club')),
+  shot_ids uuid[] not null default '{}',
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists shot_edits_session_idx on public.shot_edits (session_id, created_at desc);
@@ -0,0 +1,13 @@
+-- M6_shots_club_inference.sql
+-- Club inference for untagged shots (lib/ingest/clubInference.ts).
+--   shots.club_inferred    true while shots.club is a guess; confirming or re-tagging sets it false
+--   shots.club_confidence  0..1 for the guess (cluster separation x fit to the bag slot's expected carry)
+-- shot_edits gains 'infer' (on-demand inference) and 'confirm' actions.
+
+alter table public.shots
+  add column if not exists club_inferred boolean not null default false,
+  add column if not exists club_confidence real;
+
+alter table public.shot_edits drop constraint if exists shot_edits_action_check;
+alter table public.shot_edits add constraint shot_edits_action_check
+  check (action in ('exclude', 'include', 'retag', 'split_by_club', 'infer', 'confirm'));
@@ -0,0 +1,9 @@
+-- M6_shots_extended_metrics.sql
+-- Per-device extras written by the launch-monitor parsers (lib/parsers/*_v1.ts).
+-- All nullable: GSPro / SkyTrak exports do not carry them.
+
+alter table public.shots
+  add column if not exists attack_angle numeric,
+  add column if not exists dynamic_loft numeric,
+  add column if not exists face_to_path numeric,
+  add column if not exists apex numeric; -- max height, yards
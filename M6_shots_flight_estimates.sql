@@ -0,0 +1,9 @@
+-- M6_shots_flight_estimates.sql
+-- Ball-flight model output (lib/analytics/ballFlight.ts) for devices that only report launch data.
+-- estimated_fields lists the flight fields on the row that were modelled at import rather than measured
+-- (carry, total, apex, descent_angle, flight_time); modelled values assume sea level, 70F, no wind.
+
+alter table public.shots
+  add column if not exists descent_angle numeric, -- degrees at landing
+  add column if not exists flight_time numeric, -- seconds
+  add column if not exists estimated_fields text[] not null default '{}';
@@ -4,6 +4,11 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { useSupabase } from "@/lib/supabase/useSupabase";
 import { useRouter, useSearchParams } from "next/navigation";
 import VerticalResizeSplit from "@/components/layout/VerticalResizeSplit";
+import type { DispersionEllipse } from "@/lib/analytics/geometry";
+
+// Session coaching versions sharing the display block the panel renders (lib/engine/coaching/schemas); inlined so
+// the client bundle does not pull in the validator
+const SESSIONCOACH_DISPLAY_SCHEMAS: ReadonlyArray<string | null> = ["sessioncoach_v1", "sessioncoach_strict_v1"];
 
 /* =======================
    Types
@@ -36,6 +41,12 @@ type ShotRow = {
   club?: string | null;
   data?: any;
   club_label?: string | null;
+  club_inferred?: boolean; // club guessed from the bag (lib/ingest/clubInference), not yet confirmed
+  club_confidence?: number | null;
+
+  // excluded shots stay in the table but are left out of stats + the plot
+  excluded?: boolean;
+  excluded_reason?: string | null;
 
   created_at: string | null;
 };
@@ -50,6 +61,10 @@ type SnapshotResponse =
 
 type HoverSource = "plot" | "table" | null;
 
+type PlotEllipse = { club: string; color: string; ellipse: DispersionEllipse };
+
+const ELLIPSE_COLORS = ["#f4a261", "#2a9d8f", "#e9c46a", "#c77dff", "#90be6d", "#f28482", "#4cc9f0", "#adb5bd"];
+
 type CoachingPanelResponse = {
   ok: boolean;
   request_id?: string;
@@ -136,6 +151,12 @@ export default function SessionsExplorer() {
   const [loadingShots, setLoadingShots] = useState(false);
   const [err, setErr] = useState<string | null>(null);
 
+  // Shot edits (exclude / re-tag / split by club); bumping the keys reloads after an edit
+  const [editing, setEditing] = useState(false);
+  const [retagClub, setRetagClub] = useState("");
+  const [sessionsReload, setSessionsReload] = useState(0);
+  const [shotsReload, setShotsReload] = useState(0);
+
   const tableScrollRef = useRef<HTMLDivElement>(null);
 
   const [coachingOpen, setCoachingOpen] = useState(false);
@@ -192,7 +213,7 @@ export default function SessionsExplorer() {
         setLoadingSessions(false);
       }
     })();
-  }, [supabase, timeWindow, urlSessionId, router]);
+  }, [supabase, timeWindow, urlSessionId, router, sessionsReload]);
 
   /* =======================
      Load shots + snapshot for selected session
@@ -267,7 +288,7 @@ export default function SessionsExplorer() {
     })();
     // Intentionally omit clubFilter to avoid reload loop; we handle it after fetch.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [supabase, selectedSessionId]);
+  }, [supabase, selectedSessionId, shotsReload]);
 
   /* =======================
      Load coaching when panel is open
@@ -350,6 +371,17 @@ export default function SessionsExplorer() {
     return clubFilter === "all" ? shots : shots.filter((s) => s.club_label === clubFilter);
   }, [shots, clubFilter]);
 
+  const plotShots = useMemo(() => filteredBaseShots.filter((s) => !s.excluded), [filteredBaseShots]);
+
+  // Split needs at least two clubs the device (or a re-tag) actually stored
+  const storedClubCount = useMemo(() => new Set(shots.map((s) => s.club?.trim()).filter(Boolean)).size, [shots]);
+
+  const canInferClubs = useMemo(() => shots.some((s) => !s.excluded && (!s.club?.trim() || s.club_inferred)), [shots]);
+  const selectedInferred = useMemo(
+    () => shots.filter((s) => selectedShotIds.has(s.id) && s.club_inferred).map((s) => s.id),
+    [shots, selectedShotIds]
+  );
+
   /**
    * IMPORTANT behavior:
    * - Hover on a dot should bring shot to top (good for large tables)
@@ -375,8 +407,64 @@ export default function SessionsExplorer() {
      Cards (restore v1.1 layout)
   ======================= */
 
-  const consistencyV11 = useMemo(() => {
-    return getNumber(snapshot?.stats_json, ["signals_v1_1", "consistency", "aggregate", "overall_rate"]);
+  // V1.2 judges each club against its own median; untagged sessions fall back to V1.1 carry bands
+  const consistency = useMemo(() => {
+    const v12 = getNumber(snapshot?.stats_json, ["signals_v1_2", "aggregate", "overall_rate"]);
+    if (v12 != null) {
+      const byClub = (snapshot?.stats_json?.signals_v1_2 as { mode?: unknown } | undefined)?.mode === "club";
+      return { rate: v12, sub: byClub ? "Per club (V1.2)" : "Distance-adjusted (V1.1)" };
+    }
+    const v11 = getNumber(snapshot?.stats_json, ["signals_v1_1", "consistency", "aggregate", "overall_rate"]);
+    return { rate: v11, sub: "Distance-adjusted (V1.1)" };
+  }, [snapshot]);
+
+  // Per-club confidence ellipses from the snapshot (mishits left out when the robust one exists)
+  const plotEllipses = useMemo<PlotEllipse[]>(() => {
+    const geo = snapshot?.stats_json?.dispersion_geometry as
+      | { clubs?: Array<{ club: string; ellipse: DispersionEllipse | null; robust_ellipse: DispersionEllipse | null }> }
+      | undefined;
+
+    const out: PlotEllipse[] = [];
+    (geo?.clubs ?? []).forEach((c, i) => {
+      const ellipse = c.robust_ellipse ?? c.ellipse;
+      if (!ellipse) return;
+      if (clubFilter !== "all" && c.club.toLowerCase() !== clubFilter.toLowerCase()) return;
+      out.push({ club: c.club, color: ELLIPSE_COLORS[i % ELLIPSE_COLORS.length], ellipse });
+    });
+    return out;
+  }, [snapshot, clubFilter]);
+
+  const practiceScore = useMemo(() => {
+    const score = getNumber(snapshot?.stats_json, ["practice_score", "session", "score"]);
+    const sg = getNumber(snapshot?.stats_json, ["practice_score", "session", "sg_vs_tier"]);
+    return { score, sg };
+  }, [snapshot]);
+
+  // Shot-order analytics (lib/analytics/sequence): did the player fade late, how long to warm up, first balls
+  const sessionFlow = useMemo(() => {
+    const seq = snapshot?.stats_json?.sequence as
+      | { fatigue?: { metric?: "ball_speed" | "carry" | null } | null; warm_up?: { detected?: boolean } | null }
+      | undefined;
+    if (!seq) return null;
+
+    const metric = seq.fatigue?.metric ?? null;
+    const drift = getNumber(seq, ["fatigue", metric === "carry" ? "carry_drift_pct" : "ball_speed_drift_pct"]);
+    const value = !seq.fatigue
+      ? "—"
+      : metric
+        ? `Faded ${Math.abs(drift ?? 0).toFixed(1)}%`
+        : "Held up";
+
+    const sub: string[] = [];
+    if (metric) sub.push(metric === "carry" ? "Carry, first to last shot" : "Ball speed, first to last shot");
+    const warm = getNumber(seq, ["warm_up", "shots"]);
+    if (seq.warm_up?.detected && warm != null) sub.push(`${warm}-shot warm-up`);
+    const hot = getNumber(seq, ["streaks", "hot", "length"]);
+    if (hot != null) sub.push(`best run ${hot}`);
+    const first = getNumber(seq, ["first_ball", "first_ball_in_play_rate"]);
+    if (first != null) sub.push(`first ball ${Math.round(first * 100)}% in play`);
+
+    return { value, sub: sub.length ? sub.join(" · ") : "Too few shots to read a trend" };
   }, [snapshot]);
 
   /* =======================
@@ -400,9 +488,62 @@ export default function SessionsExplorer() {
     setHoverSource(id ? source : null);
   }
 
-  const sessionCoachJson = (coachingResp as any)?.sessioncoach?.session_coaching?.content_json ?? null;
+  async function editShots(path: string, body: Record<string, unknown>) {
+    if (!selectedSessionId) return null;
+    setEditing(true);
+    setErr(null);
+
+    try {
+      const res = await fetch(`/api/sessions/${selectedSessionId}/${path}`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        setErr(json?.error ?? `edit failed: ${res.status}`);
+        return null;
+      }
+
+      setShotsReload((n) => n + 1);
+      return json;
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Edit failed");
+      return null;
+    } finally {
+      setEditing(false);
+    }
+  }
+
+  function excludeSelected(excluded: boolean) {
+    void editShots("shots/exclude", { shot_ids: Array.from(selectedShotIds), excluded });
+  }
+
+  function retagSelected() {
+    void editShots("shots/club", { shot_ids: Array.from(selectedShotIds), club: retagClub.trim() || null }).then((j) => {
+      if (j) setRetagClub("");
+    });
+  }
+
+  function confirmSelectedClubs() {
+    void editShots("shots/club/confirm", { shot_ids: selectedInferred });
+  }
+
+  async function splitByClub() {
+    const ok = globalThis.window.confirm("Move each club into its own session?");
+    if (!ok) return;
+    const j = await editShots("split-by-club", {});
+    if (j) setSessionsReload((n) => n + 1);
+  }
+
+  const sessionCoachRow = (coachingResp as any)?.sessioncoach?.session_coaching ?? null;
+  const sessionCoachJson = sessionCoachRow?.content_json ?? null;
+  // Row column first (set at write time), then the document's own field for rows written before it existed
+  const sessionCoachSchema = sessionCoachRow?.schema_version ?? sessionCoachJson?.schema_version ?? null;
   const coachingAvailable = Boolean(
-    (coachingResp as any)?.sessioncoach?.found && sessionCoachJson?.schema_version === "sessioncoach_v1"
+    (coachingResp as any)?.sessioncoach?.found && SESSIONCOACH_DISPLAY_SCHEMAS.includes(sessionCoachSchema)
   );
 
   /* =======================
@@ -447,13 +588,26 @@ export default function SessionsExplorer() {
             top={
               <div className="h-full overflow-hidden flex flex-col">
                 {/* Restore top cards area (v1.1 layout) */}
-                <div className="grid gap-4 md:grid-cols-3">
+                <div className="grid gap-4 md:grid-cols-4">
                   <MetricCard
                     title="Consistency (Tightened)"
-                    value={consistencyV11 != null ? `${Math.round(consistencyV11 * 100)}%` : "—"}
-                    sub="Distance-adjusted (V1.1)"
+                    value={consistency.rate != null ? `${Math.round(consistency.rate * 100)}%` : "—"}
+                    sub={consistency.sub}
+                  />
+                  <MetricCard
+                    title="Practice Score"
+                    value={practiceScore.score != null ? `${Math.round(practiceScore.score)}` : "—"}
+                    sub={
+                      practiceScore.sg != null
+                        ? `${practiceScore.sg >= 0 ? "+" : ""}${practiceScore.sg.toFixed(2)} strokes/shot vs your level`
+                        : "Strokes-gained style, 0-100"
+                    }
+                  />
+                  <MetricCard
+                    title="Session Flow"
+                    value={sessionFlow?.value ?? "—"}
+                    sub={sessionFlow?.sub ?? "Warm-up, fade late, streaks"}
                   />
-                  <MetricCard title="Badges (placeholder)" value="—" sub="Per-session + historical (coming)" />
                   <MetricCard title="Snapshot Created" value={snapshot?.created_at ? fmtDate(snapshot.created_at) : "—"} />
                 </div>
 
@@ -465,7 +619,8 @@ export default function SessionsExplorer() {
                   </div>
 
                   <DispersionPlot
-                    shots={filteredBaseShots}
+                    shots={plotShots}
+                    ellipses={plotEllipses}
                     selected={selectedShotIds}
                     hovered={hoveredShotId}
                     onHover={(id) => setHover(id, "plot")}
@@ -479,13 +634,75 @@ export default function SessionsExplorer() {
                   <div className="flex items-center justify-between gap-3 flex-wrap">
                     <div className="text-sm font-semibold">Raw Shots</div>
 
-                    <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-2 flex-wrap">
                       {selectedShotIds.size > 0 && (
+                        <>
+                          <button
+                            onClick={() => excludeSelected(true)}
+                            disabled={editing}
+                            className="rounded-xl border border-neutral-800 bg-neutral-900/40 px-3 py-2 text-sm hover:bg-neutral-900/70 disabled:opacity-60"
+                            title="Leave the selected shots out of stats and coaching"
+                          >
+                            Exclude ({selectedShotIds.size})
+                          </button>
+                          <button
+                            onClick={() => excludeSelected(false)}
+                            disabled={editing}
+                            className="rounded-xl border border-neutral-800 bg-neutral-900/40 px-3 py-2 text-sm hover:bg-neutral-900/70 disabled:opacity-60"
+                          >
+                            Include
+                          </button>
+                          <input
+                            value={retagClub}
+                            onChange={(e) => setRetagClub(e.target.value)}
+                            placeholder="Club (e.g. 7i)"
+                            className="w-28 rounded-xl border border-neutral-800 bg-neutral-950 px-3 py-2 text-sm"
+                          />
+                          <button
+                            onClick={retagSelected}
+                            disabled={editing}
+                            className="rounded-xl border border-neutral-800 bg-neutral-900/40 px-3 py-2 text-sm hover:bg-neutral-900/70 disabled:opacity-60"
+                          >
+                            Set club
+                          </button>
+                          {selectedInferred.length > 0 && (
+                            <button
+                              onClick={confirmSelectedClubs}
+                              disabled={editing}
+                              className="rounded-xl border border-neutral-800 bg-neutral-900/40 px-3 py-2 text-sm hover:bg-neutral-900/70 disabled:opacity-60"
+                              title="Keep the guessed club for the selected shots"
+                            >
+                              Confirm club ({selectedInferred.length})
+                            </button>
+                          )}
+                          <button
+                            onClick={clearSelection}
+                            className="rounded-xl border border-neutral-800 bg-neutral-900/40 px-3 py-2 text-sm hover:bg-neutral-900/70"
+                          >
+                            Clear selection
+                          </button>
+                        </>
+                      )}
+
+                      {canInferClubs && (
+                        <button
+                          onClick={() => void editShots("infer-clubs", {})}
+                          disabled={editing}
+                          className="rounded-xl border border-neutral-800 bg-neutral-900/40 px-3 py-2 text-sm hover:bg-neutral-900/70 disabled:opacity-60"
+                          title="Guess clubs for untagged shots from your Smart Bag"
+                        >
+                          Guess clubs
+                        </button>
+                      )}
+
+                      {storedClubCount > 1 && (
                         <button
-                          onClick={clearSelection}
-                          className="rounded-xl border border-neutral-800 bg-neutral-900/40 px-3 py-2 text-sm hover:bg-neutral-900/70"
+                          onClick={splitByClub}
+                          disabled={editing}
+                          className="rounded-xl border border-neutral-800 bg-neutral-900/40 px-3 py-2 text-sm hover:bg-neutral-900/70 disabled:opacity-60"
+                          title="One session per club"
                         >
-                          Clear selection
+                          Split by club
                         </button>
                       )}
 
@@ -850,13 +1067,25 @@ function RawShotsTable({
                 onClick={() => onToggleSelect(s.id)}
                 onMouseEnter={() => onHover(s.id)}
                 onMouseLeave={() => onHover(null)}
+                title={s.excluded ? `Excluded${s.excluded_reason ? `: ${s.excluded_reason}` : ""}` : undefined}
                 className={[
                   "cursor-pointer transition-colors",
                   isHovered ? "bg-white/10" : isSelected ? "bg-white/5" : "bg-transparent",
+                  s.excluded ? "text-neutral-600 line-through" : "",
                 ].join(" ")}
               >
                 <td className="px-2.5 py-2 whitespace-nowrap">{s.shot_number ?? idx + 1}</td>
-                <td className="px-2.5 py-2 whitespace-nowrap">{s.club_label ?? "—"}</td>
+                <td
+                  className={["px-2.5 py-2 whitespace-nowrap", s.club_inferred ? "italic text-neutral-400" : ""].join(" ")}
+                  title={
+                    s.club_inferred
+                      ? `Guessed${s.club_confidence != null ? ` (${Math.round(s.club_confidence * 100)}% confident)` : ""} — select and confirm or set the club`
+                      : undefined
+                  }
+                >
+                  {s.club_label ?? "—"}
+                  {s.club_inferred ? "?" : ""}
+                </td>
                 <td className="px-2.5 py-2 whitespace-nowrap">{fmtNum(s.carry)}</td>
                 <td className="px-2.5 py-2 whitespace-nowrap">{fmtNum(s.total)}</td>
                 <td className="px-2.5 py-2 whitespace-nowrap">{fmtNum(s.side)}</td>
@@ -878,13 +1107,30 @@ function RawShotsTable({
    Dispersion Plot
 ======================= */
 
+function ellipseOutline(e: DispersionEllipse, steps = 48): Array<{ side: number; carry: number }> {
+  const th = (e.angle_deg * Math.PI) / 180;
+  const out: Array<{ side: number; carry: number }> = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = (i / steps) * Math.PI * 2;
+    const u = e.semi_major * Math.cos(t);
+    const v = e.semi_minor * Math.sin(t);
+    out.push({
+      side: e.center.side + u * Math.cos(th) - v * Math.sin(th),
+      carry: e.center.carry + u * Math.sin(th) + v * Math.cos(th),
+    });
+  }
+  return out;
+}
+
 function DispersionPlot({
   shots,
+  ellipses,
   selected,
   hovered,
   onHover,
 }: {
   shots: ShotRow[];
+  ellipses: PlotEllipse[];
   selected: Set<string>;
   hovered: string | null;
   onHover: (id: string | null) => void;
@@ -894,9 +1140,11 @@ function DispersionPlot({
   const PAD = 40;
 
   const pts = shots.filter((s) => typeof s.side === "number" && typeof s.carry === "number");
+  const outlines = ellipses.map((e) => ({ ...e, outline: ellipseOutline(e.ellipse) }));
+  const outlinePts = outlines.flatMap((o) => o.outline);
 
-  const xMax = Math.max(20, ...pts.map((p) => Math.abs(p.side!)));
-  const yMax = Math.max(50, ...pts.map((p) => p.carry!));
+  const xMax = Math.max(20, ...pts.map((p) => Math.abs(p.side!)), ...outlinePts.map((p) => Math.abs(p.side)));
+  const yMax = Math.max(50, ...pts.map((p) => p.carry!), ...outlinePts.map((p) => p.carry));
 
   const sx = (x: number) => PAD + ((x + xMax) / (xMax * 2)) * (W - PAD * 2);
   const sy = (y: number) => H - PAD - (y / yMax) * (H - PAD * 2);
@@ -909,6 +1157,22 @@ function DispersionPlot({
       <line x1={PAD} y1={PAD} x2={PAD} y2={H - PAD} stroke="#333" />
       <line x1={sx(0)} y1={PAD} x2={sx(0)} y2={H - PAD} stroke="#222" />
 
+      {outlines.map((o, i) => (
+        <g key={o.club}>
+          <path
+            d={o.outline.map((p, j) => `${j ? "L" : "M"}${sx(p.side).toFixed(1)},${sy(Math.max(0, p.carry)).toFixed(1)}`).join(" ") + " Z"}
+            fill={o.color}
+            fillOpacity={0.08}
+            stroke={o.color}
+            strokeOpacity={0.8}
+            strokeWidth={1.5}
+          />
+          <text x={W - PAD} y={PAD + 12 + i * 14} textAnchor="end" fontSize={11} fill={o.color}>
+            {o.club} · {Math.round(o.ellipse.confidence * 100)}%
+          </text>
+        </g>
+      ))}
+
       {pts.map((p) => {
         const isSel = selected.has(p.id);
         const isHover = hovered === p.id;
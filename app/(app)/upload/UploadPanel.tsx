@@ -5,39 +5,120 @@ import { useRef, useState } from "react";
 const API_ORIGIN = (process.env.NEXT_PUBLIC_API_ORIGIN || "").replace(/\/$/, "");
 const apiUrl = (p: string) => `${API_ORIGIN}${p}`;
 
+type UploadOptions = {
+    onDuplicate?: "merge" | "new";
+    split?: string; // "none" | comma-separated block start rows
+    source?: string; // device confirmed in the preview
+    headerMap?: Record<string, string | null>; // only when the player edited the mapping
+};
+
+type DuplicatePrompt = {
+    file: File;
+    options: UploadOptions;
+    overlappingShots: number;
+    totalShots: number;
+};
+
+type PreviewBlock = {
+    index: number;
+    rowStart: number;
+    rowEnd: number;
+    reason: "start" | "label" | "time_gap" | "date_change";
+    label: string | null;
+    sessionDate: string | null;
+    practicedAt: string | null;
+};
+
+type PreviewResponse = {
+    source: string;
+    sourceLabel: string;
+    detected: boolean;
+    parsers: { id: string; label: string }[];
+    fields: string[];
+    headers: string[];
+    headerMap: Record<string, string>;
+    headerMapSource: "parser" | "saved" | "user";
+    unmappedColumns: string[];
+    missingMetrics: string[];
+    units: Record<string, { unit: string; from: string }>;
+    rows: number;
+    sampleRows: Record<string, string>[];
+    sampleShots: Record<string, string | number | null>[];
+    blocks: PreviewBlock[];
+};
+
+type Wizard = PreviewResponse & {
+    file: File;
+    edited: boolean; // mapping changed by the player → sent with the import (and remembered for this device)
+    keep: number[]; // block start rows the player keeps as session boundaries
+};
+
+const REASON_LABEL: Record<PreviewBlock["reason"], string> = {
+    start: "Start of file",
+    label: "New practice block",
+    time_gap: "Break between shots",
+    date_change: "New day",
+};
+
+const fieldLabel = (f: string) => f.replace(/_/g, " ");
+
+function buildForm(file: File, options: UploadOptions = {}) {
+    const form = new FormData();
+    form.append("file", file);
+    if (options.onDuplicate) form.append("on_duplicate", options.onDuplicate);
+    if (options.split) form.append("split", options.split);
+    if (options.source) form.append("source", options.source);
+    if (options.headerMap) form.append("header_map", JSON.stringify(options.headerMap));
+    // Fallback zone for exports without one (the client's profile zone wins server-side)
+    form.append("time_zone", Intl.DateTimeFormat().resolvedOptions().timeZone || "");
+    return form;
+}
+
 export default function UploadPanel() {
     const inputRef = useRef<HTMLInputElement | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [loading, setLoading] = useState(false);
+    const [duplicate, setDuplicate] = useState<DuplicatePrompt | null>(null);
+    const [wizard, setWizard] = useState<Wizard | null>(null);
 
     function pickFile() {
         setError(null);
+        setDuplicate(null);
+        setWizard(null);
         inputRef.current?.click();
     }
 
-    async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
-        const file = e.target.files?.[0];
-        if (!file) return;
-
+    async function upload(file: File, options: UploadOptions = {}) {
         setLoading(true);
         setError(null);
+        setDuplicate(null);
 
         try {
-            const form = new FormData();
-            form.append("file", file);
-
             const res = await fetch(apiUrl("/api/upload"), {
                 method: "POST",
-                body: form,
+                body: buildForm(file, options),
                 credentials: "include",
             });
 
+            if (res.status === 409) {
+                const j = await res.json().catch(() => null);
+                if (j?.error === "possible_duplicate") {
+                    setDuplicate({
+                        file,
+                        options,
+                        overlappingShots: Number(j.overlappingShots ?? 0),
+                        totalShots: Number(j.totalShots ?? 0),
+                    });
+                    return;
+                }
+            }
+
             if (!res.ok) {
                 const text = await res.text();
                 throw new Error(text || "Upload failed");
             }
 
-            // Success → dashboard
+            // Success (including an exact re-upload, which returns the existing session) → dashboard
             window.location.href = "/dashboard";
         } catch (err: any) {
             setError(err.message ?? "Upload failed");
@@ -46,6 +127,88 @@ export default function UploadPanel() {
         }
     }
 
+    // Dry run: device, mapping, units, sample shots and session blocks. Nothing is written until "Import".
+    async function preview(file: File, options: UploadOptions = {}, edited = false) {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const res = await fetch(apiUrl("/api/upload/preview"), {
+                method: "POST",
+                body: buildForm(file, options),
+                credentials: "include",
+            });
+
+            if (!res.ok) {
+                const text = await res.text();
+                throw new Error(text || "Could not read file");
+            }
+
+            const j = (await res.json()) as PreviewResponse;
+            setWizard({
+                ...j,
+                file,
+                edited,
+                keep: (j.blocks ?? []).map((b) => b.rowStart),
+            });
+        } catch (err: unknown) {
+            // Keep the previous preview on screen so a bad edit can be undone
+            setError(err instanceof Error ? err.message : "Could not read file");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function changeDevice(source: string) {
+        if (!wizard) return;
+        void preview(wizard.file, { source });
+    }
+
+    function changeMapping(header: string, field: string) {
+        if (!wizard) return;
+        const next: Record<string, string | null> = {};
+        for (const h of wizard.headers) {
+            const current = wizard.headerMap[h] ?? null;
+            // One column per field: picking a field elsewhere frees it here
+            next[h] = h === header ? field || null : field && current === field ? null : current;
+        }
+        void preview(wizard.file, { source: wizard.source, headerMap: next }, true);
+    }
+
+    function toggleBoundary(rowStart: number) {
+        setWizard((w) =>
+            w
+                ? {
+                      ...w,
+                      keep: w.keep.includes(rowStart) ? w.keep.filter((r) => r !== rowStart) : [...w.keep, rowStart],
+                  }
+                : w
+        );
+    }
+
+    function confirmImport() {
+        if (!wizard) return;
+        const starts = wizard.blocks.filter((b) => b.index === 0 || wizard.keep.includes(b.rowStart)).map((b) => b.rowStart);
+        void upload(wizard.file, {
+            source: wizard.source,
+            headerMap: wizard.edited ? wizard.headerMap : undefined,
+            split: starts.length > 1 ? starts.join(",") : "none",
+        });
+    }
+
+    async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        await preview(file);
+    }
+
+    // Sessions the confirmed split produces: consecutive blocks merge where a boundary is unticked.
+    const confirmedSessions = wizard
+        ? Math.max(1, wizard.blocks.filter((b) => b.index === 0 || wizard.keep.includes(b.rowStart)).length)
+        : 0;
+    const nothingMapped = wizard ? !Object.keys(wizard.headerMap).length : false;
+
     return (
         <div className="rounded-xl border border-neutral-800 p-6">
             <input
@@ -61,9 +224,176 @@ export default function UploadPanel() {
                 disabled={loading}
                 className="rounded-lg bg-neutral-900 px-4 py-2 text-sm hover:bg-neutral-800 disabled:opacity-60"
             >
-                {loading ? "Uploading…" : "Select CSV file"}
+                {loading ? "Working…" : "Select CSV file"}
             </button>
 
+            {wizard && (
+                <div className="mt-3 space-y-3 rounded-lg border border-neutral-800 bg-neutral-950 p-3 text-sm">
+                    <div className="flex flex-wrap items-center gap-2 text-neutral-200">
+                        <span>{wizard.file.name}</span>
+                        <span className="text-neutral-500">·</span>
+                        <span>{wizard.rows} shots</span>
+                        <span className="text-neutral-500">·</span>
+                        <label className="flex items-center gap-1">
+                            <span className="text-neutral-400">Device</span>
+                            <select
+                                value={wizard.source}
+                                disabled={loading}
+                                onChange={(e) => changeDevice(e.target.value)}
+                                className="rounded border border-neutral-800 bg-neutral-900 px-2 py-1"
+                            >
+                                {wizard.parsers.map((p) => (
+                                    <option key={p.id} value={p.id}>
+                                        {p.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+
+                    {!wizard.detected && (
+                        <div className="text-amber-200">
+                            We couldn&apos;t recognise this export. Pick your device, or map the columns below by hand.
+                        </div>
+                    )}
+                    {wizard.headerMapSource === "saved" && !wizard.edited && (
+                        <div className="text-neutral-400">Using the column mapping from your last {wizard.sourceLabel} upload.</div>
+                    )}
+
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-left text-xs">
+                            <thead>
+                                <tr>
+                                    {wizard.headers.map((h) => (
+                                        <th key={h} className="border-b border-neutral-800 px-2 py-1 align-top font-normal">
+                                            <div className="text-neutral-300">{h}</div>
+                                            <select
+                                                value={wizard.headerMap[h] ?? ""}
+                                                disabled={loading}
+                                                onChange={(e) => changeMapping(h, e.target.value)}
+                                                className="mt-1 rounded border border-neutral-800 bg-neutral-900 px-1 py-0.5"
+                                            >
+                                                <option value="">— ignore —</option>
+                                                {wizard.fields.map((f) => (
+                                                    <option key={f} value={f}>
+                                                        {fieldLabel(f)}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            {wizard.units[h] && (
+                                                <div className="mt-0.5 text-neutral-500">{wizard.units[h].unit}</div>
+                                            )}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {wizard.sampleRows.map((r, i) => (
+                                    <tr key={i}>
+                                        {wizard.headers.map((h) => (
+                                            <td
+                                                key={h}
+                                                className={`px-2 py-1 ${wizard.headerMap[h] ? "text-neutral-200" : "text-neutral-600"}`}
+                                            >
+                                                {r[h] ?? ""}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {wizard.sampleShots[0] && (
+                        <div className="text-neutral-400">
+                            First shot as imported:{" "}
+                            {wizard.fields
+                                .filter((f) => wizard.sampleShots[0][f] !== null && wizard.sampleShots[0][f] !== undefined)
+                                .map((f) => {
+                                    const v = wizard.sampleShots[0][f];
+                                    return `${fieldLabel(f)} ${typeof v === "number" ? Math.round(v * 10) / 10 : v}`;
+                                })
+                                .join(" · ") || "nothing mapped yet"}
+                        </div>
+                    )}
+
+                    {wizard.missingMetrics.length > 0 && (
+                        <div className="text-amber-200">
+                            Not found in this file: {wizard.missingMetrics.map(fieldLabel).join(", ")}. Map a column above if your export has it.
+                        </div>
+                    )}
+
+                    {wizard.blocks.length > 1 && (
+                        <div>
+                            <div className="text-neutral-200">
+                                This file looks like {wizard.blocks.length} practice sessions. Untick a break to keep those shots in the previous session.
+                            </div>
+                            <ul className="mt-2 space-y-1">
+                                {wizard.blocks.map((b) => (
+                                    <li key={b.rowStart} className="flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={b.index === 0 || wizard.keep.includes(b.rowStart)}
+                                            disabled={b.index === 0 || loading}
+                                            onChange={() => toggleBoundary(b.rowStart)}
+                                        />
+                                        <span className="text-neutral-400">{REASON_LABEL[b.reason]}</span>
+                                        <span>
+                                            {b.sessionDate ?? "No date"}
+                                            {b.practicedAt ? ` ${new Date(b.practicedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : ""}
+                                            {" · "}
+                                            {b.rowEnd - b.rowStart} shots
+                                            {b.label ? ` · ${b.label}` : ""}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="flex gap-2">
+                        <button
+                            onClick={confirmImport}
+                            disabled={loading || nothingMapped}
+                            className="rounded-lg bg-neutral-900 px-3 py-1.5 hover:bg-neutral-800 disabled:opacity-60"
+                        >
+                            Import {confirmedSessions} session{confirmedSessions === 1 ? "" : "s"}
+                        </button>
+                        <button
+                            onClick={() => setWizard(null)}
+                            disabled={loading}
+                            className="rounded-lg border border-neutral-800 px-3 py-1.5 hover:bg-neutral-900 disabled:opacity-60"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {duplicate && (
+                <div className="mt-3 rounded-lg border border-amber-700/60 bg-amber-950/30 p-3 text-sm">
+                    <div className="text-amber-200">
+                        {duplicate.overlappingShots} of {duplicate.totalShots} shots in this file are already in your sessions.
+                    </div>
+                    <div className="mt-2 flex gap-2">
+                        <button
+                            onClick={() => upload(duplicate.file, { ...duplicate.options, onDuplicate: "merge" })}
+                            disabled={loading}
+                            className="rounded-lg bg-neutral-900 px-3 py-1.5 hover:bg-neutral-800 disabled:opacity-60"
+                        >
+                            Add new shots to the matching sessions
+                        </button>
+                        <button
+                            onClick={() => upload(duplicate.file, { ...duplicate.options, onDuplicate: "new" })}
+                            disabled={loading}
+                            className="rounded-lg border border-neutral-800 px-3 py-1.5 hover:bg-neutral-900 disabled:opacity-60"
+                        >
+                            Upload as a new session
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {error && (
                 <div className="mt-3 text-sm text-red-400">
                     {error}
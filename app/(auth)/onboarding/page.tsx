@@ -143,6 +143,7 @@ export default function OnboardingPage() {
       city: city || null,
       postcode: postcode || null,
       country: country || null,
+      time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone || null,
     };
 
     const res = await fetch('/api/profile/upsert', {
@@ -0,0 +1,112 @@
+'use client';
+export const dynamic = "force-dynamic";
+
+import { useCallback, useEffect, useState } from 'react';
+
+type ImportRow = {
+  id: string;
+  session_id: string;
+  client_id: string | null;
+  original_filename: string | null;
+  parser_id: string | null;
+  status: string;
+  failed_step: string | null;
+  error: string | null;
+  created_at: string;
+};
+
+export default function AdminImportsPage() {
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [onlyFailed, setOnlyFailed] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [msg, setMsg] = useState('');
+
+  const load = useCallback(async () => {
+    const qs = onlyFailed ? '?status=failed' : '';
+    const res = await fetch(`/api/admin/imports/list${qs}`, { cache: 'no-store' });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setMsg(json?.error ?? `Load failed (${res.status})`);
+      return;
+    }
+    setRows((json?.imports ?? []) as ImportRow[]);
+  }, [onlyFailed]);
+
+  async function act(id: string, action: 'resume' | 'purge') {
+    if (action === 'purge' && !window.confirm('Delete this import and everything it wrote?')) return;
+
+    setMsg('');
+    setBusy(id);
+    try {
+      const res = await fetch(`/api/admin/imports/${id}/${action}`, { method: 'POST' });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMsg(`${action} failed: ${json?.error ?? res.status}${json?.detail ? ` — ${json.detail}` : ''}`);
+      } else if (action === 'resume') {
+        setMsg(`Resumed from ${json?.resumedFrom}: ${json?.shotsInserted ?? 0} shots, metrics ${json?.metricsStatus}`);
+      } else {
+        const deleted = (json?.sessionsDeleted ?? []).length;
+        setMsg(deleted ? `Purged import and ${deleted} session(s)` : 'Purged import; session stats rebuilt');
+      }
+      await load();
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return (
+    <main style={{ padding: 24, maxWidth: 960 }}>
+      <h1>Admin – Imports</h1>
+
+      <label style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 12 }}>
+        <input type="checkbox" checked={onlyFailed} onChange={(e) => setOnlyFailed(e.target.checked)} />
+        Failed only (otherwise: every unfinished import)
+      </label>
+
+      {msg && <p style={{ marginTop: 12 }}>{msg}</p>}
+
+      {rows.length === 0 ? (
+        <p style={{ marginTop: 12, opacity: 0.7 }}>No imports.</p>
+      ) : (
+        <table style={{ marginTop: 12, width: '100%', fontSize: 13, borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left' }}>
+              <th>Created</th>
+              <th>File</th>
+              <th>Parser</th>
+              <th>Status</th>
+              <th>Error</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.id} style={{ borderTop: '1px solid #333' }}>
+                <td>{new Date(r.created_at).toLocaleString()}</td>
+                <td>{r.original_filename ?? '—'}</td>
+                <td>{r.parser_id ?? '—'}</td>
+                <td>
+                  {r.status}
+                  {r.failed_step ? ` @ ${r.failed_step}` : ''}
+                </td>
+                <td style={{ maxWidth: 260, overflow: 'hidden', textOverflow: 'ellipsis' }}>{r.error ?? ''}</td>
+                <td style={{ whiteSpace: 'nowrap' }}>
+                  <button disabled={busy === r.id} onClick={() => void act(r.id, 'resume')}>
+                    Resume
+                  </button>{' '}
+                  <button disabled={busy === r.id || r.status !== 'failed'} onClick={() => void act(r.id, 'purge')}>
+                    Purge
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { resolveClientId } from "@/app/lib/auth/resolveClientId";
+import { clubKey } from "@/lib/analytics/clubs";
+import { getClubCarries, TREND_BASES, type ClubCarry, type TrendBasis, type TrendWindowDays } from "@/lib/analytics/trends";
+
+/**
+ * Smart Bag carries from the player's session snapshots over the bag window (lib/analytics/trends.ts getClubCarries),
+ * at standard conditions unless basis "raw" is asked for. bag_snapshot_clubs.distance_range_json stays as recorded.
+ * Null basis = invalid value; users without a client get no carries.
+ */
+export async function loadBagCarries(
+  supabase: SupabaseClient,
+  userId: string,
+  days: TrendWindowDays,
+  rawBasis: unknown
+): Promise<{ basis: TrendBasis | null; carries: Record<string, ClubCarry> }> {
+  const basis = rawBasis === undefined || rawBasis === null ? "standardized" : String(rawBasis);
+  if (!(TREND_BASES as readonly string[]).includes(basis)) return { basis: null, carries: {} };
+
+  const { clientId } = await resolveClientId(supabase, userId);
+  if (!clientId) return { basis: basis as TrendBasis, carries: {} };
+
+  const carries = await getClubCarries(supabase, clientId, { days, basis: basis as TrendBasis }).catch(() => ({}));
+  return { basis: basis as TrendBasis, carries };
+}
+
+/** Carry for a bag club key ("I7", "DR", "PW"...). */
+export function bagClubCarry(carries: Record<string, ClubCarry>, key: unknown): ClubCarry | null {
+  return key ? (carries[clubKey(String(key))] ?? null) : null;
+}
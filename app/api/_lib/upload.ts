@@ -0,0 +1,163 @@
+import { requireClient, jsonErr, jsonOk } from "@/app/api/_lib/auth";
+import { parseSessionConditions, type SessionConditions } from "@/lib/analytics/conditions";
+import { ingestCsvUpload, prepareCsvForUser, resolveTimeZone, type OnDuplicate } from "@/lib/ingest/ingestCsv";
+import { buildBlocks, detectBlockStarts, parseSplitField } from "@/lib/ingest/split";
+import { listParsers, mapRowToShot } from "@/lib/parsers/registry";
+import { CANONICAL_SHOT_FIELDS, SHOT_FIELDS } from "@/lib/parsers/types";
+
+const ON_DUPLICATE: OnDuplicate[] = ["ask", "merge", "new"];
+
+type UploadForm = {
+  filename: string;
+  buf: Buffer;
+  source: string | null;
+  onDuplicate: OnDuplicate;
+  timeZone: string | null;
+  split: "auto" | "none" | number[];
+  headerMap: Record<string, unknown> | null;
+  conditions: SessionConditions | null;
+};
+
+const PREVIEW_SAMPLE_SHOTS = 5;
+
+/**
+ * Multipart fields shared by upload + preview (field: file, optional fields: source, on_duplicate, time_zone, split).
+ * on_duplicate: "ask" (default; 409 possible_duplicate) | "merge" | "new".
+ * time_zone: uploader's IANA zone, used for exports without an offset when the client profile has none.
+ * split: "auto" (default) | "none" | comma-separated session start rows confirmed via /api/upload/preview.
+ * header_map: JSON { "<file header>": "<shot field>" | null } edited in the preview; replaces the device mapping.
+ * conditions: JSON { altitude_ft?, temperature_f?, ball_type? } the session was played in (sim settings or the day
+ * outdoors); carries are also reported at standard conditions. Not applied when merging into an existing session.
+ */
+async function readUploadForm(req: Request, forcedSource?: string): Promise<UploadForm | { res: Response }> {
+  const form = await req.formData().catch(() => null);
+  if (!form) return { res: jsonErr(400, "bad_formdata") };
+
+  const file = form.get("file");
+  if (!(file instanceof File)) return { res: jsonErr(400, "missing_file", { field: "file" }) };
+
+  const filename = file.name || "upload.csv";
+  if (!filename.toLowerCase().endsWith(".csv")) {
+    return { res: jsonErr(400, "invalid_file_type", { expected: ".csv" }) };
+  }
+
+  const text = (k: string) => {
+    const v = form.get(k);
+    return typeof v === "string" ? v.trim() || null : null;
+  };
+
+  const source = forcedSource ?? text("source");
+
+  const onDuplicate = (text("on_duplicate") ?? "ask") as OnDuplicate;
+  if (!ON_DUPLICATE.includes(onDuplicate)) {
+    return { res: jsonErr(400, "invalid_on_duplicate", { expected: ON_DUPLICATE }) };
+  }
+
+  const split = parseSplitField(text("split"));
+  if (!split) return { res: jsonErr(400, "invalid_split", { expected: "auto | none | comma-separated row indices" }) };
+
+  let headerMap: Record<string, unknown> | null = null;
+  const rawMap = text("header_map");
+  if (rawMap) {
+    try {
+      headerMap = JSON.parse(rawMap);
+    } catch {
+      return { res: jsonErr(400, "invalid_header_map") };
+    }
+    if (!headerMap || typeof headerMap !== "object" || Array.isArray(headerMap)) {
+      return { res: jsonErr(400, "invalid_header_map") };
+    }
+  }
+
+  let conditions: SessionConditions | null = null;
+  const rawConditions = text("conditions");
+  if (rawConditions) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawConditions);
+    } catch {
+      return { res: jsonErr(400, "invalid_conditions") };
+    }
+    const c = parseSessionConditions(parsed, "upload");
+    if (!c.ok) return { res: jsonErr(400, c.error, c.extra) };
+    conditions = c.conditions;
+  }
+
+  const buf = Buffer.from(await file.arrayBuffer());
+
+  return { filename, buf, source, onDuplicate, timeZone: text("time_zone"), split, headerMap, conditions };
+}
+
+/**
+ * Shared multipart CSV upload handler.
+ * `forcedSource` pins the parser for legacy device-specific routes.
+ */
+export async function handleCsvUpload(req: Request, forcedSource?: string) {
+  const auth = await requireClient();
+  if (!("supabase" in auth)) return auth.res;
+
+  const { supabase, userId, clientId } = auth;
+
+  const bucket = process.env.SUPABASE_UPLOADS_BUCKET;
+  if (!bucket) return jsonErr(500, "missing_env", { need: "SUPABASE_UPLOADS_BUCKET" });
+
+  const form = await readUploadForm(req, forcedSource);
+  if ("res" in form) return form.res;
+
+  const result = await ingestCsvUpload({ supabase, userId, clientId, bucket, ...form });
+  if (!result.ok) return jsonErr(result.status, result.error, result.extra);
+
+  return jsonOk(result.data);
+}
+
+/**
+ * Dry run: what the upload would do with this file (device, column mapping, units, sample shots, session split).
+ * Unrecognised exports fall back to the manual-mapping parser (detected: false) so the wizard can map them.
+ * Nothing is written.
+ */
+export async function handleCsvPreview(req: Request) {
+  const auth = await requireClient();
+  if (!("supabase" in auth)) return auth.res;
+
+  const { supabase, userId, clientId } = auth;
+
+  const form = await readUploadForm(req);
+  if ("res" in form) return form.res;
+
+  const opts = { headerMap: form.headerMap, allowUnmapped: true };
+  let detected = true;
+  let prep = await prepareCsvForUser(supabase, userId, form.buf, form.source, opts);
+  if (!prep.ok && prep.error === "unsupported_format") {
+    detected = false;
+    prep = await prepareCsvForUser(supabase, userId, form.buf, "generic", opts);
+  }
+  if (!prep.ok) return jsonErr(prep.status, prep.error, prep.extra);
+
+  const { table, parser, headerMap, headerMapSource, columnUnits } = prep.prepared;
+  const timeZone = await resolveTimeZone(supabase, clientId, form.timeZone);
+  const blocks = buildBlocks(parser, table, timeZone, detectBlockStarts(parser, table, timeZone));
+
+  const shots = table.rows.map((r, idx) => mapRowToShot(r, headerMap, idx + 1, { parser, units: columnUnits }));
+
+  // Metrics no row provides (mapping or derived); fixing these is what the wizard is for.
+  const missingMetrics = CANONICAL_SHOT_FIELDS.filter((k) => shots.every((s) => s[k] === null));
+
+  return jsonOk({
+    source: parser.id,
+    sourceLabel: parser.label,
+    detected,
+    parsers: listParsers().map((p) => ({ id: p.id, label: p.label })),
+    fields: SHOT_FIELDS,
+    headers: table.headers,
+    headerMap,
+    headerMapSource,
+    unmappedColumns: table.headers.filter((h) => !headerMap[h]),
+    missingMetrics,
+    units: columnUnits,
+    rows: table.rows.length,
+    sampleRows: table.rows.slice(0, PREVIEW_SAMPLE_SHOTS).map((r) => r.values),
+    sampleShots: shots.slice(0, PREVIEW_SAMPLE_SHOTS),
+    timeZone,
+    blocks,
+  });
+}
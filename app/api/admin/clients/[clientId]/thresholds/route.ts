@@ -0,0 +1,67 @@
+import { requireAdmin, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import {
+  CLUB_CATEGORIES,
+  loadThresholdProfile,
+  parseThresholdOverrides,
+  resolveThresholds,
+  type ThresholdProfile,
+} from "@/lib/analytics/thresholds";
+
+const SKILL_TIERS = ["scratch", "advanced", "intermediate", "beginner", "unknown"];
+
+function describe(profile: ThresholdProfile) {
+  return {
+    profile,
+    resolved: {
+      default: resolveThresholds(profile, null),
+      ...Object.fromEntries(CLUB_CATEGORIES.map((c) => [c, resolveThresholds(profile, c)])),
+    },
+  };
+}
+
+export async function GET(_req: Request, ctx: { params: Promise<{ clientId: string }> }) {
+  const auth = await requireAdmin();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase } = auth;
+
+  const { clientId } = await ctx.params;
+  const clean = String(clientId).replace(/[^a-f0-9-]/gi, "");
+
+  const profile = await loadThresholdProfile(supabase, clean);
+  return jsonOk(describe(profile));
+}
+
+/**
+ * Body: { skill_tier?: string | null, overrides?: { all?: {...}, driver?: {...}, ... } | null }
+ * Omitted fields keep their stored value. Applies from the next stats recompute of each session.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ clientId: string }> }) {
+  const auth = await requireAdmin();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase, userId } = auth;
+
+  const { clientId } = await ctx.params;
+  const clean = String(clientId).replace(/[^a-f0-9-]/gi, "");
+  if (!clean) return jsonErr(400, "missing_client_id");
+
+  const body = await req.json().catch(() => ({}));
+  const patch: Record<string, unknown> = { client_id: clean, updated_by: userId, updated_at: new Date().toISOString() };
+
+  if ("skill_tier" in body) {
+    const tier = body.skill_tier;
+    if (tier !== null && !SKILL_TIERS.includes(String(tier))) return jsonErr(400, "invalid_skill_tier");
+    patch.skill_tier = tier;
+  }
+
+  if ("overrides" in body) {
+    const parsed = parseThresholdOverrides(body.overrides);
+    if (!parsed.ok) return jsonErr(400, parsed.error, { detail: parsed.detail });
+    patch.overrides = parsed.overrides;
+  }
+
+  const { error } = await supabase.from("client_signal_thresholds").upsert([patch], { onConflict: "client_id" });
+  if (error) return jsonErr(500, "thresholds_save_failed", { detail: error.message });
+
+  const profile = await loadThresholdProfile(supabase, clean);
+  return jsonOk(describe(profile));
+}
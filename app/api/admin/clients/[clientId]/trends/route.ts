@@ -0,0 +1,25 @@
+import { requireAdmin, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { getClientTrends, TREND_BASES, type TrendBasis } from "@/lib/analytics/trends";
+
+export async function GET(req: Request, ctx: { params: Promise<{ clientId: string }> }) {
+  const auth = await requireAdmin();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase } = auth;
+
+  const { clientId } = await ctx.params;
+  const clean = String(clientId).replace(/[^a-f0-9-]/gi, "");
+
+  const params = new URL(req.url).searchParams;
+  const asOf = params.get("as_of");
+  if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) return jsonErr(400, "invalid_as_of");
+
+  const basis = params.get("basis") ?? "standardized";
+  if (!(TREND_BASES as readonly string[]).includes(basis)) return jsonErr(400, "invalid_basis", { expected: TREND_BASES });
+
+  try {
+    const trends = await getClientTrends(supabase, clean, { asOf: asOf ?? undefined, basis: basis as TrendBasis });
+    return jsonOk({ trends });
+  } catch (e: unknown) {
+    return jsonErr(500, "trends_failed", { detail: e instanceof Error ? e.message : String(e) });
+  }
+}
@@ -0,0 +1,35 @@
+import { requireAdmin, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { resumeImport } from "@/lib/ingest/pipeline";
+
+export async function POST(_req: Request, ctx: { params: Promise<{ importId: string }> }) {
+  const auth = await requireAdmin();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase } = auth;
+
+  const bucket = process.env.SUPABASE_UPLOADS_BUCKET;
+  if (!bucket) return jsonErr(500, "missing_env", { need: "SUPABASE_UPLOADS_BUCKET" });
+
+  const { importId } = await ctx.params;
+  const clean = String(importId).replace(/[^a-f0-9-]/gi, "");
+
+  const result = await resumeImport(supabase, bucket, clean);
+  if (!result.ok) return jsonErr(result.status, result.error, result.extra);
+
+  if (!result.run.ok) {
+    return jsonErr(500, result.run.error, {
+      importId: result.importId,
+      resumedFrom: result.resumedFrom,
+      step: result.run.step,
+      detail: result.run.detail,
+    });
+  }
+
+  return jsonOk({
+    importId: result.importId,
+    sessionIds: result.sessionIds,
+    resumedFrom: result.resumedFrom,
+    shotsInserted: result.run.shotsInserted,
+    metricsStatus: result.run.metricsStatus,
+    metricsMissing: result.run.metricsMissing,
+  });
+}
@@ -0,0 +1,31 @@
+import { requireAdmin, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { IMPORT_STATUSES } from "@/lib/ingest/pipeline";
+
+// Unfinished imports by default (anything not "complete"); ?status=failed|... and ?client_id= narrow it.
+export async function GET(req: Request) {
+  const auth = await requireAdmin();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase } = auth;
+
+  const url = new URL(req.url);
+  const status = url.searchParams.get("status");
+  const clientId = url.searchParams.get("client_id");
+
+  if (status && !(IMPORT_STATUSES as readonly string[]).includes(status)) {
+    return jsonErr(400, "invalid_status", { expected: IMPORT_STATUSES });
+  }
+
+  let q = supabase
+    .from("csv_imports")
+    .select("id, session_id, client_id, original_filename, parser_id, status, failed_step, error, created_at, updated_at")
+    .order("created_at", { ascending: false })
+    .limit(200);
+
+  q = status ? q.eq("status", status) : q.neq("status", "complete");
+  if (clientId) q = q.eq("client_id", clientId);
+
+  const { data, error } = await q;
+  if (error) return jsonErr(500, error.message);
+
+  return jsonOk({ imports: data ?? [] });
+}
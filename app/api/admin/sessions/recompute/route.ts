@@ -0,0 +1,49 @@
+import { requireAdmin, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { MAX_RECOMPUTE_BATCH, recomputeSnapshots, type RecomputeCursor } from "@/lib/ingest/recompute";
+
+/**
+ * Rebuild session snapshots at the current stat_version.
+ * Body: { client_id?: string, session_ids?: string[], stale_only?: boolean (default true), limit?: number (default 50),
+ *         cursor?: { sessionDate: string, id: string } (from the previous response) }
+ * Repeat with the returned `cursor` while `remaining` > 0.
+ */
+export async function POST(req: Request) {
+  const auth = await requireAdmin();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase } = auth;
+
+  const body = await req.json().catch(() => ({}));
+  const clientId = body?.client_id ? String(body.client_id).replace(/[^a-f0-9-]/gi, "") : null;
+
+  let sessionIds: string[] | null = null;
+  if (body?.session_ids !== undefined) {
+    if (!Array.isArray(body.session_ids) || body.session_ids.length > MAX_RECOMPUTE_BATCH) {
+      return jsonErr(400, "invalid_session_ids");
+    }
+    sessionIds = body.session_ids.map((v: unknown) => String(v).replace(/[^a-f0-9-]/gi, "")).filter(Boolean);
+  }
+
+  const limit = Number(body?.limit ?? 50);
+  if (!Number.isFinite(limit) || limit < 1) return jsonErr(400, "invalid_limit");
+
+  let cursor: RecomputeCursor | null = null;
+  if (body?.cursor !== undefined && body?.cursor !== null) {
+    const sessionDate = String(body.cursor?.sessionDate ?? "");
+    const id = String(body.cursor?.id ?? "").replace(/[^a-f0-9-]/gi, "");
+    if (!id || !/^\d{4}-\d{2}-\d{2}[\dT:.+\- Z]*$/.test(sessionDate)) return jsonErr(400, "invalid_cursor");
+    cursor = { sessionDate, id };
+  }
+
+  try {
+    const result = await recomputeSnapshots(supabase, {
+      clientId,
+      sessionIds,
+      staleOnly: body?.stale_only !== false,
+      limit,
+      cursor,
+    });
+    return jsonOk(result);
+  } catch (e: unknown) {
+    return jsonErr(500, "recompute_failed", { detail: e instanceof Error ? e.message : String(e) });
+  }
+}
@@ -1,4 +1,6 @@
 import { requireUser, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { bagClubCarry, loadBagCarries } from "@/app/api/_lib/bag";
+import type { TrendWindowDays } from "@/lib/analytics/trends";
 
 export async function POST(req: Request) {
   const auth = await requireUser();
@@ -10,6 +12,9 @@ const body = await req.json().catch(() => ({}));
   const allowed = new Set([30, 60, 90, 180]);
   const w = allowed.has(windowDays) ? windowDays : 90;
 
+  const { basis, carries } = await loadBagCarries(supabase, userId, w as TrendWindowDays, body?.basis);
+  if (!basis) return jsonErr(400, "invalid_basis", { expected: ["standardized", "raw"] });
+
   const { data: snap, error: sErr } = await supabase
     .from("bag_snapshots")
     .select("*")
@@ -29,5 +34,11 @@ const body = await req.json().catch(() => ({}));
 
   if (cErr) return jsonErr(500, cErr.message);
 
-  return jsonOk({ snapshot: snap, clubs: clubs ?? [] });
+  // Gapping carry per club from the session snapshots (standard conditions by default)
+  const withCarry = (clubs ?? []).map((c: Record<string, unknown>) => {
+    const carry = bagClubCarry(carries, c.club_key);
+    return { ...c, carry: carry?.carry ?? null, carry_sd: carry?.carry_sd ?? null };
+  });
+
+  return jsonOk({ snapshot: snap, clubs: withCarry, carry_basis: basis });
 }
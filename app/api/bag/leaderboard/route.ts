@@ -1,4 +1,9 @@
 import { requireUser, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { bagClubCarry, loadBagCarries } from "@/app/api/_lib/bag";
+import type { TrendWindowDays } from "@/lib/analytics/trends";
+
+// p90 - p10 of a normal distribution in standard deviations
+const P10_P90_SDS = 2.563;
 
 export async function POST(req: Request) {
   const auth = await requireUser();
@@ -12,6 +17,9 @@ const body = await req.json().catch(() => ({}));
   const allowed = new Set([30, 60, 90, 180]);
   const w = allowed.has(windowDays) ? windowDays : 90;
 
+  const { basis, carries } = await loadBagCarries(supabase, userId, w as TrendWindowDays, body?.basis);
+  if (!basis) return jsonErr(400, "invalid_basis", { expected: ["standardized", "raw"] });
+
   // Per-user leaderboard from latest snapshot (best effort)
   const { data: snap, error: sErr } = await supabase
     .from("bag_snapshots")
@@ -38,10 +46,12 @@ const body = await req.json().catch(() => ({}));
     const dr = r.distance_range_json;
     const p10 = dr?.p10 ?? null;
     const p90 = dr?.p90 ?? null;
-    const spread = (p90 != null && p10 != null) ? Number(p90) - Number(p10) : null;
+    // Carry spread from the snapshots' carry sd (standard conditions by default); the bag's raw range otherwise
+    const carrySd = bagClubCarry(carries, r.club_key)?.carry_sd ?? null;
+    const spread = carrySd != null ? P10_P90_SDS * carrySd : (p90 != null && p10 != null) ? Number(p90) - Number(p10) : null;
     const score = (disp != null && spread != null) ? (0.7 * Number(disp) + 0.3 * Number(spread)) : null;
     return { id: r.id, club_key: r.club_key, score, dispersion: disp, distance_spread: spread };
   }).filter((r:any)=>r.score!=null).sort((a:any,b:any)=>a.score-b.score).slice(0,50);
 
-  return jsonOk({ rows });
+  return jsonOk({ rows, carry_basis: basis });
 }
@@ -1,4 +1,5 @@
 import { requireUser, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { isValidTimeZone } from "@/lib/parsers/datetime";
 
 export async function POST(req: Request) {
   const auth = await requireUser();
@@ -18,6 +19,7 @@ const body = await req.json().catch(() => ({}));
     "golf_experience",
     "has_home_sim",
     "launch_monitor",
+    "time_zone",
     "client_id",
     "role",
     "is_admin",
@@ -27,6 +29,10 @@ const body = await req.json().catch(() => ({}));
     if (k in body) patch[k] = body[k];
   }
 
+  if (patch.time_zone != null && !isValidTimeZone(patch.time_zone)) {
+    return jsonErr(400, "invalid_time_zone");
+  }
+
   const { data, error } = await supabase
     .from("profiles")
     .upsert(patch, { onConflict: "id" })
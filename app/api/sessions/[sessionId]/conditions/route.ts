@@ -0,0 +1,27 @@
+import { requireClient, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { parseSessionConditions } from "@/lib/analytics/conditions";
+import { setSessionConditions } from "@/lib/ingest/edits";
+
+// Body: { conditions: { altitude_ft?, temperature_f?, ball_type? } | null }
+export async function POST(req: Request, ctx: { params: Promise<{ sessionId: string }> }) {
+  const auth = await requireClient();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase, userId, clientId } = auth;
+  const { sessionId } = await ctx.params;
+  const clean = String(sessionId).replace(/[^a-f0-9-]/gi, "");
+
+  const body = await req.json().catch(() => ({}));
+  if (body?.conditions === undefined) return jsonErr(400, "missing_conditions");
+
+  let conditions = null;
+  if (body.conditions !== null) {
+    const parsed = parseSessionConditions(body.conditions, "edit");
+    if (!parsed.ok) return jsonErr(400, parsed.error, parsed.extra);
+    conditions = parsed.conditions;
+  }
+
+  const result = await setSessionConditions(supabase, { clientId, userId, sessionId: clean, conditions });
+  if (!result.ok) return jsonErr(result.status, result.error, result.extra);
+
+  return jsonOk(result.data);
+}
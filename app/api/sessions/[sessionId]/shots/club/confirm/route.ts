@@ -0,0 +1,20 @@
+import { requireClient, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { confirmInferredClubs, parseShotIds } from "@/lib/ingest/edits";
+
+// Body: { shot_ids: string[] } (inferred clubs to accept as-is)
+export async function POST(req: Request, ctx: { params: Promise<{ sessionId: string }> }) {
+  const auth = await requireClient();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase, userId, clientId } = auth;
+  const { sessionId } = await ctx.params;
+  const clean = String(sessionId).replace(/[^a-f0-9-]/gi, "");
+
+  const body = await req.json().catch(() => ({}));
+  const shotIds = parseShotIds(body?.shot_ids);
+  if (!shotIds) return jsonErr(400, "invalid_shot_ids");
+
+  const result = await confirmInferredClubs(supabase, { clientId, userId, sessionId: clean, shotIds });
+  if (!result.ok) return jsonErr(result.status, result.error, result.extra);
+
+  return jsonOk(result.data);
+}
@@ -20,7 +20,7 @@ const { sessionId } = await ctx.params;
 
   const { data: shots, error } = await supabase
     .from("shots")
-    .select("id, shot_number, carry, total, side, ball_speed, club_speed, launch_angle, back_spin, side_spin, club, created_at")
+    .select("id, shot_number, carry, total, side, ball_speed, club_speed, launch_angle, back_spin, side_spin, attack_angle, dynamic_loft, face_to_path, apex, club, club_inferred, club_confidence, excluded, excluded_reason, created_at")
     .eq("session_id", clean)
     .order("shot_number", { ascending: true });
 
@@ -0,0 +1,15 @@
+import { requireClient, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { splitSessionByClub } from "@/lib/ingest/edits";
+
+export async function POST(_req: Request, ctx: { params: Promise<{ sessionId: string }> }) {
+  const auth = await requireClient();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase, userId, clientId } = auth;
+  const { sessionId } = await ctx.params;
+  const clean = String(sessionId).replace(/[^a-f0-9-]/gi, "");
+
+  const result = await splitSessionByClub(supabase, { clientId, userId, sessionId: clean });
+  if (!result.ok) return jsonErr(result.status, result.error, result.extra);
+
+  return jsonOk(result.data);
+}
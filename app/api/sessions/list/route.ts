@@ -14,9 +14,10 @@ const url = new URL(req.url);
 
   const { data: sessions, error } = await supabase
     .from("sessions")
-    .select("id, session_date, created_at, import_id")
+    .select("id, session_date, practiced_at, created_at, import_id, quality_score")
     .eq("client_id", clientId)
-    .gte("created_at", cutoff)
+    .or("metrics_status.is.null,metrics_status.neq.failed") // half-imported sessions stay out of history
+    .gte("session_date", cutoff.slice(0, 10)) // practice date, not upload time
     .order("session_date", { ascending: false })
     .limit(200);
 
@@ -29,7 +30,8 @@ const url = new URL(req.url);
     const { data: counts } = await supabase
       .from("shots")
       .select("session_id, id")
-      .in("session_id", ids);
+      .in("session_id", ids)
+      .eq("excluded", false);
 
     for (const r of counts ?? []) {
       const sid = String((r as any).session_id);
@@ -41,9 +43,11 @@ const url = new URL(req.url);
     sessions: (sessions ?? []).map((s: any) => ({
       session_id: s.id,
       session_date: s.session_date ?? null,
+      practiced_at: s.practiced_at ?? null,
       created_at: s.created_at ?? null,
       shot_count: countsBySession[String(s.id)] ?? 0,
       import_id: s.import_id ?? null,
+      quality_score: s.quality_score ?? null,
     })),
   });
 }
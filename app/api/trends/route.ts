@@ -0,0 +1,23 @@
+import { requireClient, jsonOk, jsonErr } from "@/app/api/_lib/auth";
+import { getClientTrends, TREND_BASES, type TrendBasis } from "@/lib/analytics/trends";
+
+// GET /api/trends?as_of=YYYY-MM-DD&basis=standardized|raw -> rolling windows, change points and callouts for the signed-in client
+export async function GET(req: Request) {
+  const auth = await requireClient();
+  if (!("supabase" in auth)) return auth.res;
+  const { supabase, clientId } = auth;
+
+  const params = new URL(req.url).searchParams;
+  const asOf = params.get("as_of");
+  if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) return jsonErr(400, "invalid_as_of");
+
+  const basis = params.get("basis") ?? "standardized";
+  if (!(TREND_BASES as readonly string[]).includes(basis)) return jsonErr(400, "invalid_basis", { expected: TREND_BASES });
+
+  try {
+    const trends = await getClientTrends(supabase, clientId, { asOf: asOf ?? undefined, basis: basis as TrendBasis });
+    return jsonOk({ trends });
+  } catch (e: unknown) {
+    return jsonErr(500, "trends_failed", { detail: e instanceof Error ? e.message : String(e) });
+  }
+}
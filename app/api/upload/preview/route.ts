@@ -0,0 +1,10 @@
+import { handleCsvPreview } from "@/app/api/_lib/upload";
+
+/**
+ * POST /api/upload/preview
+ * Same multipart fields as /api/upload; returns the detected parser, column mapping and session blocks
+ * so the player can confirm a split before committing (send the chosen block starts back as `split`).
+ */
+export async function POST(req: Request) {
+  return handleCsvPreview(req);
+}
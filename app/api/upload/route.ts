@@ -1,7 +1,11 @@
-import { requireUser, jsonErr } from "@/app/api/_lib/auth";
+import { handleCsvUpload } from "@/app/api/_lib/upload";
 
-export async function POST() {
-  const auth = await requireUser();
-  if (!("supabase" in auth)) return auth.res;
-  return jsonErr(501, "Upload ingestion not implemented yet (Phase 1 wiring pending).");
+/**
+ * POST /api/upload (multipart/form-data)
+ * - file: launch-monitor CSV export
+ * - source (optional): parser id ("gspro", "skytrak", ...); omitted/"auto" = detect from headers
+ * - on_duplicate, time_zone, split (optional): see app/api/_lib/upload.ts
+ */
+export async function POST(req: Request) {
+  return handleCsvUpload(req);
 }
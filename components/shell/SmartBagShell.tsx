@@ -501,6 +501,7 @@ export default function SmartBagShell() {
             {data?.snapshot && (
               <div className="text-sm text-muted-foreground">
                 Snapshot: {windowDays}d • {mishitsMode} • Clubs: {data.clubs.length}
+                {data.carry_basis === "standardized" ? " • Carry at standard conditions" : ""}
               </div>
             )}
 
@@ -520,7 +521,8 @@ export default function SmartBagShell() {
                     {clubsSorted.map((c: any) => {
                       const clubLabel = normalizeClubKey(c.club_key) || "—";
                       const samples = c.shot_count_total ?? c.shot_count_ts ?? c.shot_count_us ?? null;
-                      const carryP50 = carryFromDistanceRangeJson(c.distance_range_json);
+                      // Snapshot carry (standard conditions) first; the bag's as-recorded range when no session has the club
+                      const carryP50 = c.carry ?? carryFromDistanceRangeJson(c.distance_range_json);
                       const dispersion = dispersionFromDispersionJson(c.dispersion_json);
                       const confidence = c.confidence_score ?? c.confidence ?? null;
 
@@ -6,26 +6,55 @@ export type ModelPricing = {
 export const MODEL_PRICING_USD: Record<string, ModelPricing> = {
   // Keep model names as your "base" identifiers.
   // We normalize dated variants like "gpt-4.1-mini-2025-04-14" -> "gpt-4.1-mini".
+  "gpt-4.1": { prompt_per_1k: 0.002, completion_per_1k: 0.008 },
   "gpt-4.1-mini": { prompt_per_1k: 0.0003, completion_per_1k: 0.0012 },
+  "gpt-4.1-nano": { prompt_per_1k: 0.0001, completion_per_1k: 0.0004 },
   "gpt-4o-mini": { prompt_per_1k: 0.00015, completion_per_1k: 0.0006 },
   "gpt-4o": { prompt_per_1k: 0.005, completion_per_1k: 0.015 },
+  "o4-mini": { prompt_per_1k: 0.0011, completion_per_1k: 0.0044 },
 };
 
+// Self-hosted and replayed completions cost nothing per token
+export const ZERO_PRICING: ModelPricing = { prompt_per_1k: 0, completion_per_1k: 0 };
+
 function normalizeModel(model: string) {
   // Example: "gpt-4.1-mini-2025-04-14" -> "gpt-4.1-mini"
   // Only strips a trailing "-YYYY-MM-DD" if present.
   return model.replace(/-\d{4}-\d{2}-\d{2}$/, "");
 }
 
-export function calcCostUsd(
-  model: string | undefined,
+function isModelPricing(v: unknown): v is ModelPricing {
+  if (!v || typeof v !== "object") return false;
+  const p = v as Record<string, unknown>;
+  return typeof p.prompt_per_1k === "number" && typeof p.completion_per_1k === "number";
+}
+
+// LLM_MODEL_PRICING='{"my-model":{"prompt_per_1k":0.001,"completion_per_1k":0.002}}' prices models not in the table
+function envPricing(): Record<string, ModelPricing> {
+  const raw = process.env.LLM_MODEL_PRICING;
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return {};
+    return Object.fromEntries(Object.entries(parsed).filter((e): e is [string, ModelPricing] => isModelPricing(e[1])));
+  } catch {
+    return {};
+  }
+}
+
+/** Pricing for a model: LLM_MODEL_PRICING overrides first, then the table; null when unknown. */
+export function modelPricing(model: string | undefined): ModelPricing | null {
+  if (!model) return null;
+  const normalized = normalizeModel(model);
+  const overrides = envPricing();
+  return overrides[model] ?? overrides[normalized] ?? MODEL_PRICING_USD[normalized] ?? null;
+}
+
+export function costUsd(
+  pricing: ModelPricing | null,
   promptTokens?: number | null,
   completionTokens?: number | null
 ): number | null {
-  if (!model) return null;
-
-  const normalized = normalizeModel(model);
-  const pricing = MODEL_PRICING_USD[normalized];
   if (!pricing) return null;
 
   const pt = promptTokens ?? 0;
@@ -33,3 +62,11 @@ export function calcCostUsd(
 
   return (pt / 1000) * pricing.prompt_per_1k + (ct / 1000) * pricing.completion_per_1k;
 }
+
+export function calcCostUsd(
+  model: string | undefined,
+  promptTokens?: number | null,
+  completionTokens?: number | null
+): number | null {
+  return costUsd(modelPricing(model), promptTokens, completionTokens);
+}
@@ -0,0 +1,64 @@
+// lib/ai/provider.ts
+// LLM provider interface: JSON chat completion, usage reporting and per-model pricing. Engine code asks for a
+// provider here and never builds a client itself, so the backend is chosen by env:
+//   LLM_PROVIDER=openai  (default) OpenAI API, OPENAI_API_KEY
+//   LLM_PROVIDER=local   OpenAI-compatible endpoint (Ollama, vLLM): LLM_LOCAL_BASE_URL, LLM_LOCAL_MODEL, LLM_LOCAL_API_KEY
+//   LLM_PROVIDER=replay  recorded fixtures from LLM_FIXTURES_DIR; LLM_RECORD=openai|local records misses
+
+import { costUsd, type ModelPricing } from "./pricing";
+import { localProvider, openAiProvider } from "./providers/openaiCompatible";
+import { replayProvider } from "./providers/replay";
+
+export const LLM_PROVIDER_IDS = ["openai", "local", "replay"] as const;
+export type LlmProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+export type LlmMessage = { role: "system" | "developer" | "user" | "assistant"; content: string };
+
+export type LlmRequest = {
+  model: string; // requested model; a provider may map it (local runs one configured model)
+  temperature: number | null; // null = provider default
+  messages: LlmMessage[];
+  timeout_ms: number;
+  max_tokens?: number;
+};
+
+export type LlmUsage = {
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+};
+
+export type LlmCompletion = {
+  text: string;
+  provider: LlmProviderId;
+  model: string; // as reported by the provider (may be a dated variant)
+  usage: LlmUsage | null;
+  latency_ms: number;
+};
+
+export type LlmProvider = {
+  id: LlmProviderId;
+  /** Why this provider cannot be called right now, or null when it can. */
+  unavailable(): string | null;
+  /** JSON-mode completion. Throws on provider errors; an abort after `timeout_ms` throws with name "AbortError". */
+  completeJson(req: LlmRequest): Promise<LlmCompletion>;
+  pricing(model: string): ModelPricing | null;
+};
+
+export function isLlmProviderId(v: unknown): v is LlmProviderId {
+  return (LLM_PROVIDER_IDS as readonly unknown[]).includes(v);
+}
+
+/** Provider by id; defaults to LLM_PROVIDER, then openai. */
+export function getLlmProvider(id: string | undefined = process.env.LLM_PROVIDER): LlmProvider {
+  const picked = (id || "openai").toLowerCase();
+  if (!isLlmProviderId(picked)) throw new Error(`Unknown LLM_PROVIDER: ${id}`);
+  if (picked === "local") return localProvider;
+  if (picked === "replay") return replayProvider;
+  return openAiProvider;
+}
+
+/** Cost of one completion at the pricing of the provider that served it; null when the model is unpriced. */
+export function completionCostUsd(c: Pick<LlmCompletion, "provider" | "model" | "usage">): number | null {
+  return costUsd(getLlmProvider(c.provider).pricing(c.model), c.usage?.prompt_tokens, c.usage?.completion_tokens);
+}
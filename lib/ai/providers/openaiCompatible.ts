@@ -0,0 +1,91 @@
+// lib/ai/providers/openaiCompatible.ts
+// OpenAI and OpenAI-compatible endpoints (Ollama, vLLM) share one chat.completions client; they differ in base URL,
+// key, model mapping and pricing.
+
+import OpenAI from "openai";
+import { modelPricing, ZERO_PRICING } from "../pricing";
+import type { LlmCompletion, LlmMessage, LlmProvider, LlmProviderId, LlmRequest } from "../provider";
+
+type CompatibleConfig = {
+  id: LlmProviderId;
+  baseURL?: string;
+  apiKey: string;
+  model(requested: string): string;
+  // Most local servers only know system/user/assistant
+  developerRole: boolean;
+};
+
+function toMessages(messages: LlmMessage[], developerRole: boolean) {
+  return messages.map((m) => ({
+    role: m.role === "developer" && !developerRole ? ("system" as const) : m.role,
+    content: m.content,
+  }));
+}
+
+async function complete(cfg: CompatibleConfig, req: LlmRequest): Promise<LlmCompletion> {
+  const client = new OpenAI({ apiKey: cfg.apiKey, baseURL: cfg.baseURL });
+  const model = cfg.model(req.model);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), req.timeout_ms);
+  const t0 = Date.now();
+
+  try {
+    const completion = await client.chat.completions.create(
+      {
+        model,
+        messages: toMessages(req.messages, cfg.developerRole),
+        response_format: { type: "json_object" },
+        ...(req.temperature === null ? {} : { temperature: req.temperature }),
+        ...(req.max_tokens ? { max_tokens: req.max_tokens } : {}),
+      },
+      { signal: controller.signal }
+    );
+
+    const usage = completion.usage;
+    return {
+      text: (completion.choices?.[0]?.message?.content ?? "").trim(),
+      provider: cfg.id,
+      model: completion.model || model,
+      usage: usage
+        ? {
+            prompt_tokens: usage.prompt_tokens ?? null,
+            completion_tokens: usage.completion_tokens ?? null,
+            total_tokens: usage.total_tokens ?? null,
+          }
+        : null,
+      latency_ms: Date.now() - t0,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export const openAiProvider: LlmProvider = {
+  id: "openai",
+  unavailable: () => (process.env.OPENAI_API_KEY ? null : "missing_openai_key"),
+  completeJson: (req) =>
+    complete(
+      { id: "openai", apiKey: process.env.OPENAI_API_KEY || "", model: (m) => m, developerRole: true },
+      req
+    ),
+  pricing: (model) => modelPricing(model),
+};
+
+export const localProvider: LlmProvider = {
+  id: "local",
+  unavailable: () => (process.env.LLM_LOCAL_MODEL ? null : "missing_local_model"),
+  completeJson: (req) =>
+    complete(
+      {
+        id: "local",
+        baseURL: process.env.LLM_LOCAL_BASE_URL || "http://localhost:11434/v1",
+        // Ollama ignores the key; vLLM checks it when started with --api-key
+        apiKey: process.env.LLM_LOCAL_API_KEY || "local",
+        // Requested models are OpenAI names; the endpoint serves whatever LLM_LOCAL_MODEL names
+        model: (m) => process.env.LLM_LOCAL_MODEL || m,
+        developerRole: false,
+      },
+      req
+    ),
+  pricing: (model) => modelPricing(model) ?? ZERO_PRICING,
+};
@@ -0,0 +1,96 @@
+// lib/ai/providers/replay.ts
+// Recorded-fixture replay: each request is keyed by a hash of (model, temperature, messages, max_tokens) and answered
+// from LLM_FIXTURES_DIR/<key>.json, so the coaching stack runs offline, in tests and in demos with identical output.
+// With LLM_RECORD=openai|local a missing fixture is fetched from that provider and written; without it a miss throws.
+
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { ZERO_PRICING } from "../pricing";
+import type { LlmCompletion, LlmProvider, LlmRequest, LlmUsage } from "../provider";
+import { localProvider, openAiProvider } from "./openaiCompatible";
+
+export type LlmFixture = {
+  key: string;
+  recorded_at: string;
+  recorded_from: string; // provider that produced the completion
+  request: Omit<LlmRequest, "timeout_ms">;
+  completion: { text: string; model: string; usage: LlmUsage | null };
+};
+
+function fixturesDir(): string {
+  return path.resolve(process.cwd(), process.env.LLM_FIXTURES_DIR || "fixtures/llm");
+}
+
+function recorder(): LlmProvider | null {
+  const id = (process.env.LLM_RECORD || "").toLowerCase();
+  if (id === "openai") return openAiProvider;
+  if (id === "local") return localProvider;
+  return null;
+}
+
+// Key-sorted so the same request always hashes the same, whatever order its fields were built in
+function canonical(v: unknown): unknown {
+  if (Array.isArray(v)) return v.map(canonical);
+  if (!v || typeof v !== "object") return v;
+  const obj = v as Record<string, unknown>;
+  return Object.fromEntries(Object.keys(obj).sort().map((k) => [k, canonical(obj[k])]));
+}
+
+// Timeout is transport, not content, so it is not part of the key
+function requestContent(req: LlmRequest): LlmFixture["request"] {
+  return {
+    model: req.model,
+    temperature: req.temperature,
+    messages: req.messages,
+    ...(req.max_tokens ? { max_tokens: req.max_tokens } : {}),
+  };
+}
+
+export function fixtureKey(req: LlmRequest): string {
+  return crypto.createHash("sha256").update(JSON.stringify(canonical(requestContent(req)))).digest("hex").slice(0, 32);
+}
+
+async function readFixture(file: string): Promise<LlmFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as LlmFixture;
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+export const replayProvider: LlmProvider = {
+  id: "replay",
+  unavailable: () => {
+    const rec = recorder();
+    return rec ? rec.unavailable() : null;
+  },
+
+  async completeJson(req) {
+    const key = fixtureKey(req);
+    const file = path.join(fixturesDir(), `${key}.json`);
+
+    const hit = await readFixture(file);
+    if (hit) {
+      return { text: hit.completion.text, provider: "replay", model: hit.completion.model, usage: hit.completion.usage, latency_ms: 0 };
+    }
+
+    const rec = recorder();
+    if (!rec) throw new Error(`llm_fixture_missing: ${key} (set LLM_RECORD to record it)`);
+
+    const live: LlmCompletion = await rec.completeJson(req);
+    const fixture: LlmFixture = {
+      key,
+      recorded_at: new Date().toISOString(),
+      recorded_from: live.provider,
+      request: requestContent(req),
+      completion: { text: live.text, model: live.model, usage: live.usage },
+    };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+    return live;
+  },
+
+  pricing: () => ZERO_PRICING,
+};
@@ -0,0 +1,187 @@
+// lib/analytics/ballFlight.ts
+// Deterministic ball-flight model (no DB access): fills carry / total / apex / descent angle / flight time
+// for devices that only report launch data (ball speed, launch angle, spin).
+// - 2D point-mass flight in the vertical plane, RK4; drag + Magnus lift from the spin factor r*w/v
+// - Spin decays exponentially through the flight
+// - Roll from the landing angle (a steep landing checks up), calibrated to tour driver / 7-iron averages
+// Results are for standard conditions (sea level, 70F, no wind) unless other conditions are passed, so
+// estimates from different devices and days compare like for like.
+
+import { isNum } from "./numbers";
+
+export type LaunchConditions = {
+  ball_speed: number; // mph
+  launch_angle: number; // degrees
+  back_spin: number; // rpm
+  side_spin?: number | null; // rpm; only adds to the total spin that drives lift
+};
+
+export type AirConditions = {
+  altitude_ft: number;
+  temperature_f: number;
+  headwind_mph: number; // + = into the player, - = downwind
+};
+
+export const STANDARD_CONDITIONS: AirConditions = { altitude_ft: 0, temperature_f: 70, headwind_mph: 0 };
+
+export type FlightResult = {
+  carry: number; // yards
+  total: number; // yards
+  apex: number; // yards
+  descent_angle: number; // degrees below horizontal at landing
+  flight_time: number; // seconds
+};
+
+export type FlightField = keyof FlightResult;
+
+export const FLIGHT_FIELDS: readonly FlightField[] = ["carry", "total", "apex", "descent_angle", "flight_time"];
+
+export const BALL_FLIGHT_MODEL_VERSION = 1;
+
+const BALL_MASS_KG = 0.04593;
+const BALL_RADIUS_M = 0.04267 / 2;
+const BALL_AREA_M2 = Math.PI * BALL_RADIUS_M ** 2;
+const G = 9.80665;
+
+// Drag / lift vs spin factor S = r*w/v: Cd = 0.22 + 0.3 S, Cl = 0.7 S^0.6 (capped). Fitted to tour averages,
+// e.g. driver 167 mph / 10.9 deg / 2686 rpm carries ~266y (tour ~275y), 7-iron 120 mph / 16.3 deg / 7097 rpm
+// carries ~170y and lands at ~48 deg; apexes within 2y.
+const CD_BASE = 0.22;
+const CD_SPIN = 0.3;
+const CL_SCALE = 0.7;
+const CL_EXP = 0.6;
+const CL_MAX = 0.35;
+const SPIN_DECAY_S = 20; // time constant, seconds
+
+const DT = 0.01;
+const MAX_FLIGHT_S = 15;
+
+const MPH_TO_MS = 0.44704;
+const M_TO_YD = 1.0936133;
+
+// Share of carry added as roll, by landing angle
+const ROLL_FLAT_DEG = 58;
+const ROLL_PER_DEG = 0.0035;
+const ROLL_MAX = 0.14;
+
+// Launch data the model trusts; outside this the device most likely misread
+const MIN_BALL_SPEED = 20;
+const MAX_BALL_SPEED = 220;
+const MIN_LAUNCH = 0; // launched into the ground: nothing to fly
+const MAX_LAUNCH = 60;
+const MAX_SPIN = 14000;
+
+/** Air density (kg/m^3): ISA pressure at altitude over the ideal-gas law at the given temperature. */
+export function airDensity(conditions: AirConditions = STANDARD_CONDITIONS): number {
+  const altM = conditions.altitude_ft * 0.3048;
+  const pressure = 101325 * Math.pow(1 - 2.25577e-5 * altM, 5.25588);
+  const kelvin = ((conditions.temperature_f - 32) * 5) / 9 + 273.15;
+  return pressure / (287.05 * kelvin);
+}
+
+/** True when the launch data is complete and plausible enough to fly. */
+export function canSimulate(s: Partial<Record<keyof LaunchConditions, number | null | undefined>>): boolean {
+  return (
+    isNum(s.ball_speed) &&
+    s.ball_speed >= MIN_BALL_SPEED &&
+    s.ball_speed <= MAX_BALL_SPEED &&
+    isNum(s.launch_angle) &&
+    s.launch_angle >= MIN_LAUNCH &&
+    s.launch_angle <= MAX_LAUNCH &&
+    isNum(s.back_spin) &&
+    Math.abs(s.back_spin) <= MAX_SPIN
+  );
+}
+
+type State = [number, number, number, number]; // x, y, vx, vy (m, m/s)
+
+/** Fly one ball. Null when the launch data is missing or implausible (see canSimulate). */
+export function simulateFlight(launch: LaunchConditions, conditions: AirConditions = STANDARD_CONDITIONS): FlightResult | null {
+  if (!canSimulate(launch)) return null;
+
+  const rho = airDensity(conditions);
+  const wind = conditions.headwind_mph * MPH_TO_MS;
+  const k = (0.5 * rho * BALL_AREA_M2) / BALL_MASS_KG;
+  const spin0 = (Math.hypot(launch.back_spin, isNum(launch.side_spin) ? launch.side_spin : 0) * 2 * Math.PI) / 60;
+  const sign = launch.back_spin < 0 ? -1 : 1; // topspin pushes the ball down
+
+  const deriv = ([, , vx, vy]: State, t: number): State => {
+    const rx = vx + wind; // air-relative velocity
+    const v = Math.hypot(rx, vy);
+    if (v === 0) return [vx, vy, 0, -G];
+    const s = (BALL_RADIUS_M * spin0 * Math.exp(-t / SPIN_DECAY_S)) / v;
+    const cd = CD_BASE + CD_SPIN * s;
+    const cl = sign * Math.min(CL_MAX, CL_SCALE * Math.pow(s, CL_EXP));
+    return [vx, vy, -k * v * (cd * rx + cl * vy), k * v * (cl * rx - cd * vy) - G];
+  };
+
+  const v0 = launch.ball_speed * MPH_TO_MS;
+  const a0 = (launch.launch_angle * Math.PI) / 180;
+  let state: State = [0, 0, v0 * Math.cos(a0), v0 * Math.sin(a0)];
+  let t = 0;
+  let apex = 0;
+
+  while (t < MAX_FLIGHT_S) {
+    const k1 = deriv(state, t);
+    const k2 = deriv(add(state, k1, DT / 2), t + DT / 2);
+    const k3 = deriv(add(state, k2, DT / 2), t + DT / 2);
+    const k4 = deriv(add(state, k3, DT), t + DT);
+    const next = state.map((x, i) => x + (DT / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])) as State;
+
+    if (next[1] < 0 && t > 0) {
+      // Interpolate the landing point inside the last step
+      const f = state[1] / (state[1] - next[1]);
+      const land = state.map((x, i) => x + f * (next[i] - x)) as State;
+      const descent = (Math.atan2(-land[3], land[2]) * 180) / Math.PI;
+      const carry = land[0] * M_TO_YD;
+      const roll = Math.max(0, Math.min(ROLL_MAX, (ROLL_FLAT_DEG - descent) * ROLL_PER_DEG));
+      return {
+        carry,
+        total: carry * (1 + roll),
+        apex: apex * M_TO_YD,
+        descent_angle: descent,
+        flight_time: t + f * DT,
+      };
+    }
+
+    state = next;
+    apex = Math.max(apex, state[1]);
+    t += DT;
+  }
+  return null;
+}
+
+function add(s: State, d: State, h: number): State {
+  return [s[0] + h * d[0], s[1] + h * d[1], s[2] + h * d[2], s[3] + h * d[3]];
+}
+
+export type FlightEstimate = {
+  values: Partial<FlightResult>; // only the fields that were missing
+  estimated_fields: FlightField[];
+};
+
+/**
+ * Fill the flight fields a shot is missing from its launch data. Measured values are never replaced;
+ * nothing is estimated when the launch data can't be flown.
+ */
+export function estimateMissingFlight(
+  shot: Partial<Record<keyof LaunchConditions | FlightField, number | null | undefined>>
+): FlightEstimate {
+  const missing = FLIGHT_FIELDS.filter((f) => !isNum(shot[f]));
+  if (!missing.length || !canSimulate(shot)) return { values: {}, estimated_fields: [] };
+
+  const flight = simulateFlight({
+    ball_speed: shot.ball_speed as number,
+    launch_angle: shot.launch_angle as number,
+    back_spin: shot.back_spin as number,
+    side_spin: shot.side_spin,
+  });
+  if (!flight) return { values: {}, estimated_fields: [] };
+
+  // A measured carry keeps the modelled roll share rather than the modelled total
+  if (isNum(shot.carry) && shot.carry > 0 && flight.carry > 0) flight.total = shot.carry * (flight.total / flight.carry);
+
+  const values: Partial<FlightResult> = {};
+  for (const f of missing) values[f] = Math.round(flight[f] * 10) / 10;
+  return { values, estimated_fields: missing };
+}
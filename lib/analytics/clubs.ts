@@ -0,0 +1,47 @@
+// lib/analytics/clubs.ts
+// Club-slot parsing shared by ingest, analytics and coaching. A leaf (imports nothing), so thresholds, trends and
+// grounding get club keys without importing clubInference and the conditions/Supabase code behind it.
+
+const WOOD_CARRY: Record<number, number> = { 1: 230, 2: 220, 3: 210, 4: 203, 5: 195, 7: 185, 9: 178 };
+const HYBRID_CARRY: Record<number, number> = { 2: 195, 3: 185, 4: 178, 5: 170, 6: 160, 7: 150 };
+const IRON_CARRY: Record<number, number> = { 1: 200, 2: 192, 3: 185, 4: 175, 5: 165, 6: 155, 7: 145, 8: 135, 9: 125 };
+const WEDGE_CARRY: Record<string, number> = { PW: 115, AW: 100, GW: 100, SW: 85, LW: 70 };
+
+/**
+ * Canonical key + reference carry (yards) for a bag slot or device club name:
+ * "Driver", "3 Wood", "4H", "7-iron", "PW", "56°", Smart Bag keys ("I7", "W3", "H4")... Putters and unknown
+ * names -> null.
+ */
+export function parseClubSlot(raw: string): { key: string; refCarry: number } | null {
+  let s = raw.trim().toLowerCase().replace(/[-_]/g, " ").replace(/\s+/g, " ");
+  if (!s || /putt/.test(s)) return null;
+  s = s.replace(/^([whi])\s*(\d)$/, "$2$1");
+
+  if (/^(dr|drv|driver|1w|1 wood)$/.test(s)) return { key: "1w", refCarry: WOOD_CARRY[1] };
+
+  let m = s.match(/^(\d)\s*(w|wd|wood)$/);
+  if (m && WOOD_CARRY[+m[1]]) return { key: `${m[1]}w`, refCarry: WOOD_CARRY[+m[1]] };
+
+  m = s.match(/^(\d)\s*(h|hy|hyb|hybrid|r|rescue)$/);
+  if (m && HYBRID_CARRY[+m[1]]) return { key: `${m[1]}h`, refCarry: HYBRID_CARRY[+m[1]] };
+
+  m = s.match(/^(\d)\s*(i|ir|iron)$/);
+  if (m && IRON_CARRY[+m[1]]) return { key: `${m[1]}i`, refCarry: IRON_CARRY[+m[1]] };
+
+  m = s.match(/^(p|pw|pitching wedge|a|aw|approach wedge|g|gw|gap wedge|s|sw|sand wedge|l|lw|lob wedge)$/);
+  if (m) {
+    const w = `${m[1][0].toUpperCase()}W`;
+    return { key: w === "GW" ? "AW" : w, refCarry: WEDGE_CARRY[w] };
+  }
+
+  // Wedges by loft: 46° ~ PW ... 60° ~ LW
+  m = s.match(/^(\d{2})\s*(°|deg|degree)?\s*(w|wedge)?$/);
+  if (m && +m[1] >= 44 && +m[1] <= 64) return { key: `${m[1]}deg`, refCarry: Math.round(115 - (+m[1] - 46) * 3.2) };
+
+  return null;
+}
+
+/** Key clubs are grouped by across sessions and devices ("7 Iron", "7i", "I7" -> "7i"). */
+export function clubKey(club: string): string {
+  return parseClubSlot(club)?.key ?? club.trim().toLowerCase();
+}
@@ -0,0 +1,160 @@
+// lib/analytics/conditions.ts
+// Session playing conditions (sessions.conditions) and the carry adjustment to standard conditions:
+// sea level, 70F, premium ball. Sims and outdoor days recorded at altitude, in the cold or with range balls
+// carry differently for the same strike; standardized carry takes that out so sessions compare.
+// - Air: ratio of modelled carries (lib/analytics/ballFlight.ts) at the session's air vs standard air, flown
+//   from the shot's own launch data when it has it, else a reference 7-iron
+// - Ball: fixed carry share per ball type
+// Carries the ball-flight model estimated are already standard and are left alone.
+
+import { isNum, median } from "./numbers";
+import { simulateFlight, STANDARD_CONDITIONS, type AirConditions, type LaunchConditions } from "./ballFlight";
+
+export const BALL_TYPES = ["premium", "range", "limited_flight"] as const;
+export type BallType = (typeof BALL_TYPES)[number];
+
+// Carry relative to a premium ball
+const BALL_CARRY_SHARE: Record<BallType, number> = { premium: 1, range: 0.93, limited_flight: 0.78 };
+
+export type SessionConditions = {
+  altitude_ft: number | null; // null = sea level
+  temperature_f: number | null; // null = 70F
+  ball_type: BallType | null; // null = premium
+  source: "upload" | "edit";
+};
+
+// Reference strike for shots without launch data (tour 7-iron)
+const REFERENCE_LAUNCH: LaunchConditions = { ball_speed: 120, launch_angle: 16.3, back_spin: 7097 };
+
+const LIMITS = {
+  altitude_ft: { min: -1500, max: 15000 },
+  temperature_f: { min: -20, max: 130 },
+} as const;
+
+const CONDITION_KEYS = ["altitude_ft", "temperature_f", "ball_type"] as const;
+
+export type ConditionsParseResult =
+  | { ok: true; conditions: SessionConditions }
+  | { ok: false; error: string; extra?: Record<string, unknown> };
+
+/**
+ * Validate conditions from a request body: { altitude_ft?, temperature_f?, ball_type? }, each nullable.
+ * Errors: invalid_conditions, unknown_condition, invalid_condition_value.
+ */
+export function parseSessionConditions(raw: unknown, source: SessionConditions["source"]): ConditionsParseResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "invalid_conditions" };
+  const obj = raw as Record<string, unknown>;
+
+  const unknown = Object.keys(obj).filter((k) => !(CONDITION_KEYS as readonly string[]).includes(k));
+  if (unknown.length) return { ok: false, error: "unknown_condition", extra: { keys: unknown, expected: CONDITION_KEYS } };
+
+  const out: SessionConditions = { altitude_ft: null, temperature_f: null, ball_type: null, source };
+
+  for (const key of ["altitude_ft", "temperature_f"] as const) {
+    const v = obj[key];
+    if (v === undefined || v === null) continue;
+    const { min, max } = LIMITS[key];
+    if (!isNum(v) || v < min || v > max) {
+      return { ok: false, error: "invalid_condition_value", extra: { field: key, min, max } };
+    }
+    out[key] = v;
+  }
+
+  const ball = obj.ball_type;
+  if (ball !== undefined && ball !== null) {
+    if (typeof ball !== "string" || !(BALL_TYPES as readonly string[]).includes(ball)) {
+      return { ok: false, error: "invalid_condition_value", extra: { field: "ball_type", expected: BALL_TYPES } };
+    }
+    out.ball_type = ball as BallType;
+  }
+
+  return { ok: true, conditions: out };
+}
+
+/** Stored sessions.conditions -> typed, or null when unset / unreadable. */
+export function readSessionConditions(raw: unknown): SessionConditions | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const obj = raw as Record<string, unknown>;
+  const parsed = parseSessionConditions(
+    { altitude_ft: obj.altitude_ft, temperature_f: obj.temperature_f, ball_type: obj.ball_type },
+    obj.source === "edit" ? "edit" : "upload"
+  );
+  return parsed.ok ? parsed.conditions : null;
+}
+
+/** True when the conditions need no adjustment. */
+export function isStandardConditions(c: SessionConditions | null | undefined): boolean {
+  return (
+    !c ||
+    ((c.altitude_ft ?? 0) === 0 &&
+      (c.temperature_f ?? STANDARD_CONDITIONS.temperature_f) === STANDARD_CONDITIONS.temperature_f &&
+      (c.ball_type ?? "premium") === "premium")
+  );
+}
+
+function airOf(c: SessionConditions): AirConditions {
+  return {
+    altitude_ft: c.altitude_ft ?? STANDARD_CONDITIONS.altitude_ft,
+    temperature_f: c.temperature_f ?? STANDARD_CONDITIONS.temperature_f,
+    headwind_mph: STANDARD_CONDITIONS.headwind_mph,
+  };
+}
+
+/**
+ * Carry under `conditions` as a multiple of carry under standard conditions for the same strike
+ * (> 1 = the ball flew further than it would at sea level / 70F with a premium ball).
+ */
+export function carryFactor(conditions: SessionConditions | null | undefined, launch?: LaunchConditions | null): number {
+  if (!conditions || isStandardConditions(conditions)) return 1;
+  const ball = BALL_CARRY_SHARE[conditions.ball_type ?? "premium"];
+
+  const airRatio = (strike: LaunchConditions) => {
+    const at = simulateFlight(strike, airOf(conditions));
+    const std = simulateFlight(strike);
+    return at && std && std.carry > 0 ? at.carry / std.carry : null;
+  };
+  return (airRatio(launch ?? REFERENCE_LAUNCH) ?? airRatio(REFERENCE_LAUNCH) ?? 1) * ball;
+}
+
+export type StandardizableShot = {
+  carry: number | null;
+  total: number | null;
+  ball_speed?: number | null;
+  launch_angle?: number | null;
+  back_spin?: number | null;
+  side_spin?: number | null;
+  estimated_fields?: string[] | null;
+};
+
+export type StandardizedShots<T> = {
+  applied: boolean;
+  carry_factor: number | null; // median factor over shots with a carry; null when nothing was adjusted
+  shots: T[];
+};
+
+/** Carry + total of each shot converted to standard conditions. Same shots back when the conditions are standard. */
+export function standardizeShots<T extends StandardizableShot>(
+  shots: T[],
+  conditions: SessionConditions | null | undefined
+): StandardizedShots<T> {
+  if (!conditions || isStandardConditions(conditions)) return { applied: false, carry_factor: null, shots };
+
+  const reference = carryFactor(conditions);
+  const factors: number[] = [];
+
+  const out = shots.map((s) => {
+    if (!isNum(s.carry) && !isNum(s.total)) return s;
+    // Modelled carries were flown in standard air with a premium ball already
+    if (Array.isArray(s.estimated_fields) && s.estimated_fields.includes("carry")) return s;
+
+    const launch =
+      isNum(s.ball_speed) && isNum(s.launch_angle) && isNum(s.back_spin)
+        ? { ball_speed: s.ball_speed, launch_angle: s.launch_angle, back_spin: s.back_spin, side_spin: s.side_spin }
+        : null;
+    const f = launch ? carryFactor(conditions, launch) : reference;
+    if (isNum(s.carry)) factors.push(f);
+    return { ...s, carry: isNum(s.carry) ? s.carry / f : s.carry, total: isNum(s.total) ? s.total / f : s.total };
+  });
+
+  return { applied: true, carry_factor: median(factors), shots: out };
+}
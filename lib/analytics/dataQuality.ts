@@ -0,0 +1,194 @@
+// lib/analytics/dataQuality.ts
+// Data-quality analyzer for imported sessions (deterministic, no DB access).
+// Flags the rows a launch monitor most likely got wrong: misreads, 0-carry rows, repeated readings, duplicated
+// shot numbers, physically impossible speed / spin / smash / launch, carries the ball speed can't explain.
+// A mishit is not a data problem: short carries are never flagged as outliers, only implausibly long ones.
+// Session score = 100 x (1 - weighted share of flagged shots); coaching and plans skip "poor" sessions.
+
+import { isNum, median } from "./numbers";
+
+export const DATA_QUALITY_VERSION = 1;
+
+export const SHOT_QUALITY_FLAGS = [
+  "zero_carry",
+  "repeated_reading",
+  "duplicate_shot_number",
+  "impossible_speed",
+  "impossible_spin",
+  "impossible_smash",
+  "impossible_launch",
+  "carry_speed_mismatch",
+  "carry_outlier",
+] as const;
+
+export type ShotQualityFlag = (typeof SHOT_QUALITY_FLAGS)[number];
+
+// Share of a shot lost from the score; a shot counts its worst flag only
+const FLAG_WEIGHT: Record<ShotQualityFlag, number> = {
+  zero_carry: 1,
+  repeated_reading: 1,
+  duplicate_shot_number: 0.5, // numbering problem, the reading itself may be fine
+  impossible_speed: 1,
+  impossible_spin: 1,
+  impossible_smash: 1,
+  impossible_launch: 1,
+  carry_speed_mismatch: 1,
+  carry_outlier: 0.5,
+};
+
+export type QualityGrade = "good" | "fair" | "poor";
+
+export const QUALITY_GOOD_SCORE = 80;
+// Below this a session is skipped by coaching generation and plan recomputes
+export const LOW_QUALITY_SCORE = 60;
+
+const LIMITS = {
+  max_ball_speed: 220, // mph
+  max_club_speed: 160,
+  max_back_spin: 13000, // rpm
+  min_back_spin: -2000,
+  max_side_spin: 5000,
+  min_smash: 0.7,
+  max_smash: 1.58,
+  min_launch: -15, // degrees
+  max_launch: 75,
+  zero_carry: 1, // yards
+  max_carry_per_mph: 2.1, // tour driver ~1.65
+  min_carry_per_mph: 0.4, // with launch >= 5 deg; a real fat shot loses ball speed too
+};
+
+const MIN_OUTLIER_SHOTS = 8;
+const OUTLIER_Z = 4;
+
+export type QualityShot = {
+  shot_number?: number | null;
+  club?: string | null;
+  ball_speed?: number | null;
+  club_speed?: number | null;
+  carry?: number | null;
+  launch_angle?: number | null;
+  back_spin?: number | null;
+  side_spin?: number | null;
+  estimated_fields?: string[] | null;
+};
+
+export type SessionQualityV1 = {
+  version: 1;
+  score: number | null; // 0-100; null without shots
+  grade: QualityGrade | null;
+  shots: number;
+  flagged_shots: number;
+  flags: Partial<Record<ShotQualityFlag, number>>; // shots per flag
+  shot_flags: Array<{ index: number; shot_number: number | null; flags: ShotQualityFlag[] }>; // flagged shots only
+};
+
+function measuredCarry(s: QualityShot): number | null {
+  if (!isNum(s.carry)) return null;
+  return Array.isArray(s.estimated_fields) && s.estimated_fields.includes("carry") ? null : s.carry;
+}
+
+function rowFlags(s: QualityShot): ShotQualityFlag[] {
+  const flags: ShotQualityFlag[] = [];
+  const carry = measuredCarry(s);
+
+  if (carry !== null && carry <= LIMITS.zero_carry) flags.push("zero_carry");
+  if ((isNum(s.ball_speed) && (s.ball_speed < 0 || s.ball_speed > LIMITS.max_ball_speed)) ||
+      (isNum(s.club_speed) && (s.club_speed < 0 || s.club_speed > LIMITS.max_club_speed))) {
+    flags.push("impossible_speed");
+  }
+  if ((isNum(s.back_spin) && (s.back_spin > LIMITS.max_back_spin || s.back_spin < LIMITS.min_back_spin)) ||
+      (isNum(s.side_spin) && Math.abs(s.side_spin) > LIMITS.max_side_spin)) {
+    flags.push("impossible_spin");
+  }
+  if (isNum(s.ball_speed) && isNum(s.club_speed) && s.club_speed >= 40) {
+    const smash = s.ball_speed / s.club_speed;
+    if (smash < LIMITS.min_smash || smash > LIMITS.max_smash) flags.push("impossible_smash");
+  }
+  if (isNum(s.launch_angle) && (s.launch_angle < LIMITS.min_launch || s.launch_angle > LIMITS.max_launch)) {
+    flags.push("impossible_launch");
+  }
+  if (carry !== null && carry > LIMITS.zero_carry && isNum(s.ball_speed) && s.ball_speed >= 40) {
+    const perMph = carry / s.ball_speed;
+    const lowLaunch = !isNum(s.launch_angle) || s.launch_angle < 5; // thin / topped shots do run out short
+    if (perMph > LIMITS.max_carry_per_mph || (!lowLaunch && perMph < LIMITS.min_carry_per_mph)) {
+      flags.push("carry_speed_mismatch");
+    }
+  }
+  return flags;
+}
+
+// Same ball speed, launch, spin and carry as the shot before: the device re-sent its last reading
+function sameReading(a: QualityShot, b: QualityShot): boolean {
+  const keys = ["ball_speed", "launch_angle", "back_spin", "carry"] as const;
+  const both = keys.filter((k) => isNum(a[k]) && isNum(b[k]));
+  return both.length >= 3 && both.every((k) => a[k] === b[k]);
+}
+
+/** Per-shot flags, index-aligned with `shots` (empty array = clean). */
+export function shotQualityFlags(shots: QualityShot[]): ShotQualityFlag[][] {
+  const out = shots.map(rowFlags);
+
+  const seen = new Set<number>();
+  shots.forEach((s, i) => {
+    if (i > 0 && sameReading(shots[i - 1], s)) out[i].push("repeated_reading");
+    if (isNum(s.shot_number)) {
+      if (seen.has(s.shot_number)) out[i].push("duplicate_shot_number");
+      seen.add(s.shot_number);
+    }
+  });
+
+  // Long outliers within a club (robust z on measured carry); clean rows only, so a misread doesn't set the scale
+  const groups = new Map<string, number[]>();
+  shots.forEach((s, i) => {
+    if (out[i].length || measuredCarry(s) === null) return;
+    const key = typeof s.club === "string" ? s.club.trim().toLowerCase() : "";
+    groups.set(key, [...(groups.get(key) ?? []), i]);
+  });
+  for (const idx of groups.values()) {
+    if (idx.length < MIN_OUTLIER_SHOTS) continue;
+    const carries = idx.map((i) => measuredCarry(shots[i]) as number);
+    const med = median(carries) as number;
+    const mad = median(carries.map((c) => Math.abs(c - med))) as number;
+    const scale = Math.max(1.4826 * mad, 2); // tight wedge bands shouldn't make a 4y-long shot an outlier
+    idx.forEach((i, k) => {
+      if ((carries[k] - med) / scale > OUTLIER_Z) out[i].push("carry_outlier");
+    });
+  }
+
+  return out;
+}
+
+export function qualityGrade(score: number): QualityGrade {
+  if (score >= QUALITY_GOOD_SCORE) return "good";
+  return score >= LOW_QUALITY_SCORE ? "fair" : "poor";
+}
+
+/** True when a stored score (sessions.quality_score) says the session should be skipped. Unscored = usable. */
+export function isLowQuality(score: unknown): boolean {
+  return isNum(score) && score < LOW_QUALITY_SCORE;
+}
+
+export function analyzeSessionQuality(shots: QualityShot[]): SessionQualityV1 {
+  const perShot = shotQualityFlags(shots);
+  const flags: SessionQualityV1["flags"] = {};
+  const shotFlags: SessionQualityV1["shot_flags"] = [];
+  let lost = 0;
+
+  perShot.forEach((f, i) => {
+    if (!f.length) return;
+    for (const flag of f) flags[flag] = (flags[flag] ?? 0) + 1;
+    lost += Math.max(...f.map((flag) => FLAG_WEIGHT[flag]));
+    shotFlags.push({ index: i, shot_number: isNum(shots[i].shot_number) ? shots[i].shot_number : null, flags: f });
+  });
+
+  const score = shots.length ? Math.round(100 * (1 - lost / shots.length) * 10) / 10 : null;
+  return {
+    version: DATA_QUALITY_VERSION,
+    score,
+    grade: score === null ? null : qualityGrade(score),
+    shots: shots.length,
+    flagged_shots: shotFlags.length,
+    flags,
+    shot_flags: shotFlags,
+  };
+}
@@ -0,0 +1,253 @@
+// lib/analytics/geometry.ts
+// Shot-pattern geometry on the side (x, + right) / carry (y) plane (deterministic, no DB access).
+// - Covariance confidence ellipse with rotation, raw and robust (mishits excluded via classifyShotV1)
+// - Convex hull area, left/right miss bias
+// - Per-shot shape (start direction x curve) from side + side spin, for a right-handed player
+
+import { isNum, median } from "./numbers";
+import { classifyShotV1, type ShotRowForSignals } from "./signalsV1";
+import { clubCategory, DEFAULT_THRESHOLD_PROFILE, resolveThresholds, type ThresholdProfile } from "./thresholds";
+
+export type GeometryShot = ShotRowForSignals & { side_spin?: number | null };
+
+export type DispersionEllipse = {
+  n: number;
+  confidence: number; // share of a bivariate-normal pattern inside the ellipse
+  center: { side: number; carry: number };
+  semi_major: number; // yards
+  semi_minor: number;
+  // Major axis angle in degrees, counter-clockwise from the +side axis (90 = along the carry axis)
+  angle_deg: number;
+  area: number; // sq yards
+  side_sd: number;
+  carry_sd: number;
+  correlation: number; // carry/side; != 0 means misses are diagonal (e.g. long-right / short-left)
+};
+
+export type StartDirection = "pull" | "straight" | "push";
+export type CurveShape = "hook" | "draw" | "straight" | "fade" | "slice";
+
+export type ShotShape = {
+  start: StartDirection;
+  curve: CurveShape;
+  label: string; // "straight", "draw", "push", "pull-fade", ...
+};
+
+export type PatternGeometry = {
+  n: number;
+  ellipse: DispersionEllipse | null; // all shots with carry + side
+  robust_ellipse: DispersionEllipse | null; // mishits excluded
+  hull_area: number | null;
+  bias: {
+    side_mean: number | null;
+    side_median: number | null;
+    left_share: number;
+    right_share: number;
+    miss: "left" | "right" | "neutral";
+  };
+  shapes: {
+    n: number; // shots with side spin
+    counts: Record<string, number>; // by label
+    dominant: string | null;
+  };
+};
+
+export type DispersionGeometryV1 = {
+  version: 1;
+  confidence: number;
+  session: PatternGeometry;
+  clubs: Array<PatternGeometry & { club: string }>; // longest median carry first
+};
+
+export const ELLIPSE_CONFIDENCE = 0.95;
+
+const MIN_ELLIPSE_SHOTS = 3;
+
+// Lateral curve ~ side spin x carry: 1000 rpm over 150y carry bends the ball ~18y.
+const CURVE_YARDS_PER_RPM_YARD = 0.00012;
+
+type Pt = { x: number; y: number };
+
+function points(shots: GeometryShot[]): Pt[] {
+  return shots.filter((s) => isNum(s.side) && isNum(s.carry)).map((s) => ({ x: s.side as number, y: s.carry as number }));
+}
+
+/** Covariance ellipse at `confidence` (chi-square with 2 dof: r^2 = -2 ln(1 - p)). */
+export function covarianceEllipse(pts: Pt[], confidence = ELLIPSE_CONFIDENCE): DispersionEllipse | null {
+  const n = pts.length;
+  if (n < MIN_ELLIPSE_SHOTS) return null;
+
+  const mx = pts.reduce((a, p) => a + p.x, 0) / n;
+  const my = pts.reduce((a, p) => a + p.y, 0) / n;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (const p of pts) {
+    sxx += (p.x - mx) ** 2;
+    syy += (p.y - my) ** 2;
+    sxy += (p.x - mx) * (p.y - my);
+  }
+  sxx /= n - 1;
+  syy /= n - 1;
+  sxy /= n - 1;
+
+  // Eigenvalues of the 2x2 covariance matrix
+  const tr = sxx + syy;
+  const disc = Math.sqrt(Math.max(0, ((sxx - syy) / 2) ** 2 + sxy ** 2));
+  const l1 = tr / 2 + disc;
+  const l2 = Math.max(0, tr / 2 - disc);
+  const angle = sxy === 0 && sxx >= syy ? 0 : Math.atan2(l1 - sxx, sxy);
+
+  const r = Math.sqrt(-2 * Math.log(1 - confidence));
+  const a = r * Math.sqrt(l1);
+  const b = r * Math.sqrt(l2);
+
+  return {
+    n,
+    confidence,
+    center: { side: mx, carry: my },
+    semi_major: a,
+    semi_minor: b,
+    angle_deg: (((angle * 180) / Math.PI) % 180 + 180) % 180,
+    area: Math.PI * a * b,
+    side_sd: Math.sqrt(sxx),
+    carry_sd: Math.sqrt(syy),
+    correlation: sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0,
+  };
+}
+
+/** Area of the convex hull (Andrew's monotone chain + shoelace). */
+export function convexHullArea(pts: Pt[]): number | null {
+  if (pts.length < 3) return null;
+  const sorted = pts.slice().sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Pt, a: Pt, b: Pt) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Pt[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Pt[] = [];
+  for (const p of sorted.slice().reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  const hull = lower.slice(0, -1).concat(upper.slice(0, -1));
+  if (hull.length < 3) return 0;
+
+  let twice = 0;
+  for (let i = 0; i < hull.length; i++) {
+    const p = hull[i];
+    const q = hull[(i + 1) % hull.length];
+    twice += p.x * q.y - q.x * p.y;
+  }
+  return Math.abs(twice) / 2;
+}
+
+/**
+ * Shape of one shot. Curve is estimated from side spin (+ = curves right) and carry; the start line is what
+ * is left of the final side once the curve is removed. Null without carry, side and side spin.
+ */
+export function classifyShotShape(s: GeometryShot): ShotShape | null {
+  if (!isNum(s.carry) || s.carry <= 0 || !isNum(s.side) || !isNum(s.side_spin)) return null;
+
+  const curve = s.side_spin * s.carry * CURVE_YARDS_PER_RPM_YARD;
+  const start = s.side - curve;
+  const tol = Math.max(3, 0.03 * s.carry);
+
+  const startDir: StartDirection = start < -tol ? "pull" : start > tol ? "push" : "straight";
+  let curveShape: CurveShape = "straight";
+  if (curve < -tol) curveShape = curve < -0.12 * s.carry ? "hook" : "draw";
+  if (curve > tol) curveShape = curve > 0.12 * s.carry ? "slice" : "fade";
+
+  const label =
+    startDir === "straight" ? curveShape : curveShape === "straight" ? startDir : `${startDir}-${curveShape}`;
+  return { start: startDir, curve: curveShape, label };
+}
+
+function pattern(shots: GeometryShot[], eligible: GeometryShot[]): PatternGeometry {
+  const all = points(shots);
+  const sides = all.map((p) => p.x);
+  const left = sides.filter((x) => x < 0).length;
+  const right = sides.filter((x) => x > 0).length;
+  const sideMedian = median(sides);
+  const leftShare = sides.length ? left / sides.length : 0;
+  const rightShare = sides.length ? right / sides.length : 0;
+
+  // A side only "wins" with a clear majority and a median miss of at least 2y
+  let miss: PatternGeometry["bias"]["miss"] = "neutral";
+  if (sideMedian !== null && Math.abs(leftShare - rightShare) >= 0.2 && Math.abs(sideMedian) >= 2) {
+    miss = sideMedian < 0 ? "left" : "right";
+  }
+
+  const counts: Record<string, number> = {};
+  let shaped = 0;
+  for (const s of shots) {
+    const shape = classifyShotShape(s);
+    if (!shape) continue;
+    shaped += 1;
+    counts[shape.label] = (counts[shape.label] ?? 0) + 1;
+  }
+  const dominant = Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0] ?? null;
+
+  return {
+    n: all.length,
+    ellipse: covarianceEllipse(all),
+    robust_ellipse: covarianceEllipse(points(eligible)),
+    hull_area: convexHullArea(all),
+    bias: {
+      side_mean: sides.length ? sides.reduce((a, b) => a + b, 0) / sides.length : null,
+      side_median: sideMedian,
+      left_share: leftShare,
+      right_share: rightShare,
+      miss,
+    },
+    shapes: { n: shaped, counts, dominant },
+  };
+}
+
+function nonMishits(shots: GeometryShot[], profile: ThresholdProfile, club: string | null): GeometryShot[] {
+  const t = resolveThresholds(profile, clubCategory(club));
+  const med = median(shots.map((s) => s.carry).filter((c): c is number => isNum(c) && c > 0));
+  return shots.filter((s) => classifyShotV1(s, med, t).outcome !== "mishit");
+}
+
+/** Session + per-club geometry; clubs grouped like signals V1.2 (trimmed, case-insensitive). */
+export function computeDispersionGeometry(
+  shots: GeometryShot[],
+  profile: ThresholdProfile = DEFAULT_THRESHOLD_PROFILE
+): DispersionGeometryV1 {
+  const groups = new Map<string, { label: string; shots: GeometryShot[] }>();
+  const untagged: GeometryShot[] = [];
+  for (const s of shots) {
+    const label = typeof s.club === "string" ? s.club.trim() : "";
+    if (!label) {
+      untagged.push(s);
+      continue;
+    }
+    const g = groups.get(label.toLowerCase()) ?? { label, shots: [] };
+    g.shots.push(s);
+    groups.set(label.toLowerCase(), g);
+  }
+
+  // Session-level robust pattern: mishits judged within each club, so a good wedge isn't a "short driver"
+  const eligible = [
+    ...nonMishits(untagged, profile, null),
+    ...Array.from(groups.values()).flatMap((g) => nonMishits(g.shots, profile, g.label)),
+  ];
+
+  const clubs = Array.from(groups.values())
+    .map((g) => ({
+      club: g.label,
+      med: median(g.shots.map((s) => s.carry).filter((c): c is number => isNum(c) && c > 0)) ?? -1,
+      geometry: pattern(g.shots, nonMishits(g.shots, profile, g.label)),
+    }))
+    .sort((a, b) => b.med - a.med || a.club.localeCompare(b.club));
+
+  return {
+    version: 1,
+    confidence: ELLIPSE_CONFIDENCE,
+    session: pattern(shots, eligible),
+    clubs: clubs.map((c) => ({ club: c.club, ...c.geometry })),
+  };
+}
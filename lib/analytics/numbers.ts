@@ -0,0 +1,38 @@
+// lib/analytics/numbers.ts
+// Shared numeric helpers. A leaf (imports nothing) like clubs.ts, so any analytics, ingest or coaching module
+// can use them without pulling in another module's dependencies.
+
+export function isNum(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+/** Median of the finite values; null when there are none. */
+export function median(nums: number[]): number | null {
+  const arr = nums.filter(isNum).sort((a, b) => a - b);
+  const n = arr.length;
+  if (!n) return null;
+  const mid = Math.floor(n / 2);
+  return n % 2 === 0 ? (arr[mid - 1] + arr[mid]) / 2 : arr[mid];
+}
+
+/** Mean of the finite values; null when there are none. */
+export function mean(nums: number[]): number | null {
+  const arr = nums.filter(isNum);
+  return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : null;
+}
+
+/** Population standard deviation of the finite values; null below two. */
+export function sd(nums: number[]): number | null {
+  const arr = nums.filter(isNum);
+  if (arr.length < 2) return null;
+  const m = arr.reduce((a, b) => a + b, 0) / arr.length;
+  return Math.sqrt(arr.reduce((a, b) => a + (b - m) ** 2, 0) / arr.length);
+}
+
+/** Nearest-rank percentile (p in 0-100) of the finite values; null when there are none. */
+export function percentile(nums: number[], p: number): number | null {
+  const arr = nums.filter(isNum).sort((a, b) => a - b);
+  if (!arr.length) return null;
+  const idx = Math.min(arr.length - 1, Math.max(0, Math.ceil((p / 100) * arr.length) - 1));
+  return arr[idx];
+}
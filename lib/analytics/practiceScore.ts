@@ -0,0 +1,208 @@
+// lib/analytics/practiceScore.ts
+// Strokes-gained-style practice score (deterministic, no DB access).
+// Each shot is placed on a notional hole and valued with an expected-strokes-to-hole-out model:
+//   sg = E(start) - E(end) - 1
+// Driver shots play a fixed par 4 from the tee; every other club plays an approach to a pin at that club's
+// reference carry for the player's tier (clubInference reference table, converted to the session's conditions),
+// so a club that flies short of its reference loses strokes. Clubs without a reference (untagged, unknown
+// names) fall back to a pin at their own median carry. The end lie comes from classifyShotV1 (fairway /
+// rough / recovery) or the green radius.
+// Only carry + side are used (roll is modelled per club category, not read from the device's `total`), so
+// scores from different launch monitors are comparable.
+
+import { parseClubSlot } from "./clubs";
+import { median } from "./numbers";
+import { classifyShotV1, type ShotOutcomeV1, type ShotRowForSignals } from "./signalsV1";
+import {
+  clubCategory,
+  DEFAULT_THRESHOLD_PROFILE,
+  resolveThresholds,
+  type ClubCategory,
+  type ThresholdProfile,
+} from "./thresholds";
+
+export type Lie = "tee" | "fairway" | "rough" | "recovery" | "green";
+
+// Expected strokes to hole out for a scratch player, by lie and distance (yards; green in yards too).
+// Rounded from published tour strokes-gained baselines with a small scratch-amateur allowance.
+const BASELINE_SCRATCH: Record<Lie, Array<[number, number]>> = {
+  green: [[0, 1.0], [1, 1.04], [2, 1.3], [3, 1.5], [5, 1.7], [7, 1.84], [10, 1.95], [15, 2.05], [20, 2.15], [30, 2.3]],
+  fairway: [[10, 2.22], [20, 2.42], [40, 2.62], [60, 2.72], [80, 2.78], [100, 2.83], [120, 2.88], [140, 2.95], [160, 3.02], [180, 3.12], [200, 3.23], [220, 3.36], [240, 3.49], [260, 3.62], [300, 3.82]],
+  rough: [[10, 2.4], [20, 2.61], [40, 2.81], [60, 2.94], [80, 3.0], [100, 3.06], [120, 3.12], [140, 3.19], [160, 3.27], [180, 3.35], [200, 3.46], [220, 3.57], [240, 3.68], [300, 3.95]],
+  recovery: [[20, 3.0], [60, 3.4], [100, 3.82], [150, 3.84], [200, 3.91], [250, 4.05], [300, 4.2]],
+  tee: [[100, 2.95], [150, 3.02], [200, 3.16], [250, 3.47], [300, 3.73], [350, 3.88], [400, 4.02], [450, 4.2], [500, 4.43], [550, 4.56]],
+};
+
+// Extra expected strokes as a share of the scratch baseline (about +1 stroke per handicap point over a round).
+const TIER_FACTOR: Record<ThresholdProfile["tier"], number> = {
+  scratch: 0,
+  advanced: 0.04,
+  intermediate: 0.09,
+  beginner: 0.17,
+  unknown: 0.09,
+};
+
+// Reference carry (clubInference table, a mid-handicap bag) scaled per tier
+const TIER_CARRY: Record<ThresholdProfile["tier"], number> = {
+  scratch: 1.08,
+  advanced: 1.04,
+  intermediate: 1,
+  beginner: 0.9,
+  unknown: 1,
+};
+
+// Modelled roll as a share of carry
+const ROLL_RATIO: Record<ClubCategory, number> = { driver: 0.08, wood: 0.05, iron: 0.03, wedge: 0.01 };
+
+const TEE_HOLE_YARDS = 420;
+const GREEN_RADIUS_YARDS = 12;
+
+// 0-100 score from average strokes gained per shot vs scratch: scratch = 75, each 0.1 stroke = 10 points.
+// Fixed reference (not the player's tier), so the number keeps moving as the player improves.
+const SCORE_AT_SCRATCH = 75;
+const SCORE_PER_STROKE = 100;
+
+export type ShotScore = {
+  index: number; // position in the input array
+  club: string | null;
+  mode: "tee" | "approach";
+  outcome: ShotOutcomeV1;
+  start: { lie: Lie; yards: number };
+  end: { lie: Lie; yards: number };
+  sg_vs_tier: number;
+  sg_vs_scratch: number;
+};
+
+export type ScoreRollup = {
+  shots: number;
+  sg_vs_tier: number; // per shot
+  sg_vs_scratch: number; // per shot
+  sg_total_vs_tier: number;
+  score: number; // 0-100
+};
+
+export type PracticeScoreV1 = {
+  version: 1;
+  tier: ThresholdProfile["tier"];
+  session: ScoreRollup | null; // null when no shot had a carry
+  clubs: Array<ScoreRollup & { club: string }>; // longest club first
+  shots: ShotScore[];
+};
+
+function interpolate(table: Array<[number, number]>, yards: number): number {
+  if (yards <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [x1, y1] = table[i];
+    if (yards <= x1) {
+      const [x0, y0] = table[i - 1];
+      return y0 + ((y1 - y0) * (yards - x0)) / (x1 - x0);
+    }
+  }
+  // Beyond the table: extend the last segment's slope
+  const [xa, ya] = table[table.length - 2];
+  const [xb, yb] = table[table.length - 1];
+  return yb + ((yb - ya) * (yards - xb)) / (xb - xa);
+}
+
+/** Expected strokes to hole out from a lie + distance for a skill tier. */
+export function expectedStrokes(lie: Lie, yards: number, tier: ThresholdProfile["tier"] = "scratch"): number {
+  return interpolate(BASELINE_SCRATCH[lie], Math.max(0, yards)) * (1 + TIER_FACTOR[tier]);
+}
+
+function lieFor(outcome: ShotOutcomeV1): Lie {
+  if (outcome === "fairway_finder") return "fairway";
+  if (outcome === "extreme_offline") return "recovery";
+  return "rough";
+}
+
+function rollup(scores: ShotScore[]): ScoreRollup | null {
+  if (!scores.length) return null;
+  const tier = scores.reduce((a, s) => a + s.sg_vs_tier, 0);
+  const scratch = scores.reduce((a, s) => a + s.sg_vs_scratch, 0) / scores.length;
+  return {
+    shots: scores.length,
+    sg_vs_tier: tier / scores.length,
+    sg_vs_scratch: scratch,
+    sg_total_vs_tier: tier,
+    score: Math.max(0, Math.min(100, SCORE_AT_SCRATCH + SCORE_PER_STROKE * scratch)),
+  };
+}
+
+/**
+ * Score a session's shots against the player's tier baseline (profile.tier) and scratch.
+ * Shots without a carry are skipped; clubs are grouped like signals V1.2 (trimmed, case-insensitive).
+ * carryFactor converts standard-condition carries to the session's (conditions.carryFactor; 1 = standard).
+ */
+export function computePracticeScore(
+  shots: ShotRowForSignals[],
+  profile: ThresholdProfile = DEFAULT_THRESHOLD_PROFILE,
+  carryFactor = 1
+): PracticeScoreV1 {
+  const groups = new Map<string, { club: string | null; idx: number[] }>();
+  shots.forEach((s, i) => {
+    const label = typeof s.club === "string" ? s.club.trim() : "";
+    const key = label.toLowerCase();
+    const g = groups.get(key) ?? { club: label || null, idx: [] };
+    g.idx.push(i);
+    groups.set(key, g);
+  });
+
+  const scored: ShotScore[] = [];
+  const byClub: Array<{ club: string; medCarry: number; scores: ShotScore[] }> = [];
+
+  for (const g of groups.values()) {
+    const category = clubCategory(g.club);
+    const thresholds = resolveThresholds(profile, category);
+    const carries = g.idx.map((i) => shots[i].carry).filter((c): c is number => typeof c === "number" && c > 0);
+    const medCarry = median(carries);
+    if (medCarry === null) continue;
+
+    const roll = ROLL_RATIO[category ?? "iron"];
+    const mode: ShotScore["mode"] = category === "driver" ? "tee" : "approach";
+    const refCarry = g.club ? parseClubSlot(g.club)?.refCarry : undefined;
+    const pinCarry = refCarry ? refCarry * TIER_CARRY[profile.tier] * carryFactor : medCarry;
+    const target = mode === "tee" ? TEE_HOLE_YARDS : pinCarry * (1 + roll);
+    const startLie: Lie = mode === "tee" ? "tee" : "fairway";
+    const groupScores: ShotScore[] = [];
+
+    for (const i of g.idx) {
+      const s = shots[i];
+      if (typeof s.carry !== "number" || !Number.isFinite(s.carry) || s.carry <= 0) continue;
+
+      const outcome = classifyShotV1(s, medCarry, thresholds).outcome;
+      const side = typeof s.side === "number" && Number.isFinite(s.side) ? s.side : 0;
+      const along = s.carry * (1 + roll);
+      const remaining = Math.hypot(target - along, side);
+      const endLie: Lie = mode === "approach" && remaining <= GREEN_RADIUS_YARDS ? "green" : lieFor(outcome);
+
+      const sgFor = (tier: ThresholdProfile["tier"]) =>
+        expectedStrokes(startLie, target, tier) - expectedStrokes(endLie, remaining, tier) - 1;
+
+      const score: ShotScore = {
+        index: i,
+        club: g.club,
+        mode,
+        outcome,
+        start: { lie: startLie, yards: target },
+        end: { lie: endLie, yards: remaining },
+        sg_vs_tier: sgFor(profile.tier),
+        sg_vs_scratch: sgFor("scratch"),
+      };
+      scored.push(score);
+      groupScores.push(score);
+    }
+
+    if (g.club && groupScores.length) byClub.push({ club: g.club, medCarry, scores: groupScores });
+  }
+
+  scored.sort((a, b) => a.index - b.index);
+  byClub.sort((a, b) => b.medCarry - a.medCarry || a.club.localeCompare(b.club));
+
+  return {
+    version: 1,
+    tier: profile.tier,
+    session: rollup(scored),
+    clubs: byClub.map((c) => ({ club: c.club, ...(rollup(c.scores) as ScoreRollup) })),
+    shots: scored,
+  };
+}
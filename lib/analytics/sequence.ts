@@ -0,0 +1,313 @@
+// lib/analytics/sequence.ts
+// Shot-sequence analytics (deterministic, no DB access). Every other signal treats a session as an unordered
+// bag; this one reads the order (shot_number, then created_at) to answer "do they fade late?".
+// - Warm-up: shots at the start before ball speed settles
+// - Fatigue: ball speed / carry drift over the rest of the session, confirmed by the last quarter
+// - Streaks: longest hot (fairway finders) and cold (mishits / extreme offline) runs, plus a runs test
+// - First ball: the first shot after picking up a club, vs that club's other shots (on-course readiness proxy)
+// Speed and carry are read relative to each club's median, so switching clubs doesn't look like a trend.
+// Mishits are left out of the drift series: a thin strike is not a tired player.
+
+import { isNum, mean, median } from "./numbers";
+import { classifyShotV1, type ShotOutcomeV1, type ShotRowForSignals } from "./signalsV1";
+import { clubCategory, DEFAULT_THRESHOLD_PROFILE, resolveThresholds, type ThresholdProfile } from "./thresholds";
+
+export type SequenceShot = ShotRowForSignals & {
+  shot_number?: number | null;
+  created_at?: string | null;
+};
+
+export type Streak = {
+  length: number;
+  from_shot: number | null; // shot_number
+  to_shot: number | null;
+};
+
+export type FirstBallStats = {
+  blocks: number; // times the club was picked up
+  first_ball_in_play_rate: number; // 0-1; in play = not a mishit, not extreme offline
+  in_play_rate: number | null; // the club's other shots; null when every shot was a first ball
+  first_ball_carry_pct: number | null; // mean first-ball carry vs the club's median carry, % (+ = longer)
+};
+
+export type SequenceV1 = {
+  version: 1;
+  shots: number;
+  // null when the session is too short to separate a trend from noise
+  warm_up: {
+    detected: boolean;
+    shots: number; // shots before ball speed settled
+    speed_deficit_pct: number | null; // warm-up ball speed below the settled level, %
+  } | null;
+  fatigue: {
+    detected: boolean;
+    metric: "ball_speed" | "carry" | null; // what faded; ball speed wins when both did
+    ball_speed_drift_pct: number | null; // fitted change from first to last shot after warm-up, %
+    carry_drift_pct: number | null;
+    late_ball_speed_pct: number | null; // last quarter vs the rest after warm-up, %
+    late_carry_pct: number | null;
+    late_in_play_rate: number | null; // last quarter
+    in_play_rate: number | null; // the rest after warm-up
+  } | null;
+  streaks: {
+    hot: Streak | null;
+    cold: Streak | null;
+    // Runs test on fairway finders: fewer, longer runs than chance = results come in streaks. null = too few shots
+    clustered: boolean | null;
+    runs_z: number | null;
+  };
+  first_ball: (Omit<FirstBallStats, "first_ball_carry_pct"> & {
+    clubs: Array<FirstBallStats & { club: string }>; // most picked-up first
+  }) | null; // null without club tags
+};
+
+const MIN_SEQUENCE_SHOTS = 15;
+const MIN_STREAK = 3;
+const MIN_RUNS_TEST_SHOTS = 10;
+
+// Warm-up: ends at the first shot that, with the 3-shot window it starts, is within 1.5% of the settled ball
+// speed (the third after the search range, so a late fade doesn't lower the bar); looked for in the first third
+const WARMUP_WINDOW = 3;
+const WARMUP_TOLERANCE = 0.015;
+const WARMUP_MAX_SHOTS = 10;
+const MIN_WARMUP_SHOTS = 2;
+
+// Fatigue: fitted drift at or below these, with the last quarter also down
+const FATIGUE_SPEED_DRIFT_PCT = -2;
+const FATIGUE_CARRY_DRIFT_PCT = -3;
+
+function round1(n: number | null): number | null {
+  return n === null ? null : Math.round(n * 10) / 10;
+}
+
+function clubKey(s: SequenceShot): string {
+  return typeof s.club === "string" ? s.club.trim().toLowerCase() : "";
+}
+
+/** Shots in the order they were hit: shot_number, then created_at, then input order. */
+export function orderShots<T extends SequenceShot>(shots: T[]): T[] {
+  return shots
+    .map((s, i) => ({ s, i }))
+    .sort((a, b) => {
+      const na = isNum(a.s.shot_number) ? a.s.shot_number : Infinity;
+      const nb = isNum(b.s.shot_number) ? b.s.shot_number : Infinity;
+      if (na !== nb) return na < nb ? -1 : 1;
+      const ta = a.s.created_at ?? "";
+      const tb = b.s.created_at ?? "";
+      if (ta !== tb) return ta < tb ? -1 : 1;
+      return a.i - b.i;
+    })
+    .map((x) => x.s);
+}
+
+// Least-squares slope of y over x
+function slope(pts: Array<[number, number]>): number | null {
+  if (pts.length < 3) return null;
+  const mx = pts.reduce((a, p) => a + p[0], 0) / pts.length;
+  const my = pts.reduce((a, p) => a + p[1], 0) / pts.length;
+  let sxx = 0;
+  let sxy = 0;
+  for (const [x, y] of pts) {
+    sxx += (x - mx) ** 2;
+    sxy += (x - mx) * (y - my);
+  }
+  return sxx > 0 ? sxy / sxx : null;
+}
+
+type Point = {
+  pos: number; // position in the ordered session
+  outcome: ShotOutcomeV1;
+  speed: number | null; // ball speed / club median, non-mishits only
+  carry: number | null; // carry / club median, non-mishits only
+};
+
+function inPlay(o: ShotOutcomeV1): boolean {
+  return o !== "mishit" && o !== "extreme_offline";
+}
+
+function rate(points: Point[]): number | null {
+  return points.length ? points.filter((p) => inPlay(p.outcome)).length / points.length : null;
+}
+
+function warmUp(points: Point[]): NonNullable<SequenceV1["warm_up"]> {
+  const cap = Math.min(WARMUP_MAX_SHOTS, Math.floor(points.length / 3));
+  const next = points.slice(cap, 2 * cap).map((p) => p.speed).filter(isNum);
+  const settled = median(next.length >= WARMUP_WINDOW ? next : points.slice(cap).map((p) => p.speed).filter(isNum));
+  if (settled === null) return { detected: false, shots: 0, speed_deficit_pct: null };
+
+  let end = cap;
+  const bar = settled * (1 - WARMUP_TOLERANCE);
+  for (let p = 0; p < cap; p++) {
+    const speed = points[p].speed;
+    const m = mean(points.slice(p, p + WARMUP_WINDOW).map((x) => x.speed).filter(isNum));
+    if (speed !== null && speed >= bar && m !== null && m >= bar) {
+      end = p;
+      break;
+    }
+  }
+
+  const early = mean(points.slice(0, end).map((p) => p.speed).filter(isNum));
+  return {
+    detected: end >= MIN_WARMUP_SHOTS,
+    shots: end,
+    speed_deficit_pct: early === null ? null : round1(((settled - early) / settled) * 100),
+  };
+}
+
+function fatigue(points: Point[]): NonNullable<SequenceV1["fatigue"]> {
+  const first = points[0]?.pos ?? 0;
+  const last = points[points.length - 1]?.pos ?? 0;
+  const lateFrom = points.length - Math.max(1, Math.floor(points.length / 4));
+  const late = points.slice(lateFrom);
+  const rest = points.slice(0, lateFrom);
+
+  const drift = (key: "speed" | "carry") => {
+    const s = slope(points.filter((p) => isNum(p[key])).map((p) => [p.pos, p[key] as number]));
+    return s === null ? null : round1(s * (last - first) * 100);
+  };
+  const lateDelta = (key: "speed" | "carry") => {
+    const a = mean(late.map((p) => p[key]).filter(isNum));
+    const b = mean(rest.map((p) => p[key]).filter(isNum));
+    return a === null || b === null || b === 0 ? null : round1((a / b - 1) * 100);
+  };
+
+  const ball_speed_drift_pct = drift("speed");
+  const carry_drift_pct = drift("carry");
+  const late_ball_speed_pct = lateDelta("speed");
+  const late_carry_pct = lateDelta("carry");
+
+  const speedFade =
+    ball_speed_drift_pct !== null && ball_speed_drift_pct <= FATIGUE_SPEED_DRIFT_PCT && (late_ball_speed_pct ?? 0) < 0;
+  const carryFade = carry_drift_pct !== null && carry_drift_pct <= FATIGUE_CARRY_DRIFT_PCT && (late_carry_pct ?? 0) < 0;
+
+  return {
+    detected: speedFade || carryFade,
+    metric: speedFade ? "ball_speed" : carryFade ? "carry" : null,
+    ball_speed_drift_pct,
+    carry_drift_pct,
+    late_ball_speed_pct,
+    late_carry_pct,
+    late_in_play_rate: rate(late),
+    in_play_rate: rate(rest),
+  };
+}
+
+function longestRun(ordered: SequenceShot[], points: Point[], hit: (o: ShotOutcomeV1) => boolean): Streak | null {
+  let [a, b] = [0, -1];
+  let start = -1;
+  for (let i = 0; i < points.length; i++) {
+    if (!hit(points[i].outcome)) {
+      start = -1;
+      continue;
+    }
+    if (start < 0) start = i;
+    if (i - start > b - a) [a, b] = [start, i];
+  }
+  if (b - a + 1 < MIN_STREAK) return null;
+  const num = (i: number) => {
+    const n = ordered[points[i].pos].shot_number;
+    return isNum(n) ? n : null;
+  };
+  return { length: b - a + 1, from_shot: num(a), to_shot: num(b) };
+}
+
+// Wald-Wolfowitz runs test; negative z = fewer runs than a random order would give
+function runsZ(points: Point[]): number | null {
+  if (points.length < MIN_RUNS_TEST_SHOTS) return null;
+  const seq = points.map((p) => p.outcome === "fairway_finder");
+  const n1 = seq.filter(Boolean).length;
+  const n2 = seq.length - n1;
+  if (n1 < 2 || n2 < 2) return null;
+  const n = seq.length;
+  const runs = 1 + seq.slice(1).filter((v, i) => v !== seq[i]).length;
+  const mu = (2 * n1 * n2) / n + 1;
+  const variance = (2 * n1 * n2 * (2 * n1 * n2 - n)) / (n * n * (n - 1));
+  return variance > 0 ? Math.round(((runs - mu) / Math.sqrt(variance)) * 100) / 100 : null;
+}
+
+function firstBall(ordered: SequenceShot[], points: Point[], medians: Map<string, number | null>): SequenceV1["first_ball"] {
+  const byClub = new Map<string, { club: string; first: Point[]; rest: Point[] }>();
+  let prev = "";
+  for (const p of points) {
+    const s = ordered[p.pos];
+    const key = clubKey(s);
+    if (!key) continue;
+    const g = byClub.get(key) ?? { club: (s.club as string).trim(), first: [], rest: [] };
+    (key !== prev ? g.first : g.rest).push(p);
+    byClub.set(key, g);
+    prev = key;
+  }
+  if (!byClub.size) return null;
+
+  const clubs = Array.from(byClub.entries())
+    .map(([key, g]) => {
+      const med = medians.get(key) ?? null;
+      const carries = g.first.map((p) => ordered[p.pos].carry).filter(isNum);
+      const carryMean = mean(carries);
+      return {
+        club: g.club,
+        blocks: g.first.length,
+        first_ball_in_play_rate: rate(g.first) as number,
+        in_play_rate: rate(g.rest),
+        first_ball_carry_pct: carryMean === null || !med ? null : round1((carryMean / med - 1) * 100),
+      };
+    })
+    .sort((a, b) => b.blocks - a.blocks || a.club.localeCompare(b.club));
+
+  const first = Array.from(byClub.values()).flatMap((g) => g.first);
+  const rest = Array.from(byClub.values()).flatMap((g) => g.rest);
+  return {
+    blocks: first.length,
+    first_ball_in_play_rate: rate(first) as number,
+    in_play_rate: rate(rest),
+    clubs,
+  };
+}
+
+/** Sequence analytics for one session; shots may come in any order. Clubs grouped like signals V1.2. */
+export function computeSequence(
+  shots: SequenceShot[],
+  profile: ThresholdProfile = DEFAULT_THRESHOLD_PROFILE
+): SequenceV1 {
+  const ordered = orderShots(shots);
+
+  const medians = new Map<string, number | null>();
+  const speedMedians = new Map<string, number | null>();
+  for (const key of new Set(ordered.map(clubKey))) {
+    const group = ordered.filter((s) => clubKey(s) === key);
+    medians.set(key, median(group.map((s) => s.carry).filter((c): c is number => isNum(c) && c > 0)));
+    speedMedians.set(key, median(group.map((s) => s.ball_speed).filter((v): v is number => isNum(v) && v > 0)));
+  }
+
+  const points: Point[] = ordered.map((s, pos) => {
+    const key = clubKey(s);
+    const med = medians.get(key) ?? null;
+    const speedMed = speedMedians.get(key) ?? null;
+    const outcome = classifyShotV1(s, med, resolveThresholds(profile, clubCategory(key ? s.club : null))).outcome;
+    const clean = outcome !== "mishit";
+    return {
+      pos,
+      outcome,
+      speed: clean && isNum(s.ball_speed) && speedMed ? s.ball_speed / speedMed : null,
+      carry: clean && isNum(s.carry) && med ? s.carry / med : null,
+    };
+  });
+
+  const long = points.length >= MIN_SEQUENCE_SHOTS;
+  const warm_up = long ? warmUp(points) : null;
+  const runs_z = runsZ(points);
+
+  return {
+    version: 1,
+    shots: points.length,
+    warm_up,
+    fatigue: long ? fatigue(points.slice(warm_up?.detected ? warm_up.shots : 0)) : null,
+    streaks: {
+      hot: longestRun(ordered, points, (o) => o === "fairway_finder"),
+      cold: longestRun(ordered, points, (o) => !inPlay(o)),
+      clustered: runs_z === null ? null : runs_z < -1.96,
+      runs_z,
+    },
+    first_ball: firstBall(ordered, points, medians),
+  };
+}
@@ -1,12 +1,26 @@
 // lib/analytics/signalsV1.ts
 // V1 Shot Signal Layer (deterministic, recomputable, no DB writes)
 
+import { isNum, median, percentile, sd } from "./numbers";
+import {
+  clubCategory,
+  DEFAULT_THRESHOLD_PROFILE,
+  DEFAULT_THRESHOLDS_V1,
+  resolveThresholds,
+  type ClubCategory,
+  type SignalThresholdsV1,
+  type ThresholdProfile,
+} from "./thresholds";
+
 export type ShotRowForSignals = {
   carry: number | null;
   total: number | null;
   side: number | null;
   ball_speed: number | null;
   club_speed: number | null;
+  // V1.2 groups by club; V1 / V1.1 ignore it
+  club?: string | null;
+  club_inferred?: boolean | null;
 };
 
 export type ShotOutcomeV1 =
@@ -65,18 +79,6 @@ export type SignalsV1 = {
   };
 };
 
-function isNum(v: unknown): v is number {
-  return typeof v === "number" && Number.isFinite(v);
-}
-
-export function median(nums: number[]): number | null {
-  const arr = nums.filter(isNum).slice().sort((a, b) => a - b);
-  const n = arr.length;
-  if (!n) return null;
-  const mid = Math.floor(n / 2);
-  return n % 2 === 0 ? (arr[mid - 1] + arr[mid]) / 2 : arr[mid];
-}
-
 export function classifyShotV1(
   s: ShotRowForSignals,
   sessionMedianCarry: number | null,
@@ -143,21 +145,8 @@ export function classifyShotV1(
   return { outcome: "missed_fairway_in_play", fairwayWidth, extremeOffline: extreme, mishitReasons: [] };
 }
 
-export function computeSignalsV1(shots: ShotRowForSignals[]): SignalsV1 {
-  const thresholds: SignalsV1["thresholds"] = {
-    mishit_carry_ratio: 0.55,
-    smash_proxy_min: 1.15,
-    rollout_min_yards: 25,
-    rollout_ratio_of_carry: 0.35,
-    near_zero_carry_yards: 5,
-
-    fairway_width_min_yards: 20,
-    fairway_width_ratio_of_carry: 0.12,
-    extreme_offline_min_yards: 35,
-    extreme_offline_ratio_of_carry: 0.25,
-
-    consistency_band_pct: 15,
-  };
+export function computeSignalsV1(shots: ShotRowForSignals[], t: SignalThresholdsV1 = DEFAULT_THRESHOLDS_V1): SignalsV1 {
+  const thresholds: SignalsV1["thresholds"] = { ...t };
 
   const carries = shots.map((s) => s.carry).filter(isNum).filter((c) => c > 0);
   const medCarry = median(carries);
@@ -311,6 +300,57 @@ function splitIntoBands(sortedShots: ShotRowForSignals[], quartiles: 4 | 2): Arr
     ].filter((b) => b.shots.length > 0);
 }
 
+/**
+ * Carry + offline adherence of one group of eligible shots around its own median carry.
+ * Carry tolerance tightens for longer shots (18% -> 10%); offline tolerance is 10% of carry, min 10y.
+ */
+function scoreCarryBand(
+  label: ConsistencyBandLabelV11,
+  shots: ShotRowForSignals[]
+): { band: ConsistencyBandV11; carryOK: number; offlineOK: number; overallOK: number } {
+  const bandCarries = shots.map((x) => x.carry).filter((v): v is number => typeof v === "number" && Number.isFinite(v) && v > 0);
+  const bandMedian = median(bandCarries);
+
+  const carryTolPct = bandMedian !== null && bandMedian > 0 ? clamp(0.10, 0.18, 0.18 - 0.0003 * bandMedian) : 0.18;
+  const offlineTol = bandMedian !== null && bandMedian > 0 ? Math.max(10, 0.10 * bandMedian) : 10;
+
+  const carryBand = bandMedian !== null && bandMedian > 0 ? carryTolPct * bandMedian : 0;
+
+  let carryOK = 0;
+  let offlineOK = 0;
+  let overallOK = 0;
+
+  for (const s of shots) {
+    const carry = s.carry as number;
+    const side = typeof s.side === "number" && Number.isFinite(s.side) ? (s.side as number) : null;
+
+    const cOk = bandMedian !== null && bandMedian > 0 ? Math.abs(carry - bandMedian) <= carryBand : false;
+    const oOk = side !== null ? Math.abs(side) <= offlineTol : false;
+
+    if (cOk) carryOK += 1;
+    if (oOk) offlineOK += 1;
+    if (cOk && oOk) overallOK += 1;
+  }
+
+  const denom = shots.length > 0 ? shots.length : 1;
+
+  return {
+    band: {
+      band: label,
+      n: shots.length,
+      median_carry: bandMedian,
+      carry_tol_pct: carryTolPct,
+      offline_tol_y: offlineTol,
+      carry_rate: carryOK / denom,
+      offline_rate: offlineOK / denom,
+      overall_rate: overallOK / denom,
+    },
+    carryOK,
+    offlineOK,
+    overallOK,
+  };
+}
+
 /**
  * Compute V1.1 consistency tightening.
  * - Excludes mishits (uses V1 classifier)
@@ -318,8 +358,8 @@ function splitIntoBands(sortedShots: ShotRowForSignals[], quartiles: 4 | 2): Arr
  * - Tightens carry tolerance for longer shots deterministically
  * - Adds offline adherence alongside carry adherence
  */
-export function computeSignalsV1_1(shots: ShotRowForSignals[]): SignalsV11 {
-  const base = computeSignalsV1(shots);
+export function computeSignalsV1_1(shots: ShotRowForSignals[], thresholds: SignalThresholdsV1 = DEFAULT_THRESHOLDS_V1): SignalsV11 {
+  const base = computeSignalsV1(shots, thresholds);
   const t = base.thresholds;
   const medCarry = base.totals.median_carry;
 
@@ -398,46 +438,12 @@ export function computeSignalsV1_1(shots: ShotRowForSignals[]): SignalsV11 {
   let overallOKAll = 0;
 
   for (const b of bandSplits) {
-    const bandCarries = b.shots.map((x) => x.carry).filter((v): v is number => typeof v === "number" && Number.isFinite(v) && v > 0);
-    const bandMedian = median(bandCarries);
-
-    const carryTolPct = bandMedian !== null && bandMedian > 0 ? clamp(0.10, 0.18, 0.18 - 0.0003 * bandMedian) : 0.18;
-    const offlineTol = bandMedian !== null && bandMedian > 0 ? Math.max(10, 0.10 * bandMedian) : 10;
-
-    const carryBand = bandMedian !== null && bandMedian > 0 ? carryTolPct * bandMedian : 0;
-
-    let carryOK = 0;
-    let offlineOK = 0;
-    let overallOK = 0;
-
-    for (const s of b.shots) {
-      const carry = s.carry as number;
-      const side = typeof s.side === "number" && Number.isFinite(s.side) ? (s.side as number) : null;
+    const scored = scoreCarryBand(b.label, b.shots);
+    bands.push(scored.band);
 
-      const cOk = bandMedian !== null && bandMedian > 0 ? Math.abs(carry - bandMedian) <= carryBand : false;
-      const oOk = side !== null ? Math.abs(side) <= offlineTol : false;
-
-      if (cOk) carryOK += 1;
-      if (oOk) offlineOK += 1;
-      if (cOk && oOk) overallOK += 1;
-    }
-
-    const denom = b.shots.length > 0 ? b.shots.length : 1;
-
-    bands.push({
-      band: b.label,
-      n: b.shots.length,
-      median_carry: bandMedian,
-      carry_tol_pct: carryTolPct,
-      offline_tol_y: offlineTol,
-      carry_rate: carryOK / denom,
-      offline_rate: offlineOK / denom,
-      overall_rate: overallOK / denom,
-    });
-
-    carryOKAll += carryOK;
-    offlineOKAll += offlineOK;
-    overallOKAll += overallOK;
+    carryOKAll += scored.carryOK;
+    offlineOKAll += scored.offlineOK;
+    overallOKAll += scored.overallOK;
   }
 
   const denomAll = nEligible > 0 ? nEligible : 1;
@@ -459,3 +465,215 @@ export function computeSignalsV1_1(shots: ShotRowForSignals[]): SignalsV11 {
     },
   };
 }
+
+// -----------------------------
+// V1.2 Per-club signals
+// -----------------------------
+
+export type ClubDispersionV12 = {
+  n: number; // eligible shots with side
+  side_mean: number | null; // + right / - left (bias)
+  side_sd: number | null;
+  offline_p90: number | null; // 90th percentile |side|
+  carry_sd: number | null;
+};
+
+export type ClubSignalsV12 = {
+  club: string;
+  category: ClubCategory | null; // thresholds row used (lib/analytics/thresholds)
+  shots: number;
+  inferred_shots: number; // club guessed, not confirmed (lib/ingest/clubInference)
+  eligible_shots: number;
+  median_carry: number | null;
+  outcomes: SignalsV1["outcomes"];
+  thresholds: SignalsV1["thresholds"];
+  consistency: Omit<ConsistencyBandV11, "band">;
+  dispersion: ClubDispersionV12;
+  flags: { low_sample: boolean };
+};
+
+export type SignalsV12 = {
+  // "club": grouped by shots.club; "carry_bands": untagged session, V1.1 quartiles stand in for clubs
+  mode: "club" | "carry_bands";
+  shots: number;
+  tagged_shots: number;
+  untagged_shots: number;
+  clubs: ClubSignalsV12[]; // longest median carry first
+  aggregate: {
+    eligible_shots: number;
+    mishit_rate: number;
+    fairway_rate: number;
+    extreme_rate: number;
+    // each club judged against its own median, shot-weighted
+    carry_rate: number;
+    offline_rate: number;
+    overall_rate: number;
+  };
+  fallback: SignalsV11 | null;
+  min_club_eligible: number;
+  // Which profile produced the thresholds, so stored signals can be recomputed identically
+  threshold_profile: {
+    id: string;
+    version: number;
+    tier: ThresholdProfile["tier"];
+    tier_source: ThresholdProfile["tier_source"];
+    overrides: ThresholdProfile["overrides"];
+  };
+};
+
+// Below this share of tagged shots a session is treated as untagged.
+const MIN_TAGGED_SHARE_V12 = 0.5;
+const MIN_CLUB_ELIGIBLE_V12 = 5;
+
+function clubSignals(
+  club: string,
+  shots: ShotRowForSignals[],
+  profile: ThresholdProfile
+): { signals: ClubSignalsV12; carryOK: number; offlineOK: number; overallOK: number } {
+  // V1 per club: mishit "carry collapse" is now against this club's median, not the session's
+  const category = clubCategory(club);
+  const base = computeSignalsV1(shots, resolveThresholds(profile, category));
+  const medCarry = base.totals.median_carry;
+
+  const eligible = shots.filter(
+    (s) => classifyShotV1(s, medCarry, base.thresholds).outcome !== "mishit" && isNum(s.carry) && s.carry > 0
+  );
+
+  const scored = scoreCarryBand("LOWER", eligible);
+  const { n, median_carry, carry_tol_pct, offline_tol_y, carry_rate, offline_rate, overall_rate } = scored.band;
+
+  const sides = eligible.map((s) => s.side).filter(isNum);
+  const carries = eligible.map((s) => s.carry as number);
+
+  return {
+    signals: {
+      club,
+      category,
+      shots: shots.length,
+      inferred_shots: shots.filter((s) => s.club_inferred).length,
+      eligible_shots: base.totals.eligible_shots,
+      median_carry: medCarry,
+      outcomes: base.outcomes,
+      thresholds: base.thresholds,
+      consistency: { n, median_carry, carry_tol_pct, offline_tol_y, carry_rate, offline_rate, overall_rate },
+      dispersion: {
+        n: sides.length,
+        side_mean: sides.length ? sides.reduce((a, b) => a + b, 0) / sides.length : null,
+        side_sd: sd(sides),
+        offline_p90: percentile(sides.map(Math.abs), 90),
+        carry_sd: sd(carries),
+      },
+      flags: { low_sample: eligible.length < MIN_CLUB_ELIGIBLE_V12 },
+    },
+    carryOK: scored.carryOK,
+    offlineOK: scored.offlineOK,
+    overallOK: scored.overallOK,
+  };
+}
+
+/**
+ * Compute V1.2 per-club signals.
+ * - Groups shots by club (case-insensitive); each club gets V1 outcomes, V1.1-style consistency around its
+ *   own median carry, and dispersion
+ * - Aggregates are shot-weighted across clubs, so driver and wedges are never judged against one median
+ * - Sessions with less than half their shots tagged fall back to V1.1 carry quartiles (`fallback`)
+ * - Thresholds come from the client's profile (skill tier x club category + coach overrides)
+ */
+export function computeSignalsV1_2(shots: ShotRowForSignals[], profile: ThresholdProfile = DEFAULT_THRESHOLD_PROFILE): SignalsV12 {
+  const threshold_profile: SignalsV12["threshold_profile"] = {
+    id: profile.id,
+    version: profile.version,
+    tier: profile.tier,
+    tier_source: profile.tier_source,
+    overrides: profile.overrides,
+  };
+
+  const groups = new Map<string, { label: string; shots: ShotRowForSignals[] }>();
+  let untagged = 0;
+
+  for (const s of shots) {
+    const label = typeof s.club === "string" ? s.club.trim() : "";
+    if (!label) {
+      untagged += 1;
+      continue;
+    }
+    const key = label.toLowerCase();
+    const g = groups.get(key) ?? { label, shots: [] };
+    g.shots.push(s);
+    groups.set(key, g);
+  }
+
+  const tagged = shots.length - untagged;
+  const byClub = tagged > 0 && tagged >= MIN_TAGGED_SHARE_V12 * shots.length;
+
+  if (!byClub) {
+    const thresholds = resolveThresholds(profile, null);
+    const fallback = computeSignalsV1_1(shots, thresholds);
+    const base = computeSignalsV1(shots, thresholds);
+    return {
+      mode: "carry_bands",
+      shots: shots.length,
+      tagged_shots: tagged,
+      untagged_shots: untagged,
+      clubs: [],
+      aggregate: {
+        eligible_shots: base.totals.eligible_shots,
+        mishit_rate: base.outcomes.mishit.rate,
+        fairway_rate: base.outcomes.fairway_finder.rate,
+        extreme_rate: base.outcomes.extreme_offline.rate,
+        ...fallback.consistency.aggregate,
+      },
+      fallback,
+      min_club_eligible: MIN_CLUB_ELIGIBLE_V12,
+      threshold_profile,
+    };
+  }
+
+  const scored = Array.from(groups.values()).map((g) => clubSignals(g.label, g.shots, profile));
+  scored.sort(
+    (a, b) => (b.signals.median_carry ?? -1) - (a.signals.median_carry ?? -1) || a.signals.club.localeCompare(b.signals.club)
+  );
+
+  let eligible = 0;
+  let mishits = 0;
+  let fairway = 0;
+  let extreme = 0;
+  let carryOK = 0;
+  let offlineOK = 0;
+  let overallOK = 0;
+  let consistencyN = 0;
+
+  for (const c of scored) {
+    eligible += c.signals.eligible_shots;
+    mishits += c.signals.outcomes.mishit.count;
+    fairway += c.signals.outcomes.fairway_finder.count;
+    extreme += c.signals.outcomes.extreme_offline.count;
+    carryOK += c.carryOK;
+    offlineOK += c.offlineOK;
+    overallOK += c.overallOK;
+    consistencyN += c.signals.consistency.n;
+  }
+
+  const denom = tagged > 0 ? tagged : 1;
+  const cDenom = consistencyN > 0 ? consistencyN : 1;
+
+  return {
+    mode: "club",
+    shots: shots.length,
+    tagged_shots: tagged,
+    untagged_shots: untagged,
+    clubs: scored.map((c) => c.signals),
+    aggregate: {
+      eligible_shots: eligible,
+      mishit_rate: mishits / denom,
+      fairway_rate: fairway / denom,
+      extreme_rate: extreme / denom,
+      carry_rate: carryOK / cDenom,
+      offline_rate: offlineOK / cDenom,
+      overall_rate: overallOK / cDenom,
+    },
+    fallback: null,
+    min_club_eligible: MIN_CLUB_ELIGIBLE_V12,
+    threshold_profile,
+  };
+}
@@ -0,0 +1,183 @@
+// lib/analytics/thresholds.ts
+// Named threshold profiles for the V1 signal layer: skill tier x club category, plus per-client coach overrides
+// (client_signal_thresholds). Resolution is deterministic; the profile id + version travel with the signals.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { parseClubSlot } from "./clubs";
+import type { SignalsV1 } from "./signalsV1";
+
+export type SignalThresholdsV1 = SignalsV1["thresholds"];
+
+export type SkillTier = "scratch" | "advanced" | "intermediate" | "beginner" | "unknown";
+
+/** Skill tier from a handicap index; no handicap -> unknown. */
+export function deriveSkillTier(handicap: number | null): SkillTier {
+  if (handicap === null) return "unknown";
+  // Conservative tiers; adjust later without schema change.
+  if (handicap <= 0.5) return "scratch";
+  if (handicap <= 5) return "advanced";
+  if (handicap <= 12) return "intermediate";
+  return "beginner";
+}
+
+export const CLUB_CATEGORIES = ["driver", "wood", "iron", "wedge"] as const;
+
+export type ClubCategory = (typeof CLUB_CATEGORIES)[number];
+
+// Bump when any built-in value below changes; stored signals keep the version they were computed with.
+export const THRESHOLD_PROFILE_VERSION = 1;
+
+export const DEFAULT_THRESHOLDS_V1: SignalThresholdsV1 = {
+  mishit_carry_ratio: 0.55,
+  smash_proxy_min: 1.15,
+  rollout_min_yards: 25,
+  rollout_ratio_of_carry: 0.35,
+  near_zero_carry_yards: 5,
+
+  fairway_width_min_yards: 20,
+  fairway_width_ratio_of_carry: 0.12,
+  extreme_offline_min_yards: 35,
+  extreme_offline_ratio_of_carry: 0.25,
+
+  consistency_band_pct: 15,
+};
+
+const THRESHOLD_KEYS = Object.keys(DEFAULT_THRESHOLDS_V1) as (keyof SignalThresholdsV1)[];
+
+// Lower handicaps get tighter collapse / dispersion / consistency bands; "unknown" keeps the defaults.
+const TIER_THRESHOLDS: Record<SkillTier, Partial<SignalThresholdsV1>> = {
+  scratch: {
+    mishit_carry_ratio: 0.7,
+    fairway_width_ratio_of_carry: 0.1,
+    extreme_offline_ratio_of_carry: 0.2,
+    consistency_band_pct: 10,
+  },
+  advanced: {
+    mishit_carry_ratio: 0.65,
+    fairway_width_ratio_of_carry: 0.11,
+    extreme_offline_ratio_of_carry: 0.22,
+    consistency_band_pct: 12,
+  },
+  intermediate: {},
+  beginner: {
+    mishit_carry_ratio: 0.45,
+    fairway_width_ratio_of_carry: 0.14,
+    extreme_offline_ratio_of_carry: 0.3,
+    consistency_band_pct: 20,
+  },
+  unknown: {},
+};
+
+// Smash floors sit well under each category's typical strike (driver ~1.45, woods ~1.4, irons ~1.33, wedges ~1.2).
+const CATEGORY_THRESHOLDS: Record<ClubCategory, Partial<SignalThresholdsV1>> = {
+  driver: { smash_proxy_min: 1.3 },
+  wood: { smash_proxy_min: 1.25 },
+  iron: { smash_proxy_min: 1.15, rollout_ratio_of_carry: 0.25 },
+  wedge: { smash_proxy_min: 1.0, rollout_min_yards: 15, rollout_ratio_of_carry: 0.2 },
+};
+
+/** Coach overrides: "all" applies to every club, a category key on top of it. */
+export type ThresholdOverrides = Partial<Record<"all" | ClubCategory, Partial<SignalThresholdsV1>>>;
+
+export type ThresholdProfile = {
+  id: string; // "tier:<skill tier>"
+  version: number;
+  tier: SkillTier;
+  tier_source: "handicap" | "coach" | "none";
+  overrides: ThresholdOverrides;
+};
+
+export function thresholdProfileId(tier: SkillTier): string {
+  return `tier:${tier}`;
+}
+
+export function buildThresholdProfile(
+  tier: SkillTier,
+  tierSource: ThresholdProfile["tier_source"] = "none",
+  overrides: ThresholdOverrides = {}
+): ThresholdProfile {
+  return { id: thresholdProfileId(tier), version: THRESHOLD_PROFILE_VERSION, tier, tier_source: tierSource, overrides };
+}
+
+export const DEFAULT_THRESHOLD_PROFILE: ThresholdProfile = buildThresholdProfile("unknown");
+
+/** driver / wood (incl. hybrids) / iron / wedge from a device or bag club name; unknown names -> null. */
+export function clubCategory(club: string | null | undefined): ClubCategory | null {
+  const parsed = typeof club === "string" ? parseClubSlot(club) : null;
+  if (!parsed) return null;
+  if (parsed.key === "1w") return "driver";
+  if (/^\dw$/.test(parsed.key) || /^\dh$/.test(parsed.key)) return "wood";
+  if (/^\di$/.test(parsed.key)) return "iron";
+  return "wedge";
+}
+
+/** Defaults <- tier <- club category <- coach "all" <- coach category. */
+export function resolveThresholds(profile: ThresholdProfile, category: ClubCategory | null): SignalThresholdsV1 {
+  return {
+    ...DEFAULT_THRESHOLDS_V1,
+    ...TIER_THRESHOLDS[profile.tier],
+    ...(category ? CATEGORY_THRESHOLDS[category] : {}),
+    ...(profile.overrides.all ?? {}),
+    ...(category ? profile.overrides[category] ?? {} : {}),
+  };
+}
+
+/** Validate a coach override payload; every value must be a known threshold with a positive finite number. */
+export function parseThresholdOverrides(
+  raw: unknown
+): { ok: true; overrides: ThresholdOverrides } | { ok: false; error: string; detail?: string } {
+  if (raw === null || raw === undefined) return { ok: true, overrides: {} };
+  if (typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "invalid_overrides" };
+
+  const out: ThresholdOverrides = {};
+  for (const [scope, values] of Object.entries(raw as Record<string, unknown>)) {
+    if (scope !== "all" && !(CLUB_CATEGORIES as readonly string[]).includes(scope)) {
+      return { ok: false, error: "unknown_override_scope", detail: scope };
+    }
+    if (!values || typeof values !== "object" || Array.isArray(values)) {
+      return { ok: false, error: "invalid_overrides", detail: scope };
+    }
+
+    const picked: Partial<SignalThresholdsV1> = {};
+    for (const [key, value] of Object.entries(values as Record<string, unknown>)) {
+      if (!(THRESHOLD_KEYS as string[]).includes(key)) return { ok: false, error: "unknown_threshold", detail: key };
+      if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+        return { ok: false, error: "invalid_threshold_value", detail: `${scope}.${key}` };
+      }
+      picked[key as keyof SignalThresholdsV1] = value;
+    }
+    if (Object.keys(picked).length) out[scope as "all" | ClubCategory] = picked;
+  }
+  return { ok: true, overrides: out };
+}
+
+function isSkillTier(v: unknown): v is SkillTier {
+  return v === "scratch" || v === "advanced" || v === "intermediate" || v === "beginner" || v === "unknown";
+}
+
+/**
+ * Profile for a client: a coach-pinned tier wins over the player's handicap (profiles.handicap), then overrides.
+ * Missing rows or lookup errors fall back to the defaults rather than failing the caller.
+ */
+export async function loadThresholdProfile(supabase: SupabaseClient, clientId: string): Promise<ThresholdProfile> {
+  const [{ data: row }, { data: player }] = await Promise.all([
+    supabase.from("client_signal_thresholds").select("skill_tier, overrides").eq("client_id", clientId).maybeSingle(),
+    supabase
+      .from("profiles")
+      .select("handicap")
+      .or(`client_id.eq.${clientId},id.eq.${clientId}`)
+      .not("handicap", "is", null)
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const parsed = parseThresholdOverrides(row?.overrides ?? null);
+  const overrides = parsed.ok ? parsed.overrides : {};
+
+  if (isSkillTier(row?.skill_tier)) return buildThresholdProfile(row.skill_tier, "coach", overrides);
+
+  const handicap = player?.handicap != null && player.handicap !== "" ? Number(player.handicap) : NaN;
+  if (Number.isFinite(handicap)) return buildThresholdProfile(deriveSkillTier(handicap), "handicap", overrides);
+
+  return buildThresholdProfile("unknown", "none", overrides);
+}
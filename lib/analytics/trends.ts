@@ -0,0 +1,530 @@
+// lib/analytics/trends.ts
+// Cross-session trends from session_stats snapshots (lib/metrics/snapshot.ts): rolling 30/60/90/180-day stats per
+// metric and per club, a least-squares slope with a 95% interval, and single change-point detection.
+// Pure apart from loadTrendPoints / getClientTrends; the same points + as_of always give the same report.
+// Carries are compared at standard conditions (snapshot.standardized) unless the raw basis is asked for.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { clubKey } from "./clubs";
+import { mean } from "./numbers";
+import { SNAPSHOT_METRIC_IDS, SNAPSHOT_STAT_VERSION, type SessionSnapshot, type SnapshotMetricId } from "@/lib/metrics/snapshot";
+
+export const TREND_WINDOWS = [30, 60, 90, 180] as const;
+
+export type TrendWindowDays = (typeof TREND_WINDOWS)[number];
+
+export const CLUB_TREND_METRICS = [
+  "median_carry",
+  "carry_sd",
+  "offline_p90",
+  "side_sd",
+  "consistency_rate",
+  "mishit_rate",
+  "fairway_rate",
+] as const;
+
+export type ClubTrendMetric = (typeof CLUB_TREND_METRICS)[number];
+
+export const TREND_BASES = ["standardized", "raw"] as const;
+
+export type TrendBasis = (typeof TREND_BASES)[number];
+
+// +1 higher is better, -1 lower is better, 0 no preferred direction (e.g. launch angle)
+const METRIC_POLARITY: Record<SnapshotMetricId, 1 | -1 | 0> = {
+  carry_avg: 1,
+  total_distance_avg: 1,
+  ball_speed_avg: 1,
+  club_speed_avg: 1,
+  smash_factor_avg: 1,
+  launch_angle_avg: 0,
+  spin_rate_avg: 0,
+  offline_dispersion_p50: -1,
+  offline_dispersion_p90: -1,
+  start_line_sd: -1,
+  face_to_path_avg: 0,
+  attack_angle_avg: 0,
+  dynamic_loft_avg: 0,
+  fairway_pct: 1,
+  gir_pct: 1,
+  penalty_rate: -1,
+  shot_quality_pct: 1,
+};
+
+const CLUB_METRIC_POLARITY: Record<ClubTrendMetric, 1 | -1 | 0> = {
+  median_carry: 1,
+  carry_sd: -1,
+  offline_p90: -1,
+  side_sd: -1,
+  consistency_rate: 1,
+  mishit_rate: -1,
+  fairway_rate: 1,
+};
+
+// A change point needs this many sessions on each side, p below ALPHA and a large standardized effect.
+// The best split is picked from many candidates, so its p is Bonferroni-adjusted by the number of splits tried.
+const MIN_SEGMENT = 3;
+const ALPHA = 0.01;
+const MIN_EFFECT_SIZE = 0.8;
+const MAX_CALLOUTS = 8;
+
+export type TrendPoint = {
+  session_id: string;
+  date: string; // YYYY-MM-DD practice date
+  metrics: Partial<Record<SnapshotMetricId, number | null>>;
+  clubs: Record<string, { label: string; metrics: Partial<Record<ClubTrendMetric, number | null>> }>; // keyed by club key
+};
+
+export type TrendWindowStat = {
+  days: TrendWindowDays;
+  n: number; // sessions in the window with a value
+  mean: number | null;
+  sd: number | null;
+  mean_ci95: [number, number] | null;
+  slope_per_30d: number | null;
+  slope_ci95: [number, number] | null;
+  slope_p_value: number | null;
+};
+
+export type TrendDirection = "improvement" | "regression" | "shift";
+
+export type TrendChangePoint = {
+  session_id: string; // first session after the change
+  date: string;
+  before: { n: number; mean: number };
+  after: { n: number; mean: number };
+  delta: number;
+  delta_ci95: [number, number];
+  p_value: number;
+  effect_size: number; // |delta| / pooled sd
+  direction: TrendDirection;
+};
+
+export type TrendSeries = {
+  metric: SnapshotMetricId | ClubTrendMetric;
+  club: string | null; // club label, null = whole session
+  polarity: 1 | -1 | 0;
+  points: Array<{ date: string; session_id: string; value: number }>; // oldest first, longest window
+  windows: TrendWindowStat[];
+  change_point: TrendChangePoint | null;
+};
+
+export type TrendCallout = {
+  kind: "change_point" | "slope";
+  metric: SnapshotMetricId | ClubTrendMetric;
+  club: string | null;
+  direction: TrendDirection;
+  window_days: TrendWindowDays;
+  since: string; // date the change starts (change point) or window start (slope)
+  delta: number;
+  p_value: number;
+  text: string;
+};
+
+export type TrendReport = {
+  as_of: string;
+  basis: TrendBasis;
+  windows: readonly TrendWindowDays[];
+  series: TrendSeries[];
+  callouts: TrendCallout[]; // most significant first
+  // Mirrors coaching_output_v1 history_window
+  history_window: { sessions_considered: number; trend_metrics_present: boolean };
+  stale_sessions: number; // snapshots below the current stat_version, left out until recomputed
+};
+
+// -----------------------------
+// Statistics
+// -----------------------------
+
+// Sample variance (n - 1): the window CIs and change-point tests estimate the player's spread from a few sessions
+function variance(xs: number[]): number {
+  const m = mean(xs);
+  if (m === null || xs.length < 2) return 0;
+  return xs.reduce((a, b) => a + (b - m) ** 2, 0) / (xs.length - 1);
+}
+
+// Abramowitz & Stegun 7.1.26
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/** Two-sided p for a t statistic, via the usual normal approximation of Student's t. */
+function pFromT(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  const z = (Math.abs(t) * (1 - 1 / (4 * df))) / Math.sqrt(1 + (t * t) / (2 * df));
+  return 2 * (1 - normalCdf(z));
+}
+
+const T975: Array<[number, number]> = [
+  [1, 12.706], [2, 4.303], [3, 3.182], [4, 2.776], [5, 2.571], [6, 2.447], [7, 2.365], [8, 2.306], [9, 2.262],
+  [10, 2.228], [15, 2.131], [20, 2.086], [30, 2.042], [60, 2.0], [120, 1.98],
+];
+
+/** 97.5% quantile of Student's t (two-sided 95%), interpolated between table rows. */
+function tCrit(df: number): number {
+  if (df <= 1) return T975[0][1];
+  for (let i = 1; i < T975.length; i++) {
+    const [d1, t1] = T975[i];
+    if (df <= d1) {
+      const [d0, t0] = T975[i - 1];
+      return t0 + ((t1 - t0) * (df - d0)) / (d1 - d0);
+    }
+  }
+  return 1.96;
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / 86_400_000);
+}
+
+function windowStat(days: TrendWindowDays, pts: Array<{ day: number; value: number }>): TrendWindowStat {
+  const n = pts.length;
+  const out: TrendWindowStat = { days, n, mean: null, sd: null, mean_ci95: null, slope_per_30d: null, slope_ci95: null, slope_p_value: null };
+
+  const ys = pts.map((p) => p.value);
+  const my = mean(ys);
+  if (my === null) return out;
+  out.mean = my;
+  if (n < 2) return out;
+
+  out.sd = Math.sqrt(variance(ys));
+  const half = (tCrit(n - 1) * out.sd) / Math.sqrt(n);
+  out.mean_ci95 = [my - half, my + half];
+
+  if (n < 3) return out;
+  const xs = pts.map((p) => p.day);
+  const mx = mean(xs);
+  if (mx === null) return out;
+  const sxx = xs.reduce((a, x) => a + (x - mx) ** 2, 0);
+  if (sxx === 0) return out;
+
+  const slope = xs.reduce((a, x, i) => a + (x - mx) * (ys[i] - my), 0) / sxx;
+  const sse = xs.reduce((a, x, i) => a + (ys[i] - (my + slope * (x - mx))) ** 2, 0);
+  const se = Math.sqrt(sse / (n - 2) / sxx);
+  const slopeHalf = tCrit(n - 2) * se;
+
+  out.slope_per_30d = slope * 30;
+  out.slope_ci95 = [(slope - slopeHalf) * 30, (slope + slopeHalf) * 30];
+  out.slope_p_value = se > 0 ? pFromT(slope / se, n - 2) : 0;
+  return out;
+}
+
+function judge(delta: number, polarity: 1 | -1 | 0): TrendDirection {
+  if (polarity === 0 || delta === 0) return "shift";
+  return Math.sign(delta) === polarity ? "improvement" : "regression";
+}
+
+/** Best single split by Welch t; null unless significant at ALPHA (split-adjusted) with a large effect. */
+function detectChangePoint(
+  pts: Array<{ date: string; session_id: string; value: number }>,
+  polarity: 1 | -1 | 0
+): TrendChangePoint | null {
+  let best: TrendChangePoint | null = null;
+  let bestT = 0;
+
+  for (let k = MIN_SEGMENT; k <= pts.length - MIN_SEGMENT; k++) {
+    const a = pts.slice(0, k).map((p) => p.value);
+    const b = pts.slice(k).map((p) => p.value);
+    const va = variance(a);
+    const vb = variance(b);
+    const ma = mean(a);
+    const mb = mean(b);
+    const se = Math.sqrt(va / a.length + vb / b.length);
+    if (ma === null || mb === null) continue;
+    const delta = mb - ma;
+    if (se === 0) continue; // identical values on both sides carry no evidence either way
+
+    const t = delta / se;
+    if (Math.abs(t) <= bestT) continue;
+
+    // Welch–Satterthwaite degrees of freedom
+    const df = (va / a.length + vb / b.length) ** 2 / ((va / a.length) ** 2 / (a.length - 1) + (vb / b.length) ** 2 / (b.length - 1));
+    const pooled = Math.sqrt(((a.length - 1) * va + (b.length - 1) * vb) / (a.length + b.length - 2));
+    const half = tCrit(df) * se;
+
+    bestT = Math.abs(t);
+    best = {
+      session_id: pts[k].session_id,
+      date: pts[k].date,
+      before: { n: a.length, mean: ma },
+      after: { n: b.length, mean: mb },
+      delta,
+      delta_ci95: [delta - half, delta + half],
+      p_value: pFromT(t, df),
+      effect_size: pooled > 0 ? Math.abs(delta) / pooled : Infinity,
+      direction: judge(delta, polarity),
+    };
+  }
+
+  if (!best) return null;
+  best.p_value = Math.min(1, best.p_value * (pts.length - 2 * MIN_SEGMENT + 1));
+  return best.p_value < ALPHA && best.effect_size >= MIN_EFFECT_SIZE ? best : null;
+}
+
+function label(metric: string, club: string | null): string {
+  const name = metric.replace(/_/g, " ");
+  return club ? `${club} ${name}` : name;
+}
+
+function fmt(n: number): string {
+  const a = Math.abs(n);
+  return a >= 100 ? n.toFixed(0) : a >= 1 ? n.toFixed(1) : n.toFixed(3);
+}
+
+function buildSeries(
+  metric: SnapshotMetricId | ClubTrendMetric,
+  club: string | null,
+  polarity: 1 | -1 | 0,
+  values: Array<{ date: string; session_id: string; value: number }>,
+  asOfDay: number
+): TrendSeries {
+  const dated = values.map((v) => ({ ...v, day: dayNumber(v.date) }));
+  return {
+    metric,
+    club,
+    polarity,
+    points: values,
+    windows: TREND_WINDOWS.map((days) => windowStat(days, dated.filter((p) => asOfDay - p.day < days))),
+    change_point: detectChangePoint(values, polarity),
+  };
+}
+
+function calloutsFor(s: TrendSeries, asOf: string): TrendCallout[] {
+  const longest = TREND_WINDOWS[TREND_WINDOWS.length - 1];
+  if (s.change_point) {
+    const cp = s.change_point;
+    const verb = cp.direction === "improvement" ? "improved" : cp.direction === "regression" ? "regressed" : "shifted";
+    return [
+      {
+        kind: "change_point",
+        metric: s.metric,
+        club: s.club,
+        direction: cp.direction,
+        window_days: longest,
+        since: cp.date,
+        delta: cp.delta,
+        p_value: cp.p_value,
+        text: `${label(s.metric, s.club)} ${verb} from ${fmt(cp.before.mean)} to ${fmt(cp.after.mean)} since ${cp.date}.`,
+      },
+    ];
+  }
+
+  // No step change: report the shortest window with a significant slope
+  for (const w of s.windows) {
+    if (w.slope_per_30d === null || w.slope_p_value === null || w.n < MIN_SEGMENT * 2) continue;
+    if (w.slope_p_value >= ALPHA || w.slope_per_30d === 0) continue;
+
+    const direction = judge(w.slope_per_30d, s.polarity);
+    const since = new Date((dayNumber(asOf) - w.days + 1) * 86_400_000).toISOString().slice(0, 10);
+    return [
+      {
+        kind: "slope",
+        metric: s.metric,
+        club: s.club,
+        direction,
+        window_days: w.days,
+        since,
+        delta: w.slope_per_30d,
+        p_value: w.slope_p_value,
+        text: `${label(s.metric, s.club)} trending ${w.slope_per_30d > 0 ? "up" : "down"} ${fmt(Math.abs(w.slope_per_30d))} per 30 days over the last ${w.days} days.`,
+      },
+    ];
+  }
+  return [];
+}
+
+/** Trends as of `asOf` (YYYY-MM-DD) from snapshot points; points outside the longest window are ignored. */
+export function computeTrends(points: TrendPoint[], asOf: string, basis: TrendBasis = "standardized"): TrendReport {
+  const asOfDay = dayNumber(asOf);
+  const longest = TREND_WINDOWS[TREND_WINDOWS.length - 1];
+
+  const inRange = points
+    .filter((p) => {
+      const d = dayNumber(p.date);
+      return d <= asOfDay && asOfDay - d < longest;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.session_id.localeCompare(b.session_id));
+
+  const series: TrendSeries[] = [];
+
+  for (const metric of SNAPSHOT_METRIC_IDS) {
+    const values = inRange.flatMap((p) => {
+      const v = p.metrics[metric];
+      return typeof v === "number" && Number.isFinite(v) ? [{ date: p.date, session_id: p.session_id, value: v }] : [];
+    });
+    if (values.length) series.push(buildSeries(metric, null, METRIC_POLARITY[metric], values, asOfDay));
+  }
+
+  // Latest label wins for display; sessions are matched on the normalized club key
+  const clubLabels = new Map<string, string>();
+  for (const p of inRange) for (const [key, c] of Object.entries(p.clubs)) clubLabels.set(key, c.label);
+
+  for (const [key, clubLabel] of Array.from(clubLabels.entries()).sort((a, b) => a[1].localeCompare(b[1]))) {
+    for (const metric of CLUB_TREND_METRICS) {
+      const values = inRange.flatMap((p) => {
+        const v = p.clubs[key]?.metrics[metric];
+        return typeof v === "number" && Number.isFinite(v) ? [{ date: p.date, session_id: p.session_id, value: v }] : [];
+      });
+      if (values.length) series.push(buildSeries(metric, clubLabel, CLUB_METRIC_POLARITY[metric], values, asOfDay));
+    }
+  }
+
+  const callouts = series
+    .flatMap((s) => calloutsFor(s, asOf))
+    .sort((a, b) => a.p_value - b.p_value || label(a.metric, a.club).localeCompare(label(b.metric, b.club)))
+    .slice(0, MAX_CALLOUTS);
+
+  return {
+    as_of: asOf,
+    basis,
+    windows: TREND_WINDOWS,
+    series,
+    callouts,
+    history_window: {
+      sessions_considered: inRange.length,
+      trend_metrics_present: series.some((s) => s.windows.some((w) => w.slope_per_30d !== null)),
+    },
+    stale_sessions: 0,
+  };
+}
+
+// -----------------------------
+// Loading
+// -----------------------------
+
+
+/**
+ * Snapshot -> trend point. Low-sample clubs are left out so a 3-ball club doesn't swing its trend.
+ * Standardized basis: snapshot metrics + per-club carry at standard conditions; the rest is condition-free.
+ */
+export function snapshotToTrendPoint(
+  sessionId: string,
+  date: string,
+  snap: SessionSnapshot,
+  basis: TrendBasis = "standardized"
+): TrendPoint {
+  const std = basis === "standardized" ? snap.standardized : undefined;
+  const stdClubs = new Map((std?.clubs ?? []).map((c) => [c.club, c]));
+
+  const clubs: TrendPoint["clubs"] = {};
+  for (const c of snap.signals_v1_2?.clubs ?? []) {
+    if (c.flags.low_sample) continue;
+    const carry = stdClubs.get(c.club);
+    clubs[clubKey(c.club)] = {
+      label: c.club,
+      metrics: {
+        median_carry: carry ? carry.median_carry : c.median_carry,
+        carry_sd: carry ? carry.carry_sd : c.dispersion.carry_sd,
+        offline_p90: c.dispersion.offline_p90,
+        side_sd: c.dispersion.side_sd,
+        consistency_rate: c.consistency.overall_rate,
+        mishit_rate: c.outcomes.mishit.rate,
+        fairway_rate: c.outcomes.fairway_finder.rate,
+      },
+    };
+  }
+  return { session_id: sessionId, date, metrics: std?.metrics ?? snap.metrics ?? {}, clubs };
+}
+
+/** Sessions practised in the `days` up to `asOf` with a current-version snapshot. */
+export async function loadTrendPoints(
+  supabase: SupabaseClient,
+  clientId: string,
+  opts: { asOf: string; days?: number; basis?: TrendBasis }
+): Promise<{ points: TrendPoint[]; stale: number }> {
+  const days = opts.days ?? TREND_WINDOWS[TREND_WINDOWS.length - 1];
+  const from = new Date((dayNumber(opts.asOf) - days + 1) * 86_400_000).toISOString().slice(0, 10);
+
+  const { data: sessions, error } = await supabase
+    .from("sessions")
+    .select("id, session_date")
+    .eq("client_id", clientId)
+    .or("metrics_status.is.null,metrics_status.neq.failed")
+    .gte("session_date", from)
+    .lte("session_date", opts.asOf)
+    .order("session_date", { ascending: true })
+    .limit(500);
+  if (error) throw new Error(error.message);
+
+  const dates = new Map((sessions ?? []).map((s) => [String(s.id), String(s.session_date ?? "").slice(0, 10)]));
+  if (!dates.size) return { points: [], stale: 0 };
+
+  const { data: stats, error: statsErr } = await supabase
+    .from("session_stats")
+    .select("session_id, stat_version, stats_json")
+    .eq("stat_type", "snapshot")
+    .in("session_id", Array.from(dates.keys()));
+  if (statsErr) throw new Error(statsErr.message);
+
+  const points: TrendPoint[] = [];
+  let stale = 0;
+  for (const row of stats ?? []) {
+    const date = dates.get(String(row.session_id));
+    if (!date) continue;
+    if (Number(row.stat_version) < SNAPSHOT_STAT_VERSION) {
+      stale += 1;
+      continue;
+    }
+    points.push(snapshotToTrendPoint(String(row.session_id), date, row.stats_json as SessionSnapshot, opts.basis));
+  }
+  return { points, stale };
+}
+
+export type ClubCarry = {
+  label: string;
+  carry: number; // mean of the sessions' median carry
+  carry_sd: number | null;
+  sessions: number;
+};
+
+/**
+ * Per-club carry over the `days` up to `asOf`, keyed by clubKey: Smart Bag gapping. Standard conditions
+ * (snapshot.standardized) by default, like the trends.
+ */
+export async function getClubCarries(
+  supabase: SupabaseClient,
+  clientId: string,
+  opts: { days: TrendWindowDays; asOf?: string; basis?: TrendBasis }
+): Promise<Record<string, ClubCarry>> {
+  const asOf = opts.asOf ?? new Date().toISOString().slice(0, 10);
+  const { points } = await loadTrendPoints(supabase, clientId, { asOf, days: opts.days, basis: opts.basis });
+
+  const byClub = new Map<string, { label: string; carries: number[]; sds: number[] }>();
+  for (const p of points) {
+    for (const [key, c] of Object.entries(p.clubs)) {
+      const carry = c.metrics.median_carry;
+      if (typeof carry !== "number" || !Number.isFinite(carry)) continue;
+      const g = byClub.get(key) ?? { label: c.label, carries: [], sds: [] };
+      g.carries.push(carry);
+      const sd = c.metrics.carry_sd;
+      if (typeof sd === "number" && Number.isFinite(sd)) g.sds.push(sd);
+      byClub.set(key, g);
+    }
+  }
+
+  const out: Record<string, ClubCarry> = {};
+  for (const [key, g] of byClub) {
+    const carry = mean(g.carries);
+    if (carry === null) continue;
+    out[key] = {
+      label: g.label,
+      carry,
+      carry_sd: mean(g.sds),
+      sessions: g.carries.length,
+    };
+  }
+  return out;
+}
+
+export async function getClientTrends(
+  supabase: SupabaseClient,
+  clientId: string,
+  opts: { asOf?: string; basis?: TrendBasis } = {}
+): Promise<TrendReport> {
+  const asOf = opts.asOf ?? new Date().toISOString().slice(0, 10);
+  const basis = opts.basis ?? "standardized";
+  const { points, stale } = await loadTrendPoints(supabase, clientId, { asOf, basis });
+  return { ...computeTrends(points, asOf, basis), stale_sessions: stale };
+}
@@ -1,4 +1,43 @@
-export async function runCoachingEngine(sessionId: string) {
-  console.log("Running coaching engine for session:", sessionId);
-  // Move AI logic here from route handlers
+// lib/engine/coaching.ts
+// Coaching engine entry point. Every coaching generator (route handlers, jobs) runs through here:
+// pick an output spec from the registry, run the shared pipeline (lib/engine/coaching/pipeline.ts).
+
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { COACHING_OUTPUTS, type CoachingOutputId } from "./coaching/outputs";
+import { runCoachingPipeline, type CoachingResult } from "./coaching/pipeline";
+
+export type { CoachingOutputId } from "./coaching/outputs";
+export type { CoachingResult } from "./coaching/pipeline";
+
+export type RunCoachingEngineOptions<K extends CoachingOutputId = CoachingOutputId> = {
+  output?: K; // default: sessioncoach
+  client_id?: string | null;
+  reason?: string | null;
+  force?: boolean;
+  route?: string;
+  request_id?: string;
+  supabase?: SupabaseClient;
+};
+
+type OutputOf<K extends CoachingOutputId> = ReturnType<(typeof COACHING_OUTPUTS)[K]["stamp"]>;
+
+export async function runCoachingEngine<K extends CoachingOutputId = "sessioncoach">(
+  sessionId: string,
+  opts: RunCoachingEngineOptions<K> = {}
+): Promise<CoachingResult<OutputOf<K>>> {
+  const output = (opts.output ?? "sessioncoach") as K;
+  const spec = COACHING_OUTPUTS[output];
+
+  const run = {
+    session_id: sessionId,
+    client_id: opts.client_id ?? null,
+    reason: opts.reason ?? null,
+    force: opts.force ?? false,
+    request_id: opts.request_id ?? crypto.randomUUID(),
+    route: opts.route ?? output,
+  };
+
+  // The registry is keyed by spec id, so each key's spec pairs with its own output type
+  return runCoachingPipeline(spec as never, run, opts.supabase) as Promise<CoachingResult<OutputOf<K>>>;
 }
@@ -0,0 +1,434 @@
+// lib/engine/coaching/grounding.ts
+// Evidence grounding for model-written coaching. Every number the model states with a unit (yards, mph, rpm,
+// degrees, percent), or next to a unitless metric (smash, score, quality), must match a value in the run's inputs
+// (snapshot metrics and signals, trend callouts) within tolerance. A claim is only checked against inputs for what its
+// sentence is about: the clubs and metrics it names, or the metric the model cited; changes keep their sign.
+// Sentences carrying a claim that matches nothing are stripped (COACHING_CLAIM_POLICY=strip, the default) or the
+// output is sent back for repair (=reject). Claims that pass keep a citation: the metric id and the input value they
+// rest on. Only descriptive fields are checked; targets and drills prescribe numbers, they do not report them.
+
+import { isNum } from "@/lib/analytics/numbers";
+import { clubKey, parseClubSlot } from "@/lib/analytics/clubs";
+import { SNAPSHOT_METRIC_IDS } from "@/lib/metrics/metricIds";
+import { clampString, isJsonObject, type JsonObject } from "./shared";
+
+export type MetricCitation = {
+  path: string; // JSON pointer of the cited field in the output
+  metric_id: string; // snapshot metric id, else the dotted path of the input value
+  value: number; // input value the claim rests on
+};
+
+export type UnsupportedClaim = { path: string; claim: string; reason: string };
+
+export type GroundingReport = {
+  checked: number; // numeric claims and model citations looked at
+  unsupported: UnsupportedClaim[]; // stripped (or rejected, by policy)
+};
+
+/**
+ * Citable input values: metric id (or dotted input path) -> value. Snapshot metric ids come first; per-club values
+ * carry a `club:<label>` segment, changes end in `.delta` (signed).
+ */
+export type GroundingFacts = Map<string, number>;
+
+export const CLAIM_POLICIES = ["strip", "reject"] as const;
+export type ClaimPolicy = (typeof CLAIM_POLICIES)[number];
+
+type UnitClass = "yards" | "mph" | "rpm" | "deg" | "pct" | "ratio" | "score";
+
+const FACT_MAX_DEPTH = 5;
+const FACT_MAX_COUNT = 2000;
+// Longer arrays are per-shot series (practice_score.shots, ...); any number would match one of their entries
+const FACT_MAX_ARRAY = 24;
+
+// value + unit; the unit alternation is ordered longest first so "yards" never stops at "y"
+const CLAIM_RE =
+  /([-+]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)\s*(%|percent\b|yards?\b|yds?\b|y\b|mph\b|rpm\b|°|degrees?\b|deg\b)/gi;
+
+// Unitless metrics a bare number may sit next to ("smash of 1.45", "quality score 82"); the number must not carry a
+// unit (those are claims already). The metric name comes first or, for smash, right after ("a 1.45 smash")
+const BARE_CLAIM_RE =
+  /\b(smash(?:\s+factor)?|score|quality)\b[^0-9.!?]{0,20}?(?<![\d.])(\d+(?:\.\d+)?)(?!\d|\.\d|\s*(?:%|percent\b|yards?\b|yds?\b|y\b|mph\b|rpm\b|°|degrees?\b|deg\b))/gi;
+const BARE_SMASH_AFTER_RE = /(?<![\d.])(\d\.\d+)\s+smash\b/gi;
+
+// Club names as a model writes them: "driver", "7-iron", "3 wood", "4h", "PW", "sand wedge", "56° wedge"
+const CLUB_MENTION_RE =
+  /\b(driver|\d\s*-?\s*(?:woods?|irons?|hybrids?|rescue|[wih])|(?:pitching|gap|approach|sand|lob)\s+wedge|[pagsl]w|\d{2}\s*(?:°|-?\s*degrees?|deg)?\s*-?\s*wedge)\b/gi;
+
+// Inputs a claim in each unit may rest on, matched on the last two segments of the metric id / input path
+// ("ellipse.area" is not a distance, "bias.side_mean" is); text-derived facts carry the unit in the path
+const UNIT_FACTS: Record<UnitClass, RegExp> = {
+  yards: /carry|total|distance|offline|dispersion|side|semi_m|apex|band|proximity|yards/,
+  mph: /speed|mph/,
+  rpm: /spin|rpm/,
+  deg: /angle|face|path|attack|loft|launch|start_line|descent|deg/,
+  pct: /pct|rate|share|percent|score|quality|adherence/,
+  ratio: /smash|ratio/,
+  score: /score|quality/,
+};
+
+// Metrics a sentence can name, and the inputs (whole id, club segment aside) each name may rest on
+const METRIC_NAMES: ReadonlyArray<[RegExp, RegExp]> = [
+  [/\bcarr(?:y|ies|ied)\b/i, /carry/],
+  [/\btotal\b/i, /total/],
+  [/\bdistance\b/i, /carry|total|distance/],
+  [/\bball speed\b/i, /ball_speed/],
+  [/\b(?:club|swing) speed\b/i, /club_speed/],
+  [/\bsmash\b/i, /smash/],
+  [/\blaunch\b/i, /launch/],
+  [/\bspin\b/i, /spin/],
+  [/\b(?:offline|dispersion|start line|miss(?:es)?)\b/i, /offline|dispersion|side|start_line|semi_m|band|bias/],
+  [/\b(?:apex|peak height)\b/i, /apex/],
+  [/\bface\b/i, /face/],
+  [/\bpath\b/i, /path/],
+  [/\battack\b/i, /attack/],
+  [/\bloft\b/i, /loft/],
+  [/\bdescent\b/i, /descent/],
+  [/\bfairways?\b/i, /fairway/],
+  [/\bpenalt(?:y|ies)\b/i, /penalty/],
+  [/\bproximity\b/i, /proximity/],
+  [/\bquality\b/i, /quality/],
+  [/\bscore\b/i, /score/],
+];
+
+// Direction words around a number; a change (delta) only matches a claim going the same way
+const UP_WORDS =
+  /\b(up|gain(?:ed|s|ing)?|increas\w*|rose|ris(?:en|ing)|higher|longer|faster|more|added|climb\w*|jump\w*)\b/i;
+const DOWN_WORDS =
+  /\b(down|lost|los(?:e|es|ing)|drop\w*|decreas\w*|fell|fall\w*|lower|shorter|slower|less|fewer|declin\w*)\b/i;
+
+// Sentence ends at . ! ? followed by whitespace, so decimals ("1.45") never split
+const SENTENCE_BREAK = /(?<=[.!?])\s+/;
+
+export function claimPolicy(): ClaimPolicy {
+  const v = (process.env.COACHING_CLAIM_POLICY || "").toLowerCase();
+  return v === "reject" ? "reject" : "strip";
+}
+
+/** Relative tolerance for a claim against its input; COACHING_CLAIM_TOLERANCE, default 0.03, max 0.25. */
+export function claimTolerance(): number {
+  const n = Number(process.env.COACHING_CLAIM_TOLERANCE ?? "0.03");
+  return Number.isFinite(n) && n >= 0 ? Math.min(n, 0.25) : 0.03;
+}
+
+function clubSegment(label: string): string {
+  return `club:${label.trim().replace(/\./g, " ")}`;
+}
+
+/** Club key of a per-club fact id; null for session-level facts. */
+function factClub(id: string): string | null {
+  const m = id.match(/(?:^|\.)club:([^.]+)/);
+  return m ? clubKey(m[1]) : null;
+}
+
+function addLeaves(facts: GroundingFacts, prefix: string, v: unknown, depth: number) {
+  if (facts.size >= FACT_MAX_COUNT) return;
+  if (isNum(v)) {
+    if (!facts.has(prefix)) facts.set(prefix, v);
+    return;
+  }
+  if (depth >= FACT_MAX_DEPTH) return;
+  if (Array.isArray(v)) {
+    if (v.length > FACT_MAX_ARRAY) return;
+    // Per-club entries are keyed by club, so a claim about one club is only checked against that club
+    v.forEach((x, i) => {
+      const key = isJsonObject(x) && typeof x.club === "string" && x.club.trim() ? clubSegment(x.club) : String(i);
+      addLeaves(facts, `${prefix}.${key}`, x, depth + 1);
+    });
+  } else if (isJsonObject(v)) {
+    for (const [k, x] of Object.entries(v)) addLeaves(facts, prefix ? `${prefix}.${k}` : k, x, depth + 1);
+  }
+}
+
+/** Snapshot metrics under their registry ids, every other numeric leaf (signals, sequence, quality) by path. */
+export function snapshotFacts(snapshot: JsonObject | null | undefined, facts: GroundingFacts = new Map()): GroundingFacts {
+  if (!snapshot) return facts;
+  const metrics = isJsonObject(snapshot.metrics) ? snapshot.metrics : {};
+  for (const id of SNAPSHOT_METRIC_IDS) {
+    if (isNum(metrics[id])) facts.set(id, metrics[id]);
+  }
+  // The snapshot's own prose is deterministic evidence too ("90% of shots within 4y of the target line")
+  if (typeof snapshot.summary === "string") textFacts("summary", snapshot.summary, facts);
+  if (Array.isArray(snapshot.highlights)) {
+    snapshot.highlights.forEach((h, i) => typeof h === "string" && textFacts(`highlights.${i}`, h, facts));
+  }
+  // Sample counts are not measurements
+  for (const [k, v] of Object.entries(snapshot)) {
+    if (!["metrics", "metric_samples", "summary", "highlights"].includes(k)) addLeaves(facts, k, v, 0);
+  }
+  return facts;
+}
+
+/**
+ * Figures in deterministic text, under <prefix>.[club:<label>.][<metrics>.]<unit>.<n>: the club and metrics its
+ * sentence names, so the figure only supports claims about the same thing.
+ */
+export function textFacts(prefix: string, text: string, facts: GroundingFacts = new Map()): GroundingFacts {
+  let n = 0;
+  for (const sentence of text.split(SENTENCE_BREAK)) {
+    const clubs = clubsIn(sentence);
+    const names = METRIC_NAMES.filter(([name]) => name.test(sentence)).map(([, ids]) => ids.source.split("|")[0]);
+    const about = names.length ? `${names.join("_")}.` : "";
+    for (const c of claimsIn(sentence)) {
+      const club = nearestClub(clubs, c.at);
+      facts.set(`${prefix}.${club ? `${clubSegment(club.label)}.` : ""}${about}${c.unit}.${n++}`, c.value);
+    }
+  }
+  return facts;
+}
+
+/**
+ * Numbers a trend callout states, under trend.[club:<label>.]<metric>: the signed change (.delta) and, for a step
+ * change, the levels either side (.before / .after).
+ */
+export function trendFacts(
+  callouts: ReadonlyArray<{ metric: string; club: string | null; delta: number; text: string }>,
+  facts: GroundingFacts = new Map()
+): GroundingFacts {
+  for (const c of callouts) {
+    const id = `trend.${c.club ? `${clubSegment(c.club)}.` : ""}${c.metric}`;
+    if (isNum(c.delta)) facts.set(`${id}.delta`, c.delta);
+    const levels = c.text.match(/\bfrom (-?\d+(?:\.\d+)?) to (-?\d+(?:\.\d+)?)/);
+    if (levels) {
+      facts.set(`${id}.before`, Number(levels[1]));
+      facts.set(`${id}.after`, Number(levels[2]));
+    }
+  }
+  return facts;
+}
+
+type Claim = { raw: string; value: number; decimals: number; unit: UnitClass; sign: 1 | -1 | null; at: number };
+
+function unitClass(u: string): UnitClass {
+  const t = u.toLowerCase();
+  if (t === "%" || t === "percent") return "pct";
+  if (t === "mph") return "mph";
+  if (t === "rpm") return "rpm";
+  if (t === "°" || t.startsWith("deg")) return "deg";
+  return "yards";
+}
+
+/** Clubs a sentence names, by bag key, with where each mention sits. */
+function clubsIn(text: string): Array<{ key: string; label: string; start: number; end: number }> {
+  const out: Array<{ key: string; label: string; start: number; end: number }> = [];
+  for (const m of text.matchAll(CLUB_MENTION_RE)) {
+    const label = m[1].replace(/degrees?/i, "degree").replace(/(wood|iron|hybrid)s$/i, "$1");
+    const parsed = parseClubSlot(label);
+    const start = m.index ?? 0;
+    if (parsed) out.push({ key: parsed.key, label, start, end: start + m[0].length });
+  }
+  return out;
+}
+
+// Explicit sign first, then direction words just before or after the figure; both directions = unknown
+function claimSign(text: string, num: string, start: number, end: number): 1 | -1 | null {
+  if (num.startsWith("-")) return -1;
+  if (num.startsWith("+")) return 1;
+  const around = `${text.slice(Math.max(0, start - 40), start)} ${text.slice(end, end + 20)}`;
+  const up = UP_WORDS.test(around);
+  const down = DOWN_WORDS.test(around);
+  return up === down ? null : up ? 1 : -1;
+}
+
+function claimsIn(text: string): Claim[] {
+  const clubs = clubsIn(text);
+  // "56° wedge" names a club, it does not claim an angle
+  const inClub = (at: number) => clubs.some((c) => at >= c.start && at < c.end);
+  const claim = (raw: string, num: string, unit: UnitClass, at: number, end: number): Claim => {
+    const digits = num.replace(/[,+-]/g, "");
+    return {
+      raw: raw.trim(),
+      value: Number(digits),
+      decimals: digits.includes(".") ? digits.split(".")[1].length : 0,
+      unit,
+      sign: claimSign(text, num, at, end),
+      at,
+    };
+  };
+
+  const out: Claim[] = [];
+  for (const m of text.matchAll(CLAIM_RE)) {
+    const at = m.index ?? 0;
+    if (!inClub(at)) out.push(claim(m[0], m[1], unitClass(m[2]), at, at + m[0].length));
+  }
+  for (const m of text.matchAll(BARE_CLAIM_RE)) {
+    const at = (m.index ?? 0) + m[0].length - m[2].length;
+    if (!inClub(at)) out.push(claim(m[0], m[2], /smash/i.test(m[1]) ? "ratio" : "score", at, at + m[2].length));
+  }
+  for (const m of text.matchAll(BARE_SMASH_AFTER_RE)) {
+    const at = m.index ?? 0;
+    if (!out.some((c) => c.at === at)) out.push(claim(m[0], m[1], "ratio", at, at + m[1].length));
+  }
+  return out.sort((a, b) => a.at - b.at);
+}
+
+function isChange(id: string): boolean {
+  return id.endsWith(".delta");
+}
+
+// Rounded to the precision the claim was written at, or within the relative tolerance. Levels are sign-free
+// ("2 degrees left" against -2); a change must also go the claim's way ("gained 5 yards" is not a -5 delta)
+function within(claimed: number, decimals: number, actual: number, tol: number): boolean {
+  const slack = Math.max(0.5 * 10 ** -decimals, tol * Math.abs(actual));
+  return Math.abs(Math.abs(claimed) - Math.abs(actual)) <= slack + 1e-9;
+}
+
+function matches(c: Claim, id: string, actual: number, tol: number): boolean {
+  if (isChange(id) && actual !== 0 && c.sign !== Math.sign(actual)) return false;
+  // Rates are stored 0-1 in places (penalty_rate) and quoted as percentages
+  return within(c.value, c.decimals, actual, tol) || (c.unit === "pct" && within(c.value / 100, c.decimals + 2, actual, tol));
+}
+
+// What a sentence is about: the clubs it names (key, position) and metric-id patterns
+type Sentence = { clubs: Array<{ key: string; start: number }>; metrics: RegExp[] };
+
+// The club a figure at `at` is about: the last one named before it, else the first named after it
+function nearestClub<T extends { start: number }>(clubs: T[], at: number): T | undefined {
+  const before = clubs.filter((x) => x.start < at);
+  return before.length ? before[before.length - 1] : clubs[0];
+}
+
+/**
+ * Claims a model wrote into one output, checked against the run's inputs. Model-supplied citations are verified
+ * first (a wrong one is dropped and reported); each supported numeric claim is then cited by the input it matched.
+ */
+export function createGrounder(facts: GroundingFacts, claimed: MetricCitation[] = []) {
+  const tol = claimTolerance();
+  const report: GroundingReport = { checked: 0, unsupported: [] };
+  const citations: MetricCitation[] = [];
+
+  const cite = (c: MetricCitation) => {
+    if (!citations.some((x) => x.path === c.path && x.metric_id === c.metric_id)) citations.push(c);
+  };
+
+  const verify = (path: string, metric_id: string, value: number): number | null => {
+    report.checked += 1;
+    const actual = facts.get(metric_id);
+    const signOk = actual === undefined || !isChange(metric_id) || Math.sign(value) === Math.sign(actual);
+    if (actual !== undefined && signOk && within(value, 2, actual, tol)) return actual;
+    const reason = actual === undefined ? "unknown_metric" : `input value is ${actual}`;
+    report.unsupported.push({ path, claim: `${metric_id}=${value}`, reason });
+    return null;
+  };
+
+  // A cited metric wins when it fits. Otherwise the closest input of the claim's unit, among those about what the
+  // sentence names: the claim's club (no club named = session-level inputs only) and the sentence's metrics. Anything within the
+  // written precision counts as exact, so ties go to the earliest fact (registry metrics before paths and prose)
+  const matchFact = (c: Claim, sentence: Sentence, preferred: MetricCitation[]): string | null => {
+    const unit = UNIT_FACTS[c.unit];
+    const fits = (id: string) => unit.test(id.split(".").slice(-2).join("."));
+    for (const p of preferred) if (fits(p.metric_id) && matches(c, p.metric_id, p.value, tol)) return p.metric_id;
+
+    const club = nearestClub(sentence.clubs, c.at)?.key ?? null;
+    const about = (id: string) => {
+      if (factClub(id) !== club) return false;
+      const bare = id.replace(/(?:^|\.)club:[^.]+/, "");
+      return !sentence.metrics.length || sentence.metrics.some((m) => m.test(bare));
+    };
+
+    const rounding = 0.5 * 10 ** -c.decimals;
+    let best: { id: string; err: number } | null = null;
+    for (const [metric_id, v] of facts) {
+      if (!fits(metric_id) || !about(metric_id) || !matches(c, metric_id, v, tol)) continue;
+      const diff = Math.min(
+        Math.abs(Math.abs(c.value) - Math.abs(v)),
+        c.unit === "pct" ? Math.abs(c.value - Math.abs(v) * 100) : Infinity
+      );
+      const err = Math.max(0, diff - rounding);
+      if (!best || err < best.err) best = { id: metric_id, err };
+    }
+    return best?.id ?? null;
+  };
+
+  /** A structured value the model attributed to a metric (e.g. metrics_used[].value). */
+  function citation(path: string, metric_id: string, value: number): boolean {
+    const actual = verify(path, metric_id, value);
+    if (actual !== null) cite({ path, metric_id, value: actual });
+    return actual !== null;
+  }
+
+  /** The sentences of `value` whose numeric claims all match an input; null when none is left. */
+  function text(path: string, value: string, srcPath = path): string | null {
+    const preferred: MetricCitation[] = [];
+    for (const c of claimed.filter((x) => x.path === srcPath)) {
+      const actual = verify(path, c.metric_id, c.value);
+      if (actual !== null) preferred.push({ path, metric_id: c.metric_id, value: actual });
+    }
+
+    const kept: string[] = [];
+    const found: MetricCitation[] = [];
+    for (const sentence of value.split(SENTENCE_BREAK)) {
+      const hits: MetricCitation[] = [];
+      const scope: Sentence = {
+        clubs: clubsIn(sentence).map((c) => ({ key: c.key, start: c.start })),
+        metrics: METRIC_NAMES.filter(([name]) => name.test(sentence)).map(([, ids]) => ids),
+      };
+      let ok = true;
+      for (const c of claimsIn(sentence)) {
+        report.checked += 1;
+        const metric_id = matchFact(c, scope, preferred);
+        if (metric_id) {
+          hits.push({ path, metric_id, value: facts.get(metric_id) as number });
+        } else {
+          report.unsupported.push({ path, claim: c.raw, reason: "no_matching_input" });
+          ok = false;
+        }
+      }
+      if (ok) {
+        kept.push(sentence.trim());
+        found.push(...hits);
+      }
+    }
+
+    const out = clampString(kept.join(" "), value.length);
+    if (out) [...preferred, ...found].forEach(cite);
+    return out;
+  }
+
+  /** Items of a list, each grounded as text; items stripped to nothing are dropped and the rest re-indexed. */
+  function list(path: string, items: string[]): string[] {
+    const out: string[] = [];
+    items.forEach((item, i) => {
+      const t = text(`${path}/${out.length}`, item, `${path}/${i}`);
+      if (t) out.push(t);
+    });
+    return out;
+  }
+
+  return { text, list, citation, report, citations };
+}
+
+/** Repair-turn errors for claims the inputs do not support. */
+export function unsupportedClaimErrors(report: GroundingReport, max = 8): string[] {
+  return report.unsupported
+    .slice(0, max)
+    .map((u) => `${u.path} "${u.claim}" is not supported by the inputs (${u.reason}); cite a metric and its value or remove it`);
+}
+
+/**
+ * A list the model may write as strings or as { text, metric_id, value } items; returns the text and the claimed
+ * citations (path = `${path}/<index>`) for createGrounder to verify.
+ */
+export function readCitedList(
+  v: unknown,
+  path: string,
+  maxItems: number,
+  maxLength = 200
+): { items: string[]; claimed: MetricCitation[] } {
+  const items: string[] = [];
+  const claimed: MetricCitation[] = [];
+  for (const x of Array.isArray(v) ? v : []) {
+    if (items.length >= maxItems) break;
+    const t = clampString(isJsonObject(x) ? x.text : x, maxLength);
+    if (!t) continue;
+    const c = isJsonObject(x) ? readCitation(x, `${path}/${items.length}`) : null;
+    if (c) claimed.push(c);
+    items.push(t);
+  }
+  return { items, claimed };
+}
+
+/** { metric_id, value } written next to a claim, as a citation at `path`; null when absent or malformed. */
+export function readCitation(o: JsonObject, path: string): MetricCitation | null {
+  return typeof o.metric_id === "string" && o.metric_id && isNum(o.value) ? { path, metric_id: o.metric_id, value: o.value } : null;
+}
@@ -0,0 +1,119 @@
+// lib/engine/coaching/llm.ts
+// The one place coaching talks to a model: output specs describe a prompt, the configured provider (lib/ai/provider.ts)
+// runs it as a JSON-mode completion with a timeout and usage reporting. Output that fails its checks gets a structured
+// repair turn (the validation errors, then "return the corrected object") before the caller gives up on it.
+
+import { getLlmProvider, type LlmCompletion, type LlmMessage, type LlmUsage } from "@/lib/ai/provider";
+import { safeJsonParseObject, type JsonObject } from "./shared";
+
+export type { LlmUsage } from "@/lib/ai/provider";
+
+export type LlmPrompt = {
+  model: string;
+  temperature: number | null; // null = provider default
+  system: string;
+  developer?: string;
+  user: string;
+  timeout_ms: number;
+  max_tokens?: number;
+};
+
+export type JsonCompletion = LlmCompletion;
+
+export type OutputCheck<T> = (parsed: JsonObject) => { ok: true; value: T } | { ok: false; errors: string[] };
+
+export type CheckedCompletion<T> = {
+  completion: JsonCompletion; // last call; usage and latency summed over every attempt
+  value: T | null; // null when no attempt passed the check
+  errors: string[]; // from the last failed check
+  repair_attempts: number;
+};
+
+/** Repair turns after a failed check; COACHING_AI_REPAIR_ATTEMPTS, default 1, 0 disables. */
+export function repairAttempts(): number {
+  const n = Number(process.env.COACHING_AI_REPAIR_ATTEMPTS ?? "1");
+  return Number.isInteger(n) && n >= 0 ? Math.min(n, 3) : 1;
+}
+
+/** Why no model can be called right now, or null when one can. */
+export function llmUnavailable(): string | null {
+  try {
+    return getLlmProvider().unavailable();
+  } catch {
+    return "unknown_llm_provider";
+  }
+}
+
+function promptMessages(prompt: LlmPrompt): LlmMessage[] {
+  return [
+    { role: "system", content: prompt.system },
+    ...(prompt.developer ? [{ role: "developer" as const, content: prompt.developer }] : []),
+    { role: "user", content: prompt.user },
+  ];
+}
+
+function call(prompt: LlmPrompt, messages: LlmMessage[]): Promise<JsonCompletion> {
+  return getLlmProvider().completeJson({
+    model: prompt.model,
+    temperature: prompt.temperature,
+    messages,
+    timeout_ms: prompt.timeout_ms,
+    max_tokens: prompt.max_tokens,
+  });
+}
+
+function addUsage(a: LlmUsage | null, b: LlmUsage | null): LlmUsage | null {
+  if (!a || !b) return a ?? b;
+  const sum = (x: number | null, y: number | null) => (x === null && y === null ? null : (x ?? 0) + (y ?? 0));
+  return {
+    prompt_tokens: sum(a.prompt_tokens, b.prompt_tokens),
+    completion_tokens: sum(a.completion_tokens, b.completion_tokens),
+    total_tokens: sum(a.total_tokens, b.total_tokens),
+  };
+}
+
+/** Throws on provider errors; an abort after `timeout_ms` throws with name "AbortError". */
+export async function completeJson(prompt: LlmPrompt): Promise<JsonCompletion> {
+  return call(prompt, promptMessages(prompt));
+}
+
+/**
+ * Completion whose parsed output must pass `check`. A failure is sent back as a repair turn (the rejected output as
+ * the assistant's, then its errors) up to `maxRepairs` times. Provider errors and timeouts throw, unrepaired.
+ */
+export async function completeCheckedJson<T>(
+  prompt: LlmPrompt,
+  check: OutputCheck<T>,
+  maxRepairs = repairAttempts()
+): Promise<CheckedCompletion<T>> {
+  const messages = promptMessages(prompt);
+  let total: JsonCompletion | null = null;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const c = await call(prompt, messages);
+    total = total
+      ? { ...c, usage: addUsage(total.usage, c.usage), latency_ms: total.latency_ms + c.latency_ms }
+      : c;
+
+    const parsed = safeJsonParseObject(c.text);
+    const result = parsed ? check(parsed) : { ok: false as const, errors: ["output is not a JSON object"] };
+    if (result.ok) return { completion: total, value: result.value, errors: [], repair_attempts: attempt };
+
+    errors = result.errors.length ? result.errors : ["output failed validation"];
+    messages.push(
+      { role: "assistant", content: c.text || "{}" },
+      {
+        role: "user",
+        content: JSON.stringify({
+          error: "validation_failed",
+          errors,
+          instruction:
+            "Return the corrected JSON object only. Fix every listed error, keep everything else as it was, and do not add keys.",
+        }),
+      }
+    );
+  }
+
+  return { completion: total as JsonCompletion, value: null, errors, repair_attempts: maxRepairs };
+}
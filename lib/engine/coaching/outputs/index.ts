@@ -0,0 +1,20 @@
+// lib/engine/coaching/outputs/index.ts
+// Output registry: every coaching output the engine can produce, keyed by spec id.
+
+import { sessionCoachOutput } from "./sessioncoach";
+import { sessionCoachStrictOutput } from "./sessioncoachStrict";
+import { coachingSummaryOutput } from "./summary";
+
+export const COACHING_OUTPUTS = {
+  sessioncoach: sessionCoachOutput,
+  sessioncoach_strict: sessionCoachStrictOutput,
+  coaching_summary: coachingSummaryOutput,
+} as const;
+
+export type CoachingOutputId = keyof typeof COACHING_OUTPUTS;
+
+export { sessionCoachOutput, sessionCoachStrictOutput, coachingSummaryOutput };
+export type { SessionCoachV1, PlanStatus } from "./sessioncoach";
+export type { SessionCoachStrictV1 } from "./sessioncoachStrict";
+export type { CoachingSummaryV1 } from "./summary";
+export { INTERNAL_COACHING_GENERATE_TEMPERATURE } from "./summary";
@@ -0,0 +1,286 @@
+// lib/engine/coaching/outputs/sessioncoach.ts
+// sessioncoach_v1: short per-session coaching that reinforces the active 3-month plan. Always has a deterministic
+// baseline (plan themes + snapshot + trends + data quality); the model only rewrites the display text when
+// COACHING_USE_AI=true and the session's data is good enough to coach from.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isLowQuality } from "@/lib/analytics/dataQuality";
+import { getClientTrends, type TrendReport } from "@/lib/analytics/trends";
+import { clampString, clampStrings, isJsonObject, sha256Hex, stableStringify, nowIso, type JsonObject } from "../shared";
+import { createGrounder, readCitedList, snapshotFacts, trendFacts, type MetricCitation } from "../grounding";
+import { CoachingError, type CoachingInputs, type CoachingOutputSpec, type PlanTheme } from "../pipeline";
+
+export type PlanStatus = "aligned" | "neutral" | "review_needed";
+
+export type SessionCoachV1 = {
+  schema_version: "sessioncoach_v1";
+  session_id: string;
+  client_id: string;
+  plan_id: string;
+  created_at: string;
+  display: {
+    title: string;
+    subtitle: string;
+    session_summary: string;
+    what_stood_out: string[];
+    what_this_supports: string;
+    next_session_focus: string;
+    plan_status: PlanStatus;
+  };
+  evidence: {
+    primary_theme?: string;
+    secondary_theme?: string | null;
+    metrics_used?: string[];
+    note?: string;
+    history_window?: TrendReport["history_window"];
+    trend_callouts?: string[];
+    estimated_metrics?: string[];
+    data_quality_score?: number | null;
+    citations?: MetricCitation[]; // input values behind the model's claims (AI output only)
+  };
+  // Safe additive metadata (UI should ignore unknown keys)
+  metadata?: {
+    generated_by: "ai" | "deterministic";
+    model?: string;
+    latency_ms?: number;
+    ai_error?: string;
+    request_id?: string;
+    route?: string;
+  };
+};
+
+type SessionCoachContext = {
+  inputs: CoachingInputs;
+  plan_version_id: string;
+  primary: PlanTheme;
+  secondary: PlanTheme | null;
+  snapshot: JsonObject | null;
+  trends: TrendReport | null;
+  trendCallouts: string[];
+  estimatedMetrics: string[];
+  qualityScore: number | null;
+  lowQuality: boolean;
+};
+
+const PLAN_STATUSES: readonly PlanStatus[] = ["aligned", "neutral", "review_needed"];
+
+async function readSessionQualityScore(sb: SupabaseClient, session_id: string) {
+  const q = await sb.from("sessions").select("quality_score").eq("id", session_id).maybeSingle();
+  if (q.error) throw new Error(`sessions quality lookup failed: ${q.error.message}`);
+  const score = (q.data as { quality_score?: unknown } | null)?.quality_score;
+  return typeof score === "number" ? score : null;
+}
+
+export const sessionCoachOutput: CoachingOutputSpec<SessionCoachContext, SessionCoachV1> = {
+  id: "sessioncoach",
+  schema_version: "sessioncoach_v1",
+  requires: { snapshot: false, plan: ["plan3m_v1.1"] },
+  ai: "optional",
+  cache: false,
+  publish: true,
+  summary: false,
+
+  async context(sb, inputs) {
+    const plan = inputs.plan;
+    if (!plan?.themes.length) throw new CoachingError(409, "plan_has_no_themes", "Active plan has no themes");
+
+    const primary = plan.themes.slice().sort((a, b) => (a.priority ?? 999) - (b.priority ?? 999))[0];
+    const secondary = plan.themes.find((t) => t.theme_id !== primary.theme_id) ?? null;
+    const snapshot = inputs.snapshot?.stats_json ?? null;
+
+    // Cross-session trends up to this session's day (optional; new players have no history yet), so a rebuilt
+    // older session never cites sessions played after it
+    const trends = await getClientTrends(sb, inputs.client_id, { asOf: inputs.session_date ?? undefined }).catch(() => null);
+
+    // Metrics resting mostly on ball-flight model estimates (limited devices); coaching hedges on these
+    const flight = snapshot?.flight_estimates;
+    const estimatedMetrics =
+      isJsonObject(flight) && Array.isArray(flight.metrics)
+        ? flight.metrics.filter((m): m is string => typeof m === "string")
+        : [];
+
+    // Data quality (lib/analytics/dataQuality.ts): a low-quality session gets the deterministic output only
+    const qualityScore = await readSessionQualityScore(sb, inputs.session_id);
+
+    return {
+      inputs,
+      plan_version_id: plan.version_id,
+      primary,
+      secondary,
+      snapshot,
+      trends,
+      trendCallouts: clampStrings((trends?.callouts ?? []).slice(0, 3).map((c) => c.text), 3, 400),
+      estimatedMetrics,
+      qualityScore,
+      lowQuality: isLowQuality(qualityScore),
+    };
+  },
+
+  inputHash(ctx) {
+    return sha256Hex(
+      stableStringify({
+        schema_version: "sessioncoach_v1",
+        snapshot_hash: ctx.inputs.snapshot?.data_hash ?? null,
+        plan_version_id: ctx.plan_version_id,
+        primary: ctx.primary.theme_id,
+        secondary: ctx.secondary?.theme_id ?? null,
+        trend_callouts: ctx.trendCallouts,
+        quality_score: ctx.qualityScore,
+      })
+    );
+  },
+
+  skipAi(ctx) {
+    return ctx.lowQuality ? "low_data_quality" : null;
+  },
+
+  baseline(ctx) {
+    const { primary, secondary, snapshot } = ctx;
+    const metricsUsed = (primary.progress_metrics ?? [])
+      .map((m) => m.metric_id)
+      .filter((x): x is string => typeof x === "string" && x.length > 0);
+    const highlights = clampStrings(snapshot?.highlights, 2);
+
+    return {
+      schema_version: "sessioncoach_v1",
+      session_id: ctx.inputs.session_id,
+      client_id: ctx.inputs.client_id,
+      plan_id: ctx.plan_version_id,
+      created_at: nowIso(),
+      display: {
+        title: "Session coaching",
+        subtitle: "Autocompute",
+        session_summary:
+          clampString(snapshot?.summary, 1200) ??
+          "This session has been logged successfully. Coaching is based on your active 3‑month plan focus and latest session snapshot.",
+        what_stood_out: [
+          `Primary focus: ${primary.theme_id}`,
+          ...(secondary ? [`Secondary focus: ${secondary.theme_id}`] : []),
+          ...(snapshot ? highlights : ["No snapshot found; coaching is plan-driven."]),
+          ...ctx.trendCallouts.slice(0, 1),
+          ...(ctx.estimatedMetrics.length
+            ? ["Some distances this session were estimated from launch data, so treat them as approximate."]
+            : []),
+          ...(ctx.lowQuality
+            ? [`Data quality was low (${Math.round(ctx.qualityScore as number)}/100); check the flagged shots before reading into the numbers.`]
+            : []),
+        ],
+        what_this_supports:
+          primary.why_it_matters ||
+          primary.rationale ||
+          "This supports the current plan focus and provides direction for next practice.",
+        next_session_focus:
+          "Repeat the key drill(s) for the primary theme and log a short journal note on what changed versus last time.",
+        plan_status: "aligned",
+      },
+      evidence: {
+        primary_theme: primary.theme_id,
+        secondary_theme: secondary?.theme_id ?? null,
+        metrics_used: metricsUsed.length ? metricsUsed : undefined,
+        note: snapshot ? "Uses latest session snapshot + active plan themes." : "Uses active plan themes.",
+        history_window: ctx.trends?.history_window,
+        trend_callouts: ctx.trendCallouts.length ? ctx.trendCallouts : undefined,
+        estimated_metrics: ctx.estimatedMetrics.length ? ctx.estimatedMetrics : undefined,
+        data_quality_score: ctx.qualityScore ?? undefined,
+      },
+    };
+  },
+
+  prompt_id: "sessioncoach",
+
+  promptVariables(ctx, baseline) {
+    return {
+      session_id: ctx.inputs.session_id,
+      client_id: ctx.inputs.client_id,
+      plan_id: ctx.plan_version_id,
+      primary_theme: {
+        theme_id: ctx.primary.theme_id,
+        rationale: ctx.primary.rationale ?? null,
+        why_it_matters: ctx.primary.why_it_matters ?? null,
+        progress_metrics: Array.isArray(ctx.primary.progress_metrics) ? ctx.primary.progress_metrics : [],
+      },
+      secondary_theme: ctx.secondary ? { theme_id: ctx.secondary.theme_id } : null,
+      latest_snapshot: ctx.snapshot,
+      trend_callouts: ctx.trendCallouts,
+      estimated_metrics: ctx.estimatedMetrics,
+      baseline: baseline?.display ?? null,
+    };
+  },
+
+  validate(parsed, _ctx, baseline) {
+    if (!baseline) return { ok: false, error: "missing_baseline" };
+    // Older prompts nested the keys under display
+    const src = isJsonObject(parsed.display) ? parsed.display : parsed;
+
+    const session_summary = clampString(src.session_summary, 1200);
+    const what_this_supports = clampString(src.what_this_supports, 1200);
+    const next_session_focus = clampString(src.next_session_focus, 1200);
+    const stood = readCitedList(src.what_stood_out, "/display/what_stood_out", 6);
+    const what_stood_out = stood.items;
+    const plan_status = PLAN_STATUSES.find((s) => s === src.plan_status) ?? null;
+
+    const missing = [
+      !session_summary && "/session_summary must be a non-empty string",
+      !what_stood_out.length && "/what_stood_out must be a non-empty array of strings",
+      !what_this_supports && "/what_this_supports must be a non-empty string",
+      !next_session_focus && "/next_session_focus must be a non-empty string",
+      !plan_status && "/plan_status must be one of: aligned, neutral, review_needed",
+    ].filter((x): x is string => !!x);
+    if (!session_summary || !what_this_supports || !next_session_focus || !what_stood_out.length || !plan_status) {
+      return { ok: false, error: "ai_output_invalid", details: missing };
+    }
+
+    return {
+      ok: true,
+      output: {
+        ...baseline,
+        created_at: nowIso(),
+        display: {
+          ...baseline.display,
+          subtitle: "AI",
+          session_summary,
+          what_stood_out,
+          what_this_supports,
+          next_session_focus,
+          plan_status,
+        },
+        // As claimed; ground() keeps the ones that check out
+        evidence: { ...baseline.evidence, citations: stood.claimed.length ? stood.claimed : undefined },
+      },
+    };
+  },
+
+  // Descriptive fields only; next_session_focus prescribes numbers rather than reporting them
+  ground(output, ctx) {
+    const facts = trendFacts(ctx.trends?.callouts ?? [], snapshotFacts(ctx.snapshot));
+    if (ctx.qualityScore !== null) facts.set("data_quality_score", ctx.qualityScore);
+
+    const g = createGrounder(facts, output.evidence.citations ?? []);
+    const d = output.display;
+    const display = {
+      ...d,
+      session_summary: g.text("/display/session_summary", d.session_summary) ?? "",
+      what_stood_out: g.list("/display/what_stood_out", d.what_stood_out),
+      what_this_supports: g.text("/display/what_this_supports", d.what_this_supports) ?? "",
+    };
+
+    return {
+      output: { ...output, display, evidence: { ...output.evidence, citations: g.citations.length ? g.citations : undefined } },
+      report: g.report,
+    };
+  },
+
+  stamp(output, meta) {
+    return {
+      ...output,
+      metadata: {
+        generated_by: meta.generated_by,
+        model: meta.model ?? undefined,
+        latency_ms: meta.latency_ms ?? undefined,
+        ai_error: meta.ai_error ?? undefined,
+        request_id: meta.request_id,
+        route: meta.route,
+      },
+    };
+  },
+};
@@ -0,0 +1,215 @@
+// lib/engine/coaching/outputs/sessioncoachStrict.ts
+// sessioncoach_strict_v1: model-written session coaching held to a fixed JSON schema (theme enum, metric registry,
+// evidence with values against a rolling 5-session baseline). No deterministic fallback; output that fails the schema
+// or names a theme outside the active plan (after repair turns) fails the run. The schema is closed, so its evidence
+// (metrics_used value / baseline) is the citation: both are checked against the session and baseline stats.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { SNAPSHOT_METRIC_IDS, type SnapshotMetricId } from "@/lib/metrics/snapshot";
+import { isJsonObject, nowIso, sha256Hex, stableStringify, type JsonObject } from "../shared";
+import { createGrounder, snapshotFacts, type GroundingFacts } from "../grounding";
+import type { CoachingInputs, CoachingOutputSpec } from "../pipeline";
+import { validateCoachingContent, type ThemeId } from "../schemas";
+
+export type SessionCoachStrictV1 = {
+  session_id: string;
+  client_id: string;
+  plan_id: string;
+  created_at: string;
+  display: {
+    session_summary: string;
+    what_stood_out: string[];
+    what_this_supports: string;
+    next_session_focus: string;
+    plan_status: "aligned" | "neutral" | "review_needed";
+  };
+  metadata: {
+    primary_theme: ThemeId;
+    secondary_theme: ThemeId | null;
+    confidence_delta: "up" | "flat" | "down";
+    plan_alignment: "aligned" | "neutral" | "review_needed";
+    evidence: Array<{
+      theme_id: ThemeId;
+      signal: "positive" | "neutral" | "negative";
+      metrics_used: Array<{
+        metric_id: SnapshotMetricId;
+        value: number;
+        baseline: number | null;
+        unit: string;
+      }>;
+      note: string;
+    }>;
+  };
+  schema_version: "sessioncoach_strict_v1";
+};
+
+type StrictContext = {
+  inputs: CoachingInputs;
+  plan_version_id: string;
+  plan_id: string;
+  prompt_inputs: JsonObject;
+  plan_theme_ids: Set<string>;
+};
+
+// Rolling baseline: snapshots of the client's last 5 other sessions
+async function loadBaselineStats(sb: SupabaseClient, client_id: string, session_id: string): Promise<unknown[]> {
+  const recentSessionsQ = await sb
+    .from("sessions")
+    .select("id, created_at")
+    .eq("client_id", client_id)
+    .order("created_at", { ascending: false })
+    .limit(6);
+
+  const recentIds = (recentSessionsQ.data ?? [])
+    .map((r) => (typeof r.id === "string" ? r.id : null))
+    .filter((v): v is string => Boolean(v))
+    .filter((id) => id !== session_id)
+    .slice(0, 5);
+  if (!recentIds.length) return [];
+
+  const baselineQ = await sb.from("session_stats").select("session_id, stats_json").in("session_id", recentIds);
+  return (baselineQ.data ?? [])
+    .map((r) => (r as { stats_json?: unknown }).stats_json)
+    .filter((v): v is unknown => v !== undefined);
+}
+
+// Rolling-baseline means of the registry metrics, under baseline.<metric_id> (what metrics_used[].baseline cites)
+function baselineFacts(baselineStats: unknown[], facts: GroundingFacts): GroundingFacts {
+  for (const id of SNAPSHOT_METRIC_IDS) {
+    const values = baselineStats
+      .map((s) => (isJsonObject(s) && isJsonObject(s.metrics) ? s.metrics[id] : null))
+      .filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+    if (values.length) facts.set(`baseline.${id}`, values.reduce((a, b) => a + b, 0) / values.length);
+  }
+  return facts;
+}
+
+export const sessionCoachStrictOutput: CoachingOutputSpec<StrictContext, SessionCoachStrictV1> = {
+  id: "sessioncoach_strict",
+  schema_version: "sessioncoach_strict_v1",
+  requires: { snapshot: true, plan: ["plan3m_v1.1", "plan3m_v1"] },
+  ai: "required",
+  cache: true,
+  publish: true,
+  summary: false,
+
+  async context(sb, inputs) {
+    const plan = inputs.plan as NonNullable<CoachingInputs["plan"]>;
+    const snapshot = inputs.snapshot as NonNullable<CoachingInputs["snapshot"]>;
+    const baselineStats = await loadBaselineStats(sb, inputs.client_id, inputs.session_id);
+
+    return {
+      inputs,
+      plan_version_id: plan.version_id,
+      plan_id: plan.plan_id,
+      plan_theme_ids: new Set(plan.themes.map((t) => t.theme_id)),
+      prompt_inputs: {
+        schema_version: "sessioncoach_strict_v1",
+        session_id: inputs.session_id,
+        client_id: inputs.client_id,
+        plan_version_id: plan.version_id,
+        plan_id: plan.plan_id,
+        snapshot_hash: snapshot.data_hash,
+        session_stats: snapshot.stats_json,
+        baseline_stats: baselineStats,
+        plan_themes: plan.themes,
+      },
+    };
+  },
+
+  inputHash(ctx) {
+    return sha256Hex(stableStringify(ctx.prompt_inputs));
+  },
+
+  baseline() {
+    return null;
+  },
+
+  prompt_id: "sessioncoach_strict",
+
+  promptVariables(ctx) {
+    const p = ctx.prompt_inputs;
+    return {
+      request_meta: {
+        session_id: p.session_id,
+        client_id: p.client_id,
+        plan_id: p.plan_id,
+        plan_version_id: p.plan_version_id,
+      },
+      session_stats: p.session_stats,
+      baseline_stats: p.baseline_stats,
+      active_plan_themes: p.plan_themes,
+    };
+  },
+
+  validate(parsed, ctx) {
+    // Force authoritative ids (prevents drift)
+    const candidate = {
+      ...parsed,
+      session_id: ctx.inputs.session_id,
+      client_id: ctx.inputs.client_id,
+      plan_id: ctx.plan_id,
+      created_at: nowIso(),
+      schema_version: "sessioncoach_strict_v1",
+    };
+    const schema = validateCoachingContent(candidate, "sessioncoach_strict_v1");
+    if (!schema.ok) return { ok: false, error: "schema_invalid", details: schema.errors };
+
+    // Cross-object constraint: themes subset of plan themes
+    const out = candidate as unknown as SessionCoachStrictV1;
+    const allowed = [...ctx.plan_theme_ids].join(", ");
+    if (!ctx.plan_theme_ids.has(out.metadata.primary_theme)) {
+      return { ok: false, error: "primary_theme_not_in_plan", details: [`/metadata/primary_theme must be one of: ${allowed}`] };
+    }
+    if (out.metadata.secondary_theme && !ctx.plan_theme_ids.has(out.metadata.secondary_theme)) {
+      return {
+        ok: false,
+        error: "secondary_theme_not_in_plan",
+        details: [`/metadata/secondary_theme must be null or one of: ${allowed}`],
+      };
+    }
+    return { ok: true, output: out };
+  },
+
+  // Evidence values first (an entry whose value or baseline is off is dropped), then the prose that reports on them
+  ground(output, ctx) {
+    const p = ctx.prompt_inputs;
+    const stats = isJsonObject(p.session_stats) ? p.session_stats : null;
+    const facts = baselineFacts(Array.isArray(p.baseline_stats) ? p.baseline_stats : [], snapshotFacts(stats));
+    const g = createGrounder(facts);
+
+    const evidence = output.metadata.evidence.map((e, i) => {
+      const at = `/metadata/evidence/${i}`;
+      const metrics_used = e.metrics_used.filter((m, k) => {
+        const value = g.citation(`${at}/metrics_used/${k}/value`, m.metric_id, m.value);
+        const base = m.baseline === null || g.citation(`${at}/metrics_used/${k}/baseline`, `baseline.${m.metric_id}`, m.baseline);
+        return value && base;
+      });
+      return { ...e, metrics_used, note: g.text(`${at}/note`, e.note) ?? "" };
+    });
+
+    const d = output.display;
+    return {
+      output: {
+        ...output,
+        display: {
+          ...d,
+          session_summary: g.text("/display/session_summary", d.session_summary) ?? "",
+          what_stood_out: g.list("/display/what_stood_out", d.what_stood_out),
+          what_this_supports: g.text("/display/what_this_supports", d.what_this_supports) ?? "",
+        },
+        metadata: { ...output.metadata, evidence },
+      },
+      report: g.report,
+    };
+  },
+
+  // The schema is closed (additionalProperties: false), so run metadata stays on the rows, not in the output
+  stamp(output) {
+    return output;
+  },
+
+  inputJson(ctx) {
+    return ctx.prompt_inputs;
+  },
+};
@@ -0,0 +1,202 @@
+// lib/engine/coaching/outputs/summary.ts
+// coaching_summary_v1: the longer model-written coaching (summary, priorities, drills, next-session targets) plus its
+// markdown rendering for coaching_summary. Model-only; continuity comes from the client's last published coaching.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { clampString, clampStrings, isJsonObject, type JsonObject } from "../shared";
+import { createGrounder, readCitation, snapshotFacts, type MetricCitation } from "../grounding";
+import type { CoachingInputs, CoachingOutputSpec } from "../pipeline";
+
+export { INTERNAL_COACHING_GENERATE_TEMPERATURE } from "../prompts/coachingSummary";
+
+export type CoachingSummaryV1 = {
+  schema_version: "coaching_summary_v1";
+  summary: string;
+  priorities: Array<{ title: string; why: string }>;
+  drills: Array<{
+    name: string;
+    steps: string[];
+    reps: string;
+    frequency: string;
+    success_metric: string;
+  }>;
+  next_session_targets: Array<{ target: string; measure: string }>;
+  citations?: MetricCitation[]; // input values behind the claims in summary and priorities[].why
+  metadata?: { generated_by: "ai"; model?: string; request_id?: string; route?: string };
+};
+
+type SummaryContext = {
+  inputs: CoachingInputs;
+  snapshot_hash: string;
+  input_json: JsonObject;
+};
+
+async function loadPreviousPublished(sb: SupabaseClient, client_id: string, session_id: string) {
+  const q = await sb
+    .from("session_coaching")
+    .select("session_id, snapshot_hash, coaching_version, output_json, created_at")
+    .eq("client_id", client_id)
+    .eq("is_published", true)
+    .neq("session_id", session_id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return q.error ? null : (q.data as JsonObject | null);
+}
+
+// Up to 6 well-formed items (the coaching_summary_v1 cap); malformed ones are dropped
+function readItems<T>(v: unknown, pick: (o: JsonObject) => T | null): T[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .map((x) => (isJsonObject(x) ? pick(x) : null))
+    .filter((x): x is T => x !== null)
+    .slice(0, 6);
+}
+
+export const coachingSummaryOutput: CoachingOutputSpec<SummaryContext, CoachingSummaryV1> = {
+  id: "coaching_summary",
+  schema_version: "coaching_summary_v1",
+  requires: { snapshot: true, plan: null },
+  ai: "required",
+  cache: true,
+  publish: true,
+  summary: true,
+
+  async context(sb, inputs) {
+    const snapshot = inputs.snapshot as NonNullable<CoachingInputs["snapshot"]>;
+    const prev = await loadPreviousPublished(sb, inputs.client_id, inputs.session_id);
+
+    return {
+      inputs,
+      snapshot_hash: snapshot.data_hash ?? "",
+      input_json: {
+        session_id: inputs.session_id,
+        client_id: inputs.client_id,
+        snapshot_hash: snapshot.data_hash,
+        stats_json: snapshot.stats_json,
+        previous_published_coaching: prev,
+      },
+    };
+  },
+
+  // Same snapshot -> same coaching; the previous session's coaching is context, not a cache key
+  inputHash(ctx) {
+    return ctx.snapshot_hash;
+  },
+
+  baseline() {
+    return null;
+  },
+
+  prompt_id: "coaching_summary",
+
+  promptVariables(ctx) {
+    return { context: JSON.stringify(ctx.input_json, null, 2) };
+  },
+
+  validate(parsed) {
+    const summary = clampString(parsed.summary, 2000);
+    const cited = readItems(parsed.priorities, (o) => {
+      const title = clampString(o.title);
+      const why = clampString(o.why);
+      return title && why ? { priority: { title, why }, citation: readCitation(o, "") } : null;
+    });
+    const priorities = cited.map((c) => c.priority);
+    const citations = cited.flatMap((c, i) => (c.citation ? [{ ...c.citation, path: `/priorities/${i}/why` }] : []));
+    const drills = readItems(parsed.drills, (o) => {
+      const name = clampString(o.name);
+      const steps = clampStrings(o.steps, 10, 800);
+      if (!name || !steps.length) return null;
+      return {
+        name,
+        steps,
+        reps: clampString(o.reps) ?? "",
+        frequency: clampString(o.frequency) ?? "",
+        success_metric: clampString(o.success_metric) ?? "",
+      };
+    });
+    const next_session_targets = readItems(parsed.next_session_targets, (o) => {
+      const target = clampString(o.target);
+      return target ? { target, measure: clampString(o.measure) ?? "" } : null;
+    });
+
+    if (!summary || !priorities.length || !drills.length || !next_session_targets.length) {
+      const details = [
+        !summary && "/summary must be a non-empty string",
+        !priorities.length && "/priorities must hold { title, why } items",
+        !drills.length && "/drills must hold { name, steps[], reps, frequency, success_metric } items",
+        !next_session_targets.length && "/next_session_targets must hold { target, measure } items",
+      ].filter((x): x is string => !!x);
+      return { ok: false, error: "ai_output_invalid", details };
+    }
+    return {
+      ok: true,
+      output: {
+        schema_version: "coaching_summary_v1",
+        summary,
+        priorities,
+        drills,
+        next_session_targets,
+        // As claimed; ground() keeps the ones that check out
+        citations: citations.length ? citations : undefined,
+      },
+    };
+  },
+
+  // Summary and priorities report on the session; drills and targets prescribe numbers, so they are left alone
+  ground(output, ctx) {
+    const g = createGrounder(snapshotFacts(ctx.inputs.snapshot?.stats_json), output.citations ?? []);
+    const priorities: CoachingSummaryV1["priorities"] = [];
+    output.priorities.forEach((p, i) => {
+      const why = g.text(`/priorities/${priorities.length}/why`, p.why, `/priorities/${i}/why`);
+      if (why) priorities.push({ ...p, why });
+    });
+
+    return {
+      output: {
+        ...output,
+        summary: g.text("/summary", output.summary) ?? "",
+        priorities,
+        citations: g.citations.length ? g.citations : undefined,
+      },
+      report: g.report,
+    };
+  },
+
+  stamp(output, meta) {
+    return {
+      ...output,
+      metadata: { generated_by: "ai", model: meta.model ?? undefined, request_id: meta.request_id, route: meta.route },
+    };
+  },
+
+  render(c) {
+    return [
+      `# Coaching`,
+      ``,
+      `## Summary`,
+      c.summary,
+      ``,
+      `## Priorities`,
+      ...c.priorities.map((p) => `- **${p.title}** — ${p.why}`),
+      ``,
+      `## Drills`,
+      ...c.drills.flatMap((d) => [
+        `### ${d.name}`,
+        `- Frequency: ${d.frequency}`,
+        `- Reps: ${d.reps}`,
+        `- Success metric: ${d.success_metric}`,
+        `- Steps:`,
+        ...d.steps.map((s) => `  - ${s}`),
+        ``,
+      ]),
+      `## Next session targets`,
+      ...c.next_session_targets.map((t) => `- **${t.target}** — ${t.measure}`),
+      ``,
+    ].join("\n");
+  },
+
+  inputJson(ctx) {
+    return ctx.input_json;
+  },
+};
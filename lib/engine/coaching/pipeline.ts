@@ -0,0 +1,516 @@
+// lib/engine/coaching/pipeline.ts
+// The coaching pipeline every generator runs:
+//   load inputs -> build context -> cache -> deterministic baseline -> optional LLM -> validate -> persist -> telemetry
+// What differs between outputs (context, prompt variables, validation, rendering) lives in an output spec
+// (lib/engine/coaching/outputs); the prompt text is a versioned template (lib/engine/coaching/prompts), assigned per
+// client and recorded with the run. Loading, persistence and telemetry are the same for all outputs, so every output
+// writes the same row shapes to coaching_versions, session_coaching and coaching_summary. Nothing is written that
+// fails the schema registered for its schema_version (lib/engine/coaching/schemas), and model-written numbers must
+// match the inputs (lib/engine/coaching/grounding.ts).
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { completionCostUsd } from "@/lib/ai/provider";
+import { claimPolicy, unsupportedClaimErrors, type GroundingReport } from "./grounding";
+import { completeCheckedJson, llmUnavailable, type JsonCompletion } from "./llm";
+import {
+  assignPrompt,
+  renderPrompt,
+  type PromptId,
+  type PromptRef,
+  type PromptVariables,
+  type RenderedPrompt,
+} from "./prompts";
+import { validateCoachingContent, type CoachingSchemaVersion } from "./schemas";
+import {
+  getServiceSupabase,
+  isJsonObject,
+  nextVersionIndex,
+  nowIso,
+  sha256Hex,
+  stableStringify,
+  type JsonObject,
+} from "./shared";
+
+export const COACHING_REASONS = ["initial", "data_change", "manual_regen"] as const;
+export type CoachingReason = (typeof COACHING_REASONS)[number];
+
+export class CoachingError extends Error {
+  constructor(public status: number, public code: string, detail?: string) {
+    super(detail ?? code);
+  }
+}
+
+export type PlanTheme = {
+  theme_id: string;
+  priority?: number;
+  rationale?: string;
+  why_it_matters?: string;
+  progress_metrics?: Array<{ metric_id?: string; direction?: string; target_hint?: string }>;
+  confidence?: number;
+  confidence_label?: string;
+};
+
+export type ActivePlan3m = {
+  version_id: string; // coaching_versions.id the client_active_plans pointer holds
+  plan_id: string; // content_json.plan_id, else version_id
+  schema_version: string;
+  themes: PlanTheme[];
+  content_json: JsonObject;
+};
+
+export type CoachingInputs = {
+  session_id: string;
+  client_id: string;
+  session_date: string | null; // YYYY-MM-DD practice date; trends are read as of this day
+  snapshot: { stats_json: JsonObject; data_hash: string | null } | null;
+  plan: ActivePlan3m | null;
+};
+
+export type CoachingRun = {
+  session_id: string;
+  client_id?: string | null; // checked against the session's owner when given
+  reason?: string | null;
+  force?: boolean; // skip the cache
+  request_id: string;
+  route: string; // telemetry label of the caller
+};
+
+export type GeneratedBy = "ai" | "deterministic";
+
+export type RunMeta = {
+  generated_by: GeneratedBy;
+  model: string | null;
+  latency_ms: number | null;
+  ai_error: string | null;
+  request_id: string;
+  route: string;
+};
+
+export type ValidationResult<O> = { ok: true; output: O } | { ok: false; error: string; details?: string[] };
+
+export type CoachingOutputSpec<C, O> = {
+  id: string; // registry key
+  schema_version: CoachingSchemaVersion; // content_json.schema_version of what this spec writes
+  requires: {
+    snapshot: boolean; // false = coaching still runs (plan-driven) without a session_stats snapshot
+    plan: readonly string[] | null; // accepted active plan3m schema versions; null = no plan needed
+  };
+  // required: no deterministic fallback, a failed model call fails the run. optional: COACHING_USE_AI=true only
+  ai: "required" | "optional";
+  cache: boolean; // reuse the latest version with the same input hash unless forced
+  publish: boolean; // upsert the client-facing session_coaching row
+  summary: boolean; // upsert coaching_summary (markdown cache)
+  context(sb: SupabaseClient, inputs: CoachingInputs): Promise<C>;
+  inputHash(ctx: C): string; // the pipeline folds in the assigned prompt template before using it as data_hash
+  skipAi?(ctx: C): string | null; // reason to stay deterministic for this run
+  baseline(ctx: C): O | null; // null only when ai = "required"
+  prompt_id: PromptId; // template in the prompt registry; the version is assigned per client
+  promptVariables(ctx: C, baseline: O | null): PromptVariables;
+  validate(parsed: JsonObject, ctx: C, baseline: O | null): ValidationResult<O>;
+  // Check the model's numeric claims against the inputs: unsupported ones stripped, supported ones cited
+  ground?(output: O, ctx: C): { output: O; report: GroundingReport };
+  stamp(output: O, meta: RunMeta): O; // write run metadata into the output
+  render?(output: O): string | null; // content_md
+  inputJson?(ctx: C): unknown; // session_coaching.input_json; defaults to the snapshot
+};
+
+export type CoachingResult<O> =
+  | {
+      ok: true;
+      request_id: string;
+      session_id: string;
+      client_id: string;
+      cached: boolean;
+      output: O;
+      content_md: string | null;
+      version_id: string | null;
+      version_index: number;
+      reason: string;
+      generated_by: GeneratedBy | null; // null on a cache hit
+      meta: RunMeta | null;
+      plan_version_id: string | null;
+      duration_ms: number;
+    }
+  | { ok: false; request_id: string; status: number; error: string; message: string };
+
+type VersionRow = {
+  id: string;
+  version_index: number;
+  reason: string | null;
+  content_json: unknown;
+  content_md: string | null;
+  generated_by: string | null;
+  created_at: string | null;
+};
+
+function readThemes(content: JsonObject): PlanTheme[] {
+  // v1.1 keeps themes at the root; older shapes nest them
+  const candidates = [content.themes, (content.plan as JsonObject | undefined)?.themes, (content.content_json as JsonObject | undefined)?.themes];
+  for (const c of candidates) {
+    if (Array.isArray(c) && c.length) {
+      return c.filter((t): t is PlanTheme => isJsonObject(t) && typeof t.theme_id === "string");
+    }
+  }
+  return [];
+}
+
+async function loadInputs(sb: SupabaseClient, requires: CoachingOutputSpec<unknown, unknown>["requires"], run: CoachingRun): Promise<CoachingInputs> {
+  const sess = await sb.from("sessions").select("client_id, session_date").eq("id", run.session_id).maybeSingle();
+  const owner = (sess.data as { client_id?: unknown } | null)?.client_id;
+  const sessionDate = (sess.data as { session_date?: unknown } | null)?.session_date;
+  if (sess.error || typeof owner !== "string" || (run.client_id && run.client_id !== owner)) {
+    throw new CoachingError(404, "session_not_found", "session not found");
+  }
+
+  const statsQ = await sb
+    .from("session_stats")
+    .select("stats_json, data_hash, created_at")
+    .eq("session_id", run.session_id)
+    .eq("stat_type", "snapshot")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (statsQ.error) throw new CoachingError(500, "stats_lookup_failed", statsQ.error.message);
+
+  const statsRow = statsQ.data as { stats_json?: unknown; data_hash?: unknown } | null;
+  const snapshot = isJsonObject(statsRow?.stats_json)
+    ? { stats_json: statsRow.stats_json, data_hash: typeof statsRow?.data_hash === "string" ? statsRow.data_hash : null }
+    : null;
+  if (requires.snapshot && !snapshot) throw new CoachingError(404, "stats_missing", "session_stats not found");
+
+  let plan: ActivePlan3m | null = null;
+  if (requires.plan) {
+    const ptr = await sb.from("client_active_plans").select("active_plan3m_id").eq("client_id", owner).maybeSingle();
+    const versionId = (ptr.data as { active_plan3m_id?: unknown } | null)?.active_plan3m_id;
+    if (ptr.error || typeof versionId !== "string" || !versionId) {
+      throw new CoachingError(409, "no_active_plan", "No active 3-month plan. Create/activate plan3m_v1.1 first.");
+    }
+
+    const planQ = await sb.from("coaching_versions").select("id, content_json").eq("id", versionId).maybeSingle();
+    const content = (planQ.data as { content_json?: unknown } | null)?.content_json;
+    if (planQ.error || !isJsonObject(content)) throw new CoachingError(404, "plan_not_found", "active plan not found");
+
+    const schema = typeof content.schema_version === "string" ? content.schema_version : "";
+    if (!requires.plan.includes(schema)) {
+      throw new CoachingError(
+        409,
+        "plan_schema_unsupported",
+        `active plan schema_version must be ${requires.plan.join(" or ")} (got ${schema || "null"})`
+      );
+    }
+
+    plan = {
+      version_id: versionId,
+      plan_id: typeof content.plan_id === "string" ? content.plan_id : versionId,
+      schema_version: schema,
+      themes: readThemes(content),
+      content_json: content,
+    };
+  }
+
+  return {
+    session_id: run.session_id,
+    client_id: owner,
+    session_date: typeof sessionDate === "string" ? sessionDate.slice(0, 10) : null,
+    snapshot,
+    plan,
+  };
+}
+
+async function findCachedVersion(sb: SupabaseClient, inputs: CoachingInputs, schemaVersion: string, inputHash: string) {
+  const q = await sb
+    .from("coaching_versions")
+    .select("id, version_index, reason, content_json, content_md, generated_by, created_at")
+    .eq("client_id", inputs.client_id)
+    .eq("session_id", inputs.session_id)
+    .eq("data_hash", inputHash)
+    .order("version_index", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const row = q.data as VersionRow | null;
+  if (q.error || !row || !isJsonObject(row.content_json) || row.content_json.schema_version !== schemaVersion) return null;
+  return row;
+}
+
+async function writeTelemetry(sb: SupabaseClient | null, row: JsonObject) {
+  try {
+    await sb?.from("coaching_telemetry").insert(row);
+  } catch {
+    // never break the run
+  }
+}
+
+function resolveReason(run: CoachingRun, hasVersions: boolean): CoachingReason {
+  if (run.force) return "manual_regen";
+  const asked = (COACHING_REASONS as readonly string[]).includes(run.reason ?? "") ? (run.reason as CoachingReason) : null;
+  return asked ?? (hasVersions ? "data_change" : "initial");
+}
+
+// Client-facing rows: one session_coaching row per session (published), one coaching_summary row per session
+async function publishRows(
+  sb: SupabaseClient,
+  spec: CoachingOutputSpec<unknown, unknown>,
+  inputs: CoachingInputs,
+  row: {
+    input_hash: string;
+    version_index: number;
+    output: unknown;
+    content_md: string | null;
+    prompt_hash: string;
+    model: string | null;
+    temperature: number | null;
+    prompt: PromptRef | null; // the template behind an AI output
+    input_json: unknown;
+  }
+) {
+  if (spec.publish) {
+    const up = await sb.from("session_coaching").upsert(
+      {
+        session_id: inputs.session_id,
+        client_id: inputs.client_id,
+        snapshot_hash: inputs.snapshot?.data_hash ?? row.input_hash,
+        data_hash: row.input_hash,
+        coaching_version: row.version_index,
+        is_published: true,
+        prompt_hash: row.prompt_hash,
+        model: row.model,
+        temperature: row.temperature,
+        prompt_id: row.prompt?.id ?? null,
+        prompt_version: row.prompt?.version ?? null,
+        prompt_experiment: row.prompt?.experiment ?? null,
+        input_json: row.input_json,
+        output_json: row.output,
+        schema_version: spec.schema_version,
+        status: "ready",
+        error: null,
+        created_at: nowIso(),
+      },
+      { onConflict: "session_id" }
+    );
+    if (up.error) throw new CoachingError(500, "persist_failed", `session_coaching upsert failed: ${up.error.message}`);
+  }
+
+  if (spec.summary) {
+    const up = await sb.from("coaching_summary").upsert({
+      client_id: inputs.client_id,
+      session_id: inputs.session_id,
+      version_index: row.version_index,
+      data_hash: row.input_hash,
+      schema_version: spec.schema_version,
+      content_json: row.output,
+      content_md: row.content_md,
+    });
+    if (up.error) throw new CoachingError(500, "persist_failed", `coaching_summary upsert failed: ${up.error.message}`);
+  }
+}
+
+/** Run one coaching output for one session. Never throws; failures come back as { ok: false, status, error }. */
+export async function runCoachingPipeline<C, O>(
+  spec: CoachingOutputSpec<C, O>,
+  run: CoachingRun,
+  supabase?: SupabaseClient
+): Promise<CoachingResult<O>> {
+  const t0 = Date.now();
+  const anySpec = spec as unknown as CoachingOutputSpec<unknown, unknown>;
+  let sb: SupabaseClient | null = supabase ?? null;
+  let client_id: string | null = run.client_id ?? null;
+  let template: PromptRef | null = null; // the prompt behind this run's output, once there is one
+
+  const telemetry = (row: JsonObject) =>
+    writeTelemetry(sb, {
+      request_id: run.request_id,
+      route: run.route,
+      client_id,
+      session_id: run.session_id,
+      schema_version: spec.schema_version,
+      duration_ms: Date.now() - t0,
+      prompt_id: template?.id ?? null,
+      prompt_version: template?.version ?? null,
+      prompt_experiment: template?.experiment ?? null,
+      ...row,
+    });
+
+  try {
+    sb = sb ?? getServiceSupabase();
+
+    // 1) Inputs + context
+    const inputs = await loadInputs(sb, spec.requires, run);
+    client_id = inputs.client_id;
+    const ctx = await spec.context(sb, inputs);
+    // The assigned template is part of the cache key: a client moved to another arm gets coaching from that arm
+    const assigned = assignPrompt(spec.prompt_id, inputs.client_id);
+    const input_hash = sha256Hex(
+      stableStringify({ inputs: spec.inputHash(ctx), prompt: `${assigned.id}@${assigned.version}` })
+    );
+    const input_json = spec.inputJson ? spec.inputJson(ctx) : inputs.snapshot?.stats_json ?? null;
+
+    // 2) Cache: same inputs, same output schema -> the version already written (its rows were published then)
+    if (spec.cache && !run.force) {
+      const hit = await findCachedVersion(sb, inputs, spec.schema_version, input_hash);
+      if (hit) {
+        if (hit.generated_by === "ai") template = assigned;
+        await telemetry({ cache_status: "hit", status: "ok" });
+        return {
+          ok: true,
+          request_id: run.request_id,
+          session_id: inputs.session_id,
+          client_id: inputs.client_id,
+          cached: true,
+          output: hit.content_json as O,
+          content_md: hit.content_md,
+          version_id: hit.id,
+          version_index: hit.version_index,
+          reason: hit.reason ?? "initial",
+          generated_by: null,
+          meta: null,
+          plan_version_id: inputs.plan?.version_id ?? null,
+          duration_ms: Date.now() - t0,
+        };
+      }
+    }
+
+    // 3) Deterministic baseline, then the model when this output and this run allow it
+    const baseline = spec.baseline(ctx);
+    const optionalOff = spec.ai === "optional" && (process.env.COACHING_USE_AI || "").toLowerCase() !== "true";
+    const skip = (optionalOff ? "ai_disabled" : null) ?? spec.skipAi?.(ctx) ?? llmUnavailable();
+    if (spec.ai === "required" && skip) throw new CoachingError(500, skip);
+
+    let output: O | null = null;
+    let prompt: RenderedPrompt | null = null;
+    let completion: JsonCompletion | null = null;
+    let ai_error: string | null = skip;
+    let repair_attempts = 0;
+    let grounding: GroundingReport | null = null;
+
+    if (!skip) {
+      template = assigned;
+      prompt = renderPrompt(template, spec.promptVariables(ctx, baseline));
+      try {
+        // The spec's own checks, claim grounding, then the registered schema; any failing earns a repair turn.
+        // Unsupported claims fail the check only under COACHING_CLAIM_POLICY=reject; otherwise they are stripped.
+        const checked = await completeCheckedJson(prompt, (parsed) => {
+          const v = spec.validate(parsed, ctx, baseline);
+          if (!v.ok) return { ok: false, errors: v.details?.length ? v.details : [v.error] };
+          let value = v.output;
+          let stripped: string[] = [];
+          if (spec.ground) {
+            const g = spec.ground(value, ctx);
+            grounding = g.report;
+            stripped = unsupportedClaimErrors(g.report);
+            if (stripped.length && claimPolicy() === "reject") return { ok: false, errors: stripped };
+            value = g.output;
+          }
+          // A field stripped down to nothing fails the schema; the repair turn says which claims went
+          const schema = validateCoachingContent(value, spec.schema_version);
+          return schema.ok ? { ok: true, value } : { ok: false, errors: [...schema.errors, ...stripped] };
+        });
+        completion = checked.completion;
+        repair_attempts = checked.repair_attempts;
+        output = checked.value;
+        if (!output) ai_error = `ai_output_invalid: ${checked.errors.slice(0, 3).join("; ")}`.slice(0, 300);
+      } catch (e: unknown) {
+        ai_error = e instanceof Error && e.name === "AbortError" ? "ai_timeout" : e instanceof Error ? e.message : String(e);
+      }
+      if (!output && spec.ai === "required") throw new CoachingError(502, "ai_output_invalid", ai_error ?? undefined);
+    }
+
+    if (!output && !baseline) throw new CoachingError(500, "no_output", "output spec produced no baseline");
+    const meta: RunMeta = {
+      generated_by: output ? "ai" : "deterministic",
+      model: output ? completion?.model ?? prompt?.model ?? null : null,
+      latency_ms: completion?.latency_ms ?? null,
+      ai_error,
+      request_id: run.request_id,
+      route: run.route,
+    };
+    const final = spec.stamp((output ?? baseline) as O, meta);
+    const content_md = spec.render?.(final) ?? null;
+
+    // Write-time gate: the stamped document (AI or baseline) must match its registered schema
+    const schemaCheck = validateCoachingContent(final, spec.schema_version);
+    if (!schemaCheck.ok) throw new CoachingError(500, "output_schema_invalid", schemaCheck.errors.join("; "));
+
+    // 4) Persist: append-only version, then the client-facing rows
+    const version_index = await nextVersionIndex(sb, inputs.client_id, inputs.session_id);
+    const reason = resolveReason(run, version_index > 1);
+    const ins = await sb
+      .from("coaching_versions")
+      .insert({
+        client_id: inputs.client_id,
+        session_id: inputs.session_id,
+        version_index,
+        reason,
+        data_hash: input_hash,
+        schema_version: spec.schema_version,
+        content_json: final,
+        content_md,
+        generated_by: meta.generated_by,
+      })
+      .select("id")
+      .single();
+    if (ins.error) throw new CoachingError(500, "persist_failed", `coaching_versions insert failed: ${ins.error.message}`);
+
+    await publishRows(sb, anySpec, inputs, {
+      input_hash,
+      version_index,
+      output: final,
+      content_md,
+      prompt_hash: prompt ? sha256Hex(stableStringify(prompt)) : input_hash,
+      model: meta.model,
+      temperature: output ? prompt?.temperature ?? null : null,
+      prompt: output ? template : null,
+      input_json,
+    });
+
+    // 5) Telemetry
+    const usage = output ? completion?.usage ?? null : null;
+    // Set inside the check callback, which the compiler cannot see
+    const claims = output ? (grounding as GroundingReport | null) : null;
+    await telemetry({
+      cache_status: "miss",
+      status: "ok",
+      provider: completion?.provider ?? null,
+      repair_attempts,
+      claims_checked: claims?.checked ?? null,
+      claims_unsupported: claims?.unsupported.length ?? null,
+      model: meta.model,
+      prompt_tokens: usage?.prompt_tokens ?? null,
+      completion_tokens: usage?.completion_tokens ?? null,
+      total_tokens: usage?.total_tokens ?? null,
+      cost_usd: output && completion ? completionCostUsd(completion) : null,
+    });
+
+    return {
+      ok: true,
+      request_id: run.request_id,
+      session_id: inputs.session_id,
+      client_id: inputs.client_id,
+      cached: false,
+      output: final,
+      content_md,
+      version_id: (ins.data as { id?: string } | null)?.id ?? null,
+      version_index,
+      reason,
+      generated_by: meta.generated_by,
+      meta,
+      plan_version_id: inputs.plan?.version_id ?? null,
+      duration_ms: Date.now() - t0,
+    };
+  } catch (e: unknown) {
+    const err = e instanceof CoachingError ? e : null;
+    const message = e instanceof Error ? e.message : "Unknown error";
+    await telemetry({
+      cache_status: "miss",
+      status: "error",
+      error_code: err?.code ?? "unhandled_error",
+      error_message: message.slice(0, 300),
+    });
+    return {
+      ok: false,
+      request_id: run.request_id,
+      status: err?.status ?? 500,
+      error: err?.code ?? "unhandled_error",
+      message,
+    };
+  }
+}
@@ -0,0 +1,138 @@
+// lib/engine/coaching/prompts/index.ts
+// Prompt template registry: every prompt the coaching stack sends (session coaching, coaching summary, plan3m,
+// plan6m) is a versioned template with declared variables and the schema its output must meet. Which version a client
+// gets comes from an experiment (deterministic per client) or, outside one, the template's default; the choice is
+// recorded with the run (coaching_telemetry, session_coaching, plan meta) so versions can be compared on quality and
+// cost.
+//   COACHING_PROMPT_EXPERIMENTS='{"sessioncoach":{"experiment":"sc_tone_2026q4","arms":{"v1":50,"v2":50}}}'
+
+import crypto from "crypto";
+import type { LlmPrompt } from "../llm";
+import type { CoachingSchemaVersion } from "../schemas";
+import { COACHING_SUMMARY_PROMPTS } from "./coachingSummary";
+import { PLAN3M_PROMPTS } from "./plan3m";
+import { PLAN6M_PROMPTS } from "./plan6m";
+import { SESSIONCOACH_PROMPTS } from "./sessioncoach";
+import { SESSIONCOACH_STRICT_PROMPTS } from "./sessioncoachStrict";
+
+export type PromptVariables = Record<string, unknown>;
+
+export type PromptTemplate = {
+  id: string;
+  version: string;
+  target_schema: CoachingSchemaVersion; // document the model output ends up in
+  variables: readonly string[]; // exactly the keys render takes
+  model: string;
+  temperature: number | null; // null = provider default
+  timeout_ms: number;
+  max_tokens?: number;
+  env?: { model?: string; timeout_ms?: string }; // env vars that override model / timeout
+  system(v: PromptVariables): string;
+  developer?(v: PromptVariables): string;
+  user(v: PromptVariables): string;
+};
+
+// Versions per prompt; the first is the default outside an experiment
+export const PROMPT_TEMPLATES = {
+  sessioncoach: SESSIONCOACH_PROMPTS,
+  sessioncoach_strict: SESSIONCOACH_STRICT_PROMPTS,
+  coaching_summary: COACHING_SUMMARY_PROMPTS,
+  plan3m: PLAN3M_PROMPTS,
+  plan6m: PLAN6M_PROMPTS,
+} as const;
+
+export type PromptId = keyof typeof PROMPT_TEMPLATES;
+
+/** Clients split across versions by weight; a new experiment id reshuffles them. */
+export type PromptExperiment = { experiment: string; arms: Record<string, number> };
+
+// Running experiments; COACHING_PROMPT_EXPERIMENTS entries replace these per prompt id
+export const PROMPT_EXPERIMENTS: Partial<Record<PromptId, PromptExperiment>> = {};
+
+/** Which template a run used; experiment is null when the client got the default. */
+export type PromptRef = { id: PromptId; version: string; experiment: string | null };
+
+export type RenderedPrompt = LlmPrompt & { template: PromptRef };
+
+export function isPromptId(v: unknown): v is PromptId {
+  return typeof v === "string" && Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATES, v);
+}
+
+function isExperiment(v: unknown): v is PromptExperiment {
+  if (!v || typeof v !== "object") return false;
+  const e = v as { experiment?: unknown; arms?: unknown };
+  return (
+    typeof e.experiment === "string" &&
+    !!e.experiment &&
+    !!e.arms &&
+    typeof e.arms === "object" &&
+    Object.values(e.arms).every((w) => typeof w === "number" && Number.isFinite(w) && w >= 0)
+  );
+}
+
+function envExperiments(): Partial<Record<PromptId, PromptExperiment>> {
+  const raw = process.env.COACHING_PROMPT_EXPERIMENTS;
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return {};
+    return Object.fromEntries(Object.entries(parsed).filter(([id, e]) => isPromptId(id) && isExperiment(e)));
+  } catch {
+    return {};
+  }
+}
+
+export function promptExperiments(): Partial<Record<PromptId, PromptExperiment>> {
+  return { ...PROMPT_EXPERIMENTS, ...envExperiments() };
+}
+
+export function promptTemplate(id: PromptId, version: string): PromptTemplate | null {
+  return (PROMPT_TEMPLATES[id] as readonly PromptTemplate[]).find((t) => t.version === version) ?? null;
+}
+
+/**
+ * The template version a client gets for a prompt. Inside an experiment the client lands in an arm by a hash of
+ * (experiment, client_id), so repeat runs agree; arms naming unknown versions are ignored.
+ */
+export function assignPrompt(id: PromptId, client_id: string): PromptRef {
+  const templates = PROMPT_TEMPLATES[id] as readonly PromptTemplate[];
+  const exp = promptExperiments()[id];
+  const arms = exp
+    ? Object.entries(exp.arms).filter(([version, weight]) => weight > 0 && templates.some((t) => t.version === version))
+    : [];
+  if (!exp || !arms.length) return { id, version: templates[0].version, experiment: null };
+
+  const total = arms.reduce((a, [, w]) => a + w, 0);
+  const hash = crypto.createHash("sha256").update(`${exp.experiment}:${client_id}`).digest();
+  let point = (hash.readUInt32BE(0) / 0x100000000) * total;
+  for (const [version, weight] of arms) {
+    if (point < weight) return { id, version, experiment: exp.experiment };
+    point -= weight;
+  }
+  return { id, version: arms[arms.length - 1][0], experiment: exp.experiment };
+}
+
+/** Fill a template. Throws when a declared variable is missing or an undeclared one is passed. */
+export function renderPrompt(ref: PromptRef, vars: PromptVariables): RenderedPrompt {
+  const t = promptTemplate(ref.id, ref.version);
+  if (!t) throw new Error(`unknown prompt template: ${ref.id}@${ref.version}`);
+
+  const missing = t.variables.filter((k) => vars[k] === undefined);
+  const extra = Object.keys(vars).filter((k) => !t.variables.includes(k));
+  if (missing.length || extra.length) {
+    const parts = [missing.length && `missing ${missing.join(", ")}`, extra.length && `undeclared ${extra.join(", ")}`];
+    throw new Error(`prompt ${t.id}@${t.version} variables: ${parts.filter(Boolean).join("; ")}`);
+  }
+
+  const timeout = Number((t.env?.timeout_ms && process.env[t.env.timeout_ms]) || t.timeout_ms);
+  return {
+    model: (t.env?.model && process.env[t.env.model]) || t.model,
+    temperature: t.temperature,
+    system: t.system(vars),
+    ...(t.developer ? { developer: t.developer(vars) } : {}),
+    user: t.user(vars),
+    timeout_ms: Number.isFinite(timeout) && timeout > 0 ? timeout : t.timeout_ms,
+    ...(t.max_tokens ? { max_tokens: t.max_tokens } : {}),
+    template: ref,
+  };
+}
@@ -0,0 +1,68 @@
+// lib/engine/coaching/prompts/plan3m.ts
+// plan3m: the model-written 12-week plan display (lib/engine/plan.ts). The system text adapts to the skill tier; the
+// deterministic baseline display is passed as an example of the expected shape.
+
+import type { PromptTemplate } from "./index";
+
+function tierGuidance(tier: unknown): string {
+  return tier === "scratch"
+    ? "Player is scratch: avoid fundamentals. Focus on dispersion, wedge proximity, strategy, pressure simulation, and scoring edge."
+    : tier === "advanced"
+      ? "Player is advanced: focus on performance optimisation, dispersion, proximity, and pressure reps; avoid beginner fundamentals."
+      : tier === "intermediate"
+        ? "Player is intermediate: blend core mechanics with constraint-based practice and scoring habits."
+        : tier === "beginner"
+          ? "Player is beginner: prioritise strike, low-point control, and simple repeatable cues."
+          : "Skill tier unknown: keep plan balanced and avoid overly technical assumptions.";
+}
+
+const v1: PromptTemplate = {
+  id: "plan3m",
+  version: "v1",
+  target_schema: "plan3m_v1.1",
+  variables: ["tier", "baseline", "snapshot"],
+  model: "gpt-4.1-mini",
+  temperature: 0.4,
+  timeout_ms: 60000,
+  max_tokens: 2600,
+  env: { model: "PLAN3M_OPENAI_MODEL" },
+
+  system: (v) =>
+    [
+      "You are a world-class golf performance coach.",
+      "Generate a 12-week 3-month plan in British English.",
+      "Output MUST be JSON only matching the required schema.",
+      "Be specific, progressive, and practical. No fluff.",
+      "Use the snapshot (stats + previous plan if any) to personalise the plan.",
+      tierGuidance(v.tier),
+    ].join(" "),
+
+  user: (v) =>
+    JSON.stringify({
+      task: "Generate a rich 3-month plan for the client.",
+      required_schema: {
+        headline: "string",
+        summary: "string[] (3-6 bullets)",
+        success_criteria: "string[] (3-6 bullets)",
+        content_md: "string (markdown narrative; optional but preferred)",
+        weeks: [
+          {
+            week_number: "1..12",
+            title: "string",
+            min_sessions: "number (2-4)",
+            clubs: "string[]",
+            aim: "string",
+            drills: "string[] (3-5)",
+            constraints: "string[] (2-4)",
+            checkpoints: "string[] (2-4)",
+            success_criteria: "string[] (2-4)",
+            date_window: { start: "YYYY-MM-DD", end: "YYYY-MM-DD" },
+          },
+        ],
+      },
+      baseline_example: v.baseline,
+      snapshot: v.snapshot,
+    }),
+};
+
+export const PLAN3M_PROMPTS: readonly PromptTemplate[] = [v1];
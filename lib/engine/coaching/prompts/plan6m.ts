@@ -0,0 +1,70 @@
+// lib/engine/coaching/prompts/plan6m.ts
+// plan6m: the admin 6-month plan regeneration (lib/engine/plan6m/regen.ts). The developer message carries the theme
+// enum and the plan6m_v1 schema; trends are context only.
+
+import { PLAN6M_V1_SCHEMA, THEME_ENUM } from "../schemas";
+import type { PromptTemplate } from "./index";
+
+const v1: PromptTemplate = {
+  id: "plan6m",
+  version: "v1",
+  target_schema: "plan6m_v1",
+  variables: ["client_id", "snapshots", "trends"],
+  model: "gpt-4.1-mini",
+  temperature: 0.1,
+  timeout_ms: 60000,
+
+  system: () =>
+    `
+You are an expert golf coach building a 12-week (6-month) improvement plan.
+Plans change slowly. Be stable, conservative, and practical.
+Use ONLY the provided theme_id enums.
+Output MUST be VALID JSON that matches the provided JSON schema.
+No markdown. No commentary. No extra keys. Never invent metric_id values; only use those allowed by the schema.
+
+`.trim(),
+
+  developer: () =>
+    `
+THEME_ENUM (authoritative)
+${JSON.stringify(THEME_ENUM)}
+
+JSON_SCHEMA (authoritative)
+${JSON.stringify(PLAN6M_V1_SCHEMA)}
+
+RULES
+- schema_version MUST be "plan6m_v1"
+- Use ONLY theme_id values from THEME_ENUM
+- Max 3 themes
+- Do not reference devices, brands, or UI.
+- No free-text new themes.
+- progress_metrics.metric_id MUST be one of:
+  carry_avg, total_distance_avg, ball_speed_avg, club_speed_avg, smash_factor_avg,
+  launch_angle_avg, spin_rate_avg, offline_dispersion_p50, offline_dispersion_p90,
+  start_line_sd, face_to_path_avg, attack_angle_avg, dynamic_loft_avg,
+  fairway_pct, gir_pct, penalty_rate, shot_quality_pct
+- Do NOT invent new metric_id values.
+- Metrics listed in a snapshot's flight_estimates.metrics were computed mostly from ball-flight model estimates,
+  not device measurements: lower confidence for themes that rest on them.
+- A snapshot's metrics are at standard conditions (sea level, 70F, premium ball) when metrics_basis is
+  "standard_conditions"; metrics_as_recorded holds the values from that session's conditions. Compare sessions on metrics.
+`.trim(),
+
+  user: (v) =>
+    `
+INPUT
+client_id: ${String(v.client_id)}
+
+session_snapshots (most recent first):
+${JSON.stringify(v.snapshots, null, 2)}
+
+trends (last 180 days, most significant first):
+${JSON.stringify(v.trends, null, 2)}
+
+TASK
+Regenerate the 6-month plan. Default behaviour is stable: if the existing plan remains valid, output "unchanged".
+Return JSON ONLY matching the schema.
+`.trim(),
+};
+
+export const PLAN6M_PROMPTS: readonly PromptTemplate[] = [v1];
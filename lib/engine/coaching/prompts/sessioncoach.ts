@@ -0,0 +1,59 @@
+// lib/engine/coaching/prompts/sessioncoach.ts
+// sessioncoach: the model rewrites the deterministic session coaching's display text (outputs/sessioncoach.ts).
+
+import type { PromptTemplate } from "./index";
+
+const v1: PromptTemplate = {
+  id: "sessioncoach",
+  version: "v1",
+  target_schema: "sessioncoach_v1",
+  variables: [
+    "session_id",
+    "client_id",
+    "plan_id",
+    "primary_theme",
+    "secondary_theme",
+    "latest_snapshot",
+    "trend_callouts",
+    "estimated_metrics",
+    "baseline",
+  ],
+  model: "gpt-4o-mini",
+  temperature: null,
+  timeout_ms: 8000,
+  env: { model: "COACHING_AI_MODEL", timeout_ms: "COACHING_AI_TIMEOUT_MS" },
+
+  system: () =>
+    "Return ONLY a valid JSON object (no prose, no markdown). Keys must be EXACTLY: session_summary (string), what_stood_out (array of strings or { text, metric_id, value }), what_this_supports (string), next_session_focus (string), plan_status ('aligned'|'neutral'|'review_needed'). Do not add extra keys.",
+
+  user: (v) =>
+    JSON.stringify({
+      schema: "sessioncoach_v1",
+      session_id: v.session_id,
+      client_id: v.client_id,
+      plan_id: v.plan_id,
+      primary_theme: v.primary_theme,
+      secondary_theme: v.secondary_theme,
+      latest_snapshot: v.latest_snapshot,
+      trend_callouts: v.trend_callouts,
+      // Modelled, not measured: mention with hedged language, never as the headline finding
+      estimated_metrics: v.estimated_metrics,
+      baseline: v.baseline,
+      required_output: {
+        // AI must fill these exactly; validator enforces
+        session_summary: "string",
+        what_stood_out: "Array<string | { text: string, metric_id: string, value: number }>",
+        what_this_supports: "string",
+        next_session_focus: "string",
+        plan_status: "aligned|neutral|review_needed",
+      },
+      style: { tone: "coach-like, direct, encouraging", length: "short" },
+      evidence_rules: [
+        "Every number with a unit (yards, mph, rpm, degrees, %) must come from latest_snapshot or trend_callouts.",
+        "A what_stood_out point that states a number is an object: text, plus the metric_id and value it rests on (latest_snapshot.metrics ids).",
+        "Numbers that do not match the inputs are removed before the player sees them.",
+      ],
+    }),
+};
+
+export const SESSIONCOACH_PROMPTS: readonly PromptTemplate[] = [v1];
@@ -0,0 +1,46 @@
+// lib/engine/coaching/prompts/sessioncoachStrict.ts
+// sessioncoach_strict: model-written session coaching against the closed schema (outputs/sessioncoachStrict.ts). The
+// developer message carries the schema, theme enum and metric registry; the user message carries the session.
+
+import { SNAPSHOT_METRIC_IDS } from "@/lib/metrics/metricIds";
+import { SESSIONCOACH_STRICT_V1_SCHEMA, THEME_ENUM } from "../schemas";
+import type { PromptTemplate } from "./index";
+
+const v1: PromptTemplate = {
+  id: "sessioncoach_strict",
+  version: "v1",
+  target_schema: "sessioncoach_strict_v1",
+  variables: ["request_meta", "session_stats", "baseline_stats", "active_plan_themes"],
+  model: "gpt-4.1-mini",
+  temperature: null,
+  timeout_ms: 30000,
+
+  system: () =>
+    "You are a conservative, experienced golf coach. Output ONLY valid JSON that matches the provided JSON schema. No markdown, no extra keys.",
+
+  developer: () =>
+    JSON.stringify({
+      schema_version: "sessioncoach_strict_v1",
+      theme_enum: THEME_ENUM,
+      metric_registry: SNAPSHOT_METRIC_IDS,
+      json_schema: SESSIONCOACH_STRICT_V1_SCHEMA,
+      rules: [
+        "Do not invent new goals or themes.",
+        "Session coaching must reinforce the active plan, never redefine it.",
+        "primary_theme and secondary_theme must be theme_ids that exist in the active plan themes provided.",
+        "metrics_used value is the session_stats.metrics value; baseline is the mean of baseline_stats metrics (null when none).",
+        "Every number with a unit (yards, mph, rpm, degrees, %) in display text or notes must come from session_stats or baseline_stats.",
+        "Return JSON only, matching schema exactly.",
+      ],
+    }),
+
+  user: (v) =>
+    JSON.stringify({
+      request_meta: v.request_meta,
+      session_stats: v.session_stats,
+      baseline_stats: v.baseline_stats,
+      active_plan_themes: v.active_plan_themes,
+    }),
+};
+
+export const SESSIONCOACH_STRICT_PROMPTS: readonly PromptTemplate[] = [v1];
@@ -0,0 +1,35 @@
+// lib/engine/coaching/schemas/citations.ts
+// Metric citations (lib/engine/coaching/grounding.ts): which input value a claim in a coaching document rests on.
+
+import type { JsonObject } from "../shared";
+
+export const METRIC_CITATIONS_SCHEMA: JsonObject = {
+  type: "array",
+  items: {
+    type: "object",
+    additionalProperties: false,
+    required: ["path", "metric_id", "value"],
+    properties: {
+      path: { type: "string", pattern: "^/" }, // JSON pointer of the claim
+      metric_id: { type: "string", minLength: 1 },
+      value: { type: "number" },
+    },
+  },
+};
+
+// A claim written with its evidence inline, where a document lists claims rather than prose
+export const CITED_CLAIM_SCHEMA: JsonObject = {
+  anyOf: [
+    { type: "string", minLength: 1 },
+    {
+      type: "object",
+      additionalProperties: false,
+      required: ["text", "metric_id", "value"],
+      properties: {
+        text: { type: "string", minLength: 1 },
+        metric_id: { type: "string", minLength: 1 },
+        value: { type: "number" },
+      },
+    },
+  ],
+};
@@ -0,0 +1,106 @@
+// lib/engine/coaching/schemas/coaching_output_v1.ts
+// coaching_output_v1: the scorecard / coach_plan / insights document described by docs/schemas/coaching_output_v1.json
+// (that file is the annotated example; this is its enforceable form). List items the example leaves open stay open,
+// except evidence and key numbers: plain strings or { text, metric_id, value } claims.
+
+import type { JsonObject } from "../shared";
+import { CITED_CLAIM_SCHEMA } from "./citations";
+
+const str = { type: "string" };
+const strs = { type: "array", items: str };
+const list = { type: "array" };
+const obj = { type: "object" };
+const claims = { type: "array", items: CITED_CLAIM_SCHEMA };
+
+const closed = (required: string[], properties: JsonObject): JsonObject => ({
+  type: "object",
+  additionalProperties: false,
+  required,
+  properties,
+});
+
+export const COACHING_OUTPUT_V1_SCHEMA: JsonObject = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://stryklabs.com/schemas/coaching_output_v1.json",
+  title: "CoachingOutput_V1",
+  ...closed(
+    [
+      "schema_version",
+      "prompt_version",
+      "model",
+      "generated_at",
+      "ids",
+      "inputs_snapshot",
+      "scorecard",
+      "coach_plan",
+      "insights",
+      "confidence_and_limits",
+      "render_md",
+    ],
+    {
+      schema_version: { type: "string", const: "coaching_output_v1" },
+      prompt_version: { type: "string", minLength: 1 },
+      model: { type: "string", minLength: 1 },
+      generated_at: { type: "string", format: "date-time" },
+      ids: closed(["client_id", "session_id"], {
+        client_id: { type: "string", format: "uuid" },
+        session_id: { type: "string", format: "uuid" },
+      }),
+      inputs_snapshot: closed(["device", "session_facts", "computed_metrics", "history_window"], {
+        device: closed(["vendor", "source", "capabilities"], {
+          vendor: str,
+          source: str,
+          capabilities: { type: "object", additionalProperties: { type: "boolean" } },
+        }),
+        session_facts: closed(["date", "total_shots"], {
+          date: { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" },
+          total_shots: { type: "integer", minimum: 0 },
+          ghps_score: { type: ["number", "null"] },
+          handicap_estimate: { type: ["number", "null"] },
+        }),
+        computed_metrics: closed(["by_club", "dispersion", "distance_control", "contact_quality"], {
+          by_club: list,
+          dispersion: obj,
+          distance_control: obj,
+          contact_quality: obj,
+        }),
+        history_window: closed(["sessions_considered", "trend_metrics_present"], {
+          sessions_considered: { type: "integer", minimum: 0 },
+          trend_metrics_present: { type: "boolean" },
+        }),
+      }),
+      scorecard: closed(
+        ["headline_win", "main_focus", "trend_callouts", "next_session_targets", "recommended_drills", "time_budget_plan"],
+        {
+          headline_win: closed(["title", "evidence"], { title: str, evidence: claims }),
+          main_focus: closed(["title", "why_it_matters"], { title: str, why_it_matters: str }),
+          trend_callouts: list,
+          next_session_targets: list,
+          recommended_drills: list,
+          time_budget_plan: closed(["per_week", "session_split"], { per_week: str, session_split: list }),
+        }
+      ),
+      coach_plan: closed(["priorities_ranked", "drills_program", "weekly_micro_plan", "what_to_ignore_for_now"], {
+        priorities_ranked: list,
+        drills_program: list,
+        weekly_micro_plan: closed(["week_length_days", "sessions"], {
+          week_length_days: { type: "integer", minimum: 1, maximum: 14 },
+          sessions: list,
+        }),
+        what_to_ignore_for_now: strs,
+      }),
+      insights: closed(["strengths", "weaknesses", "key_numbers"], {
+        strengths: list,
+        weaknesses: list,
+        key_numbers: claims,
+      }),
+      confidence_and_limits: closed(["confidence_score", "data_missing", "no_guessing_note", "safe_advice_guardrails"], {
+        confidence_score: { type: "number", minimum: 0, maximum: 100 },
+        data_missing: strs,
+        no_guessing_note: str,
+        safe_advice_guardrails: strs,
+      }),
+      render_md: closed(["scorecard_md", "coach_plan_md"], { scorecard_md: str, coach_plan_md: str }),
+    }
+  ),
+};
@@ -0,0 +1,72 @@
+// lib/engine/coaching/schemas/coaching_summary_v1.ts
+// coaching_summary_v1: longer coaching (summary, priorities, drills, next-session targets), cached with its markdown
+// in coaching_summary.
+
+import type { JsonObject } from "../shared";
+import { METRIC_CITATIONS_SCHEMA } from "./citations";
+
+const text = (maxLength: number) => ({ type: "string", minLength: 1, maxLength });
+
+export const COACHING_SUMMARY_V1_SCHEMA: JsonObject = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://stryklabs.com/schemas/coaching_summary_v1.json",
+  title: "CoachingSummary_V1",
+  type: "object",
+  additionalProperties: false,
+  required: ["schema_version", "summary", "priorities", "drills", "next_session_targets"],
+  properties: {
+    schema_version: { type: "string", const: "coaching_summary_v1" },
+    summary: text(2000),
+    priorities: {
+      type: "array",
+      minItems: 1,
+      maxItems: 6,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["title", "why"],
+        properties: { title: text(800), why: text(800) },
+      },
+    },
+    drills: {
+      type: "array",
+      minItems: 1,
+      maxItems: 6,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["name", "steps", "reps", "frequency", "success_metric"],
+        properties: {
+          name: text(800),
+          steps: { type: "array", minItems: 1, maxItems: 10, items: text(800) },
+          reps: { type: "string", maxLength: 800 },
+          frequency: { type: "string", maxLength: 800 },
+          success_metric: { type: "string", maxLength: 800 },
+        },
+      },
+    },
+    next_session_targets: {
+      type: "array",
+      minItems: 1,
+      maxItems: 6,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["target", "measure"],
+        properties: { target: text(800), measure: { type: "string", maxLength: 800 } },
+      },
+    },
+    citations: METRIC_CITATIONS_SCHEMA,
+    metadata: {
+      type: "object",
+      additionalProperties: false,
+      required: ["generated_by"],
+      properties: {
+        generated_by: { type: "string", const: "ai" },
+        model: { type: "string" },
+        request_id: { type: "string" },
+        route: { type: "string" },
+      },
+    },
+  },
+};
@@ -0,0 +1,88 @@
+// lib/engine/coaching/schemas/index.ts
+// Versioned schema registry: every coaching document written to coaching_versions / session_coaching /
+// coaching_summary names its shape in schema_version and is checked against the schema registered for that version
+// before it is written. Adding a shape = adding a schema here; the UI picks its renderer by the same version.
+
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import { isJsonObject } from "../shared";
+import { COACHING_OUTPUT_V1_SCHEMA } from "./coaching_output_v1";
+import { COACHING_SUMMARY_V1_SCHEMA } from "./coaching_summary_v1";
+import { PLAN3M_V1_1_SCHEMA } from "./plan3m_v1_1";
+import { PLAN6M_V1_SCHEMA } from "./plan6m_v1";
+import { SESSIONCOACH_STRICT_V1_SCHEMA } from "./sessioncoach_strict_v1";
+import { SESSIONCOACH_V1_SCHEMA } from "./sessioncoach_v1";
+
+export { THEME_ENUM, type ThemeId } from "./themes";
+export { CITED_CLAIM_SCHEMA, METRIC_CITATIONS_SCHEMA } from "./citations";
+export { PLAN3M_V1_1_DISPLAY_SCHEMA } from "./plan3m_v1_1";
+export { PLAN6M_V1_SCHEMA } from "./plan6m_v1";
+export { SESSIONCOACH_STRICT_V1_SCHEMA } from "./sessioncoach_strict_v1";
+
+export const COACHING_SCHEMAS = {
+  sessioncoach_v1: SESSIONCOACH_V1_SCHEMA,
+  sessioncoach_strict_v1: SESSIONCOACH_STRICT_V1_SCHEMA,
+  coaching_summary_v1: COACHING_SUMMARY_V1_SCHEMA,
+  coaching_output_v1: COACHING_OUTPUT_V1_SCHEMA,
+  "plan3m_v1.1": PLAN3M_V1_1_SCHEMA,
+  plan6m_v1: PLAN6M_V1_SCHEMA,
+} as const;
+
+export type CoachingSchemaVersion = keyof typeof COACHING_SCHEMAS;
+
+// Renderable by the session coaching panel (display.* block)
+export const SESSIONCOACH_DISPLAY_SCHEMAS: readonly CoachingSchemaVersion[] = ["sessioncoach_v1", "sessioncoach_strict_v1"];
+
+export type SchemaCheck =
+  | { ok: true; schema_version: CoachingSchemaVersion }
+  | { ok: false; schema_version: string | null; errors: string[] };
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+const compiled = new Map<string, ValidateFunction>();
+
+export function isCoachingSchemaVersion(v: unknown): v is CoachingSchemaVersion {
+  return typeof v === "string" && Object.prototype.hasOwnProperty.call(COACHING_SCHEMAS, v);
+}
+
+function validatorFor(version: CoachingSchemaVersion): ValidateFunction {
+  let fn = compiled.get(version);
+  if (!fn) {
+    fn = ajv.compile(COACHING_SCHEMAS[version]);
+    compiled.set(version, fn);
+  }
+  return fn;
+}
+
+/** "path message" lines, capped; what repair prompts and error details show. */
+export function formatSchemaErrors(errors: ErrorObject[] | null | undefined, max = 8): string[] {
+  return (errors ?? []).slice(0, max).map((e) => {
+    const extra = e.keyword === "additionalProperties" ? ` (${String(e.params.additionalProperty)})` : "";
+    return `${e.instancePath || "(root)"} ${e.message ?? "invalid"}${extra}`;
+  });
+}
+
+/**
+ * Check a coaching document against the schema its schema_version names. With `expected`, the document must also
+ * declare that version.
+ */
+export function validateCoachingContent(content: unknown, expected?: CoachingSchemaVersion): SchemaCheck {
+  const declared = isJsonObject(content) && typeof content.schema_version === "string" ? content.schema_version : null;
+  if (expected && declared !== expected) {
+    return { ok: false, schema_version: declared, errors: [`/schema_version must be ${expected} (got ${declared ?? "none"})`] };
+  }
+  if (!isCoachingSchemaVersion(declared)) {
+    return { ok: false, schema_version: declared, errors: [`unregistered schema_version: ${declared ?? "none"}`] };
+  }
+
+  const validate = validatorFor(declared);
+  return validate(content)
+    ? { ok: true, schema_version: declared }
+    : { ok: false, schema_version: declared, errors: formatSchemaErrors(validate.errors) };
+}
+
+/** Check a fragment (e.g. an LLM-written block) against a subschema of a registered version. */
+export function validateCoachingFragment(value: unknown, schema: object): string[] {
+  const validate = ajv.compile(schema);
+  return validate(value) ? [] : formatSchemaErrors(validate.errors);
+}
@@ -0,0 +1,96 @@
+// lib/engine/coaching/schemas/plan3m_v1_1.ts
+// plan3m_v1.1: the 12-week plan written by the plan3m recompute (lib/engine/plan.ts), display plus the inputs it
+// was built from.
+
+import type { JsonObject } from "../shared";
+
+const text = { type: "string", minLength: 1 };
+const texts = (minItems: number) => ({ type: "array", minItems, items: text });
+const isoDate = { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}$" };
+
+export const PLAN3M_V1_1_DISPLAY_SCHEMA: JsonObject = {
+  type: "object",
+  additionalProperties: false,
+  required: ["headline", "summary", "success_criteria", "weeks"],
+  properties: {
+    headline: text,
+    summary: texts(1),
+    success_criteria: texts(1),
+    content_md: { type: "string" },
+    weeks: {
+      type: "array",
+      minItems: 12,
+      maxItems: 12,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: [
+          "week_number",
+          "title",
+          "min_sessions",
+          "clubs",
+          "aim",
+          "drills",
+          "constraints",
+          "checkpoints",
+          "success_criteria",
+          "date_window",
+        ],
+        properties: {
+          week_number: { type: "integer", minimum: 1, maximum: 12 },
+          title: text,
+          min_sessions: { type: "number", minimum: 1, maximum: 7 },
+          clubs: texts(0),
+          aim: text,
+          drills: texts(1),
+          constraints: texts(0),
+          checkpoints: texts(0),
+          success_criteria: texts(0),
+          date_window: {
+            type: "object",
+            additionalProperties: false,
+            required: ["start", "end"],
+            properties: { start: isoDate, end: isoDate },
+          },
+        },
+      },
+    },
+  },
+};
+
+export const PLAN3M_V1_1_SCHEMA: JsonObject = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://stryklabs.com/schemas/plan3m_v1.1.json",
+  title: "Plan3M_V1_1",
+  type: "object",
+  additionalProperties: false,
+  required: ["schema_version", "display", "inputs_snapshot", "inputs_hash", "recompute_triggered_at", "meta"],
+  properties: {
+    schema_version: { type: "string", const: "plan3m_v1.1" },
+    display: PLAN3M_V1_1_DISPLAY_SCHEMA,
+    inputs_snapshot: { type: "object" },
+    inputs_hash: { type: "string", minLength: 1 },
+    recompute_triggered_at: { type: "string", format: "date-time" },
+    previous_plan_id: { type: ["string", "null"] },
+    meta: {
+      type: "object",
+      required: ["generated_by", "reason"],
+      properties: {
+        generated_by: { type: "string", minLength: 1 },
+        reason: { type: "string", minLength: 1 },
+        bootstrap: { type: "boolean" },
+        skill_tier: { type: "string" },
+        // Prompt template behind an AI display (lib/engine/coaching/prompts); null for the baseline
+        prompt: {
+          type: ["object", "null"],
+          required: ["id", "version", "experiment"],
+          properties: {
+            id: { type: "string", minLength: 1 },
+            version: { type: "string", minLength: 1 },
+            experiment: { type: ["string", "null"] },
+          },
+        },
+      },
+    },
+  },
+};
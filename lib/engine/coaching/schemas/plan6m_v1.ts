@@ -0,0 +1,94 @@
+// lib/engine/coaching/schemas/plan6m_v1.ts
+// plan6m_v1: the slow-moving 6-month plan written by the admin plan6m regen (lib/engine/plan6m/regen.ts).
+
+import { SNAPSHOT_METRIC_IDS } from "@/lib/metrics/metricIds";
+import type { JsonObject } from "../shared";
+import { THEME_ENUM } from "./themes";
+
+export const PLAN6M_V1_SCHEMA: JsonObject = {
+  "$schema": "http://json-schema.org/draft-07/schema#",
+  "$id": "https://stryklabs.com/schemas/plan6m_v1.json",
+  "title": "Plan6M_V1",
+  "type": "object",
+  "additionalProperties": false,
+  "required": [
+    "plan_id",
+    "client_id",
+    "created_at",
+    "time_window",
+    "plan_stability",
+    "plan_confidence",
+    "themes",
+    "what_good_looks_like",
+    "schema_version",
+  ],
+  "properties": {
+    "plan_id": { "type": "string", "format": "uuid" },
+    "client_id": { "type": "string", "format": "uuid" },
+    "created_at": { "type": "string", "format": "date-time" },
+    "time_window": {
+      "type": "object",
+      "additionalProperties": false,
+      "required": ["start", "end"],
+      "properties": {
+        "start": { "type": "string", "format": "date-time" },
+        "end": { "type": "string", "format": "date-time" },
+      },
+    },
+    "plan_stability": {
+      "type": "string",
+      "enum": ["unchanged", "minor_refinement", "reprioritised"],
+    },
+    "plan_confidence": { "type": "string", "enum": ["low", "medium", "high"] },
+    "themes": {
+      "type": "array",
+      "minItems": 1,
+      "maxItems": 3,
+      "items": {
+        "type": "object",
+        "additionalProperties": false,
+        "required": [
+          "theme_id",
+          "priority",
+          "rationale",
+          "progress_metrics",
+          "confidence",
+          "confidence_label",
+        ],
+        "properties": {
+          "theme_id": { "type": "string", "enum": [...THEME_ENUM] },
+          "priority": { "type": "integer", "minimum": 1, "maximum": 3 },
+          "rationale": { "type": "string", "minLength": 1, "maxLength": 220 },
+          "progress_metrics": {
+            "type": "array",
+            "minItems": 1,
+            "maxItems": 4,
+            "items": {
+              "type": "object",
+              "additionalProperties": false,
+              "required": ["metric_id", "direction", "target_hint"],
+              "properties": {
+                "metric_id": {
+                  "type": "string",
+                  "enum": [...SNAPSHOT_METRIC_IDS],
+                },
+                "direction": { "type": "string", "enum": ["up", "down", "flat"] },
+                "target_hint": { "type": "string", "minLength": 1, "maxLength": 120 },
+              },
+            },
+          },
+          "confidence": { "type": "number", "minimum": 0, "maximum": 1 },
+          "confidence_label": { "type": "string", "enum": ["low", "medium", "high"] },
+        },
+      },
+    },
+    "what_good_looks_like": {
+      "type": "array",
+      "minItems": 1,
+      "maxItems": 6,
+      "items": { "type": "string", "minLength": 1, "maxLength": 160 },
+    },
+    "change_reason": { "type": ["string", "null"], "maxLength": 220 },
+    "schema_version": { "type": "string", "const": "plan6m_v1" },
+  },
+};
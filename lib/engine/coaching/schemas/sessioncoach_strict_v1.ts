@@ -0,0 +1,82 @@
+// lib/engine/coaching/schemas/sessioncoach_strict_v1.ts
+// sessioncoach_strict_v1: model-written session coaching with structured evidence (theme signals, metric values
+// against a rolling baseline). Same display block as sessioncoach_v1, so the coaching panel renders either.
+
+import { SNAPSHOT_METRIC_IDS } from "@/lib/metrics/metricIds";
+import type { JsonObject } from "../shared";
+import { THEME_ENUM } from "./themes";
+
+export const SESSIONCOACH_STRICT_V1_SCHEMA: JsonObject = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://stryklabs.com/schemas/sessioncoach_strict_v1.json",
+  title: "SessionCoach_Strict_V1",
+  type: "object",
+  additionalProperties: false,
+  required: ["session_id", "client_id", "plan_id", "created_at", "display", "metadata", "schema_version"],
+  properties: {
+    session_id: { type: "string", format: "uuid" },
+    client_id: { type: "string", format: "uuid" },
+    plan_id: { type: "string", format: "uuid" },
+    created_at: { type: "string", format: "date-time" },
+    display: {
+      type: "object",
+      additionalProperties: false,
+      required: ["session_summary", "what_stood_out", "what_this_supports", "next_session_focus", "plan_status"],
+      properties: {
+        session_summary: { type: "string", minLength: 1, maxLength: 520 },
+        what_stood_out: {
+          type: "array",
+          minItems: 1,
+          maxItems: 2,
+          items: { type: "string", minLength: 1, maxLength: 180 },
+        },
+        what_this_supports: { type: "string", minLength: 1, maxLength: 220 },
+        next_session_focus: { type: "string", minLength: 1, maxLength: 220 },
+        plan_status: { type: "string", enum: ["aligned", "neutral", "review_needed"] },
+      },
+    },
+    metadata: {
+      type: "object",
+      additionalProperties: false,
+      required: ["primary_theme", "secondary_theme", "confidence_delta", "plan_alignment", "evidence"],
+      properties: {
+        primary_theme: { type: "string", enum: [...THEME_ENUM] },
+        secondary_theme: { type: ["string", "null"], enum: [...THEME_ENUM, null] },
+        confidence_delta: { type: "string", enum: ["up", "flat", "down"] },
+        plan_alignment: { type: "string", enum: ["aligned", "neutral", "review_needed"] },
+        evidence: {
+          type: "array",
+          minItems: 1,
+          maxItems: 3,
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["theme_id", "signal", "metrics_used", "note"],
+            properties: {
+              theme_id: { type: "string", enum: [...THEME_ENUM] },
+              signal: { type: "string", enum: ["positive", "neutral", "negative"] },
+              metrics_used: {
+                type: "array",
+                minItems: 1,
+                maxItems: 4,
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  required: ["metric_id", "value", "baseline", "unit"],
+                  properties: {
+                    metric_id: { type: "string", enum: [...SNAPSHOT_METRIC_IDS] },
+                    value: { type: "number" },
+                    baseline: { type: ["number", "null"] },
+                    unit: { type: "string", minLength: 1, maxLength: 16 },
+                  },
+                },
+              },
+              note: { type: "string", minLength: 1, maxLength: 160 },
+            },
+          },
+        },
+      },
+    },
+    schema_version: { type: "string", const: "sessioncoach_strict_v1" },
+  },
+};
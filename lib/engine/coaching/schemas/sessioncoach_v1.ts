@@ -0,0 +1,66 @@
+// lib/engine/coaching/schemas/sessioncoach_v1.ts
+// sessioncoach_v1: per-session coaching rendered by the session explorer's coaching panel (display.*).
+
+import type { JsonObject } from "../shared";
+import { METRIC_CITATIONS_SCHEMA } from "./citations";
+
+const text = (maxLength: number) => ({ type: "string", minLength: 1, maxLength });
+const optionalText = (maxLength: number) => ({ type: "string", maxLength });
+
+export const SESSIONCOACH_V1_SCHEMA: JsonObject = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://stryklabs.com/schemas/sessioncoach_v1.json",
+  title: "SessionCoach_V1",
+  type: "object",
+  additionalProperties: false,
+  required: ["schema_version", "session_id", "client_id", "plan_id", "created_at", "display", "evidence"],
+  properties: {
+    schema_version: { type: "string", const: "sessioncoach_v1" },
+    session_id: { type: "string", format: "uuid" },
+    client_id: { type: "string", format: "uuid" },
+    plan_id: { type: "string", minLength: 1 },
+    created_at: { type: "string", format: "date-time" },
+    display: {
+      type: "object",
+      additionalProperties: false,
+      required: ["title", "subtitle", "session_summary", "what_stood_out", "what_this_supports", "next_session_focus", "plan_status"],
+      properties: {
+        title: text(80),
+        subtitle: text(80),
+        session_summary: text(1200),
+        what_stood_out: { type: "array", minItems: 1, maxItems: 8, items: text(400) },
+        what_this_supports: text(1200),
+        next_session_focus: text(1200),
+        plan_status: { type: "string", enum: ["aligned", "neutral", "review_needed"] },
+      },
+    },
+    evidence: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        primary_theme: { type: "string" },
+        secondary_theme: { type: ["string", "null"] },
+        metrics_used: { type: "array", items: { type: "string" } },
+        note: optionalText(400),
+        history_window: { type: "object" },
+        trend_callouts: { type: "array", items: { type: "string" } },
+        estimated_metrics: { type: "array", items: { type: "string" } },
+        data_quality_score: { type: ["number", "null"], minimum: 0, maximum: 100 },
+        citations: METRIC_CITATIONS_SCHEMA,
+      },
+    },
+    metadata: {
+      type: "object",
+      additionalProperties: false,
+      required: ["generated_by"],
+      properties: {
+        generated_by: { type: "string", enum: ["ai", "deterministic"] },
+        model: { type: "string" },
+        latency_ms: { type: "number", minimum: 0 },
+        ai_error: { type: "string" },
+        request_id: { type: "string" },
+        route: { type: "string" },
+      },
+    },
+  },
+};
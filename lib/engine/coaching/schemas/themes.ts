@@ -0,0 +1,17 @@
+// lib/engine/coaching/schemas/themes.ts
+// The coaching theme vocabulary. Plans and session coaching may only name these themes.
+
+export const THEME_ENUM = [
+  "dispersion_control",
+  "start_line_control",
+  "contact_quality",
+  "distance_control",
+  "face_to_path_control",
+  "low_point_control",
+  "club_selection_strategy",
+  "shot_shape_intent",
+  "short_game_proximity",
+  "putting_start_line_speed",
+] as const;
+
+export type ThemeId = (typeof THEME_ENUM)[number];
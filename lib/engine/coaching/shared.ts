@@ -0,0 +1,139 @@
+// lib/engine/coaching/shared.ts
+// Helpers shared by every coaching output: hashing, tolerant JSON parsing, the service client, internal auth and
+// version indexing. One copy here; generators and output specs import from this file.
+
+import crypto from "crypto";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+export type JsonObject = Record<string, unknown>;
+
+export function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export function isJsonObject(v: unknown): v is JsonObject {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+/** Stable deep stringify (key-sorted) for hashing. */
+export function stableStringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+  const norm = (v: unknown): unknown => {
+    if (v === null || typeof v !== "object") return v;
+    if (seen.has(v)) return "[Circular]";
+    seen.add(v);
+    if (Array.isArray(v)) return v.map(norm);
+    const obj = v as JsonObject;
+    const out: JsonObject = {};
+    for (const k of Object.keys(obj).sort()) out[k] = norm(obj[k]);
+    return out;
+  };
+  return JSON.stringify(norm(value));
+}
+
+export function sha256Hex(input: string): string {
+  return crypto.createHash("sha256").update(input).digest("hex");
+}
+
+/** Model output -> object: direct parse, then without code fences, then the outermost {...}. */
+export function safeJsonParseObject(text: string): JsonObject | null {
+  const raw = (text || "").trim();
+  if (!raw) return null;
+
+  const attempt = (s: string): JsonObject | null => {
+    try {
+      const v: unknown = JSON.parse(s);
+      return isJsonObject(v) ? v : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const direct = attempt(raw);
+  if (direct) return direct;
+
+  const unfenced = raw.replace(/^```[a-zA-Z]*\n/, "").replace(/\n```$/, "").trim();
+  if (unfenced !== raw) {
+    const v = attempt(unfenced);
+    if (v) return v;
+  }
+
+  const first = raw.indexOf("{");
+  const last = raw.lastIndexOf("}");
+  return first >= 0 && last > first ? attempt(raw.slice(first, last + 1)) : null;
+}
+
+export function toStringOrNull(v: unknown): string | null {
+  return typeof v === "string" && v.length > 0 ? v : null;
+}
+
+/** Trimmed, length-capped string; null when not a non-empty string. */
+export function clampString(v: unknown, max = 800): string | null {
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  if (!t) return null;
+  return t.length > max ? t.slice(0, max) : t;
+}
+
+export function clampStrings(v: unknown, maxItems: number, maxLength = 200): string[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .map((x) => clampString(x, maxLength))
+    .filter((x): x is string => !!x)
+    .slice(0, maxItems);
+}
+
+/** Request body as an object; empty or invalid JSON -> {}. */
+export async function readJsonBody(req: Request): Promise<JsonObject> {
+  const body: unknown = await req.json().catch(() => ({}));
+  return isJsonObject(body) ? body : {};
+}
+
+export function getServiceSupabase(): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error("Missing Supabase service env (NEXT_PUBLIC_SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY)");
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+/**
+ * Server-to-server gate for the coaching generators:
+ * - COACHING_GENERATE_SECRET in x-coaching-generate-secret, x-coaching-secret or x-internal-secret
+ * - INTERNAL_API_KEY in x-internal-key, x-internal-api-key or Authorization: Bearer
+ */
+export function isInternalCoachingRequest(req: Request): boolean {
+  const secret = process.env.COACHING_GENERATE_SECRET || "";
+  if (secret) {
+    const got =
+      req.headers.get("x-coaching-generate-secret") ||
+      req.headers.get("x-coaching-secret") ||
+      req.headers.get("x-internal-secret") ||
+      "";
+    if (got === secret) return true;
+  }
+
+  const internalKey = process.env.INTERNAL_API_KEY || "";
+  if (internalKey) {
+    const bearer = (req.headers.get("authorization") || "").replace(/^Bearer\s+/i, "");
+    const got = req.headers.get("x-internal-key") || req.headers.get("x-internal-api-key") || bearer;
+    if (got === internalKey) return true;
+  }
+
+  return false;
+}
+
+/** Next coaching_versions.version_index for a session (1-based, append-only). */
+export async function nextVersionIndex(sb: SupabaseClient, client_id: string, session_id: string): Promise<number> {
+  const q = await sb
+    .from("coaching_versions")
+    .select("version_index")
+    .eq("client_id", client_id)
+    .eq("session_id", session_id)
+    .order("version_index", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (q.error) throw new Error(`version_index lookup failed: ${q.error.message}`);
+  const max = (q.data as { version_index?: unknown } | null)?.version_index;
+  return (typeof max === "number" ? max : 0) + 1;
+}
@@ -1,4 +1,49 @@
+// lib/engine/events.ts
+// Domain events raised by ingest and edits. Handlers run after the response has been sent (next/server after()),
+// so the request that raised the event never waits on them; outside a request (scripts) they run detached.
+
+import { after } from "next/server";
+import { runCoachingEngine } from "@/lib/engine/coaching";
+import { getServiceSupabase } from "@/lib/engine/coaching/shared";
+
+// Edits in a burst (shots excluded one at a time) regenerate coaching once, from the last edit's snapshot
+export const COACHING_REGEN_DEBOUNCE_MS = 5000;
+
+type EventHandler = (payload: Record<string, unknown>) => Promise<void>;
+
+/** session.shots_edited: regenerate the session's published coaching unless a newer edit has superseded this one. */
+async function regenCoachingAfterEdit(payload: Record<string, unknown>) {
+  const sessionId = String(payload.session_id);
+  await new Promise((resolve) => setTimeout(resolve, COACHING_REGEN_DEBOUNCE_MS));
+
+  // A later edit rebuilt the snapshot again: its own event regenerates from that one
+  const { data } = await getServiceSupabase()
+    .from("session_stats")
+    .select("data_hash")
+    .eq("session_id", sessionId)
+    .eq("stat_type", "snapshot")
+    .maybeSingle();
+  if (data?.data_hash !== payload.data_hash) return;
+
+  // Never throws; a session without an active plan (or a failed model call) keeps its previous coaching
+  await runCoachingEngine(sessionId, { client_id: String(payload.client_id), reason: "data_change", route: "shots_edited" });
+}
+
+const HANDLERS: Record<string, EventHandler[]> = {
+  "session.shots_edited": [regenCoachingAfterEdit],
+};
+
+function defer(event: string, task: () => Promise<void>) {
+  const run = () => task().catch((e: unknown) => console.error(`Event handler failed: ${event}`, e));
+  try {
+    after(run);
+  } catch {
+    // Not inside a request: nothing to wait for
+    void run();
+  }
+}
+
 export async function triggerEvent(event: string, payload: any) {
   console.log(`Event triggered: ${event}`, payload);
-  // Future: integrate job queue / background worker
+  for (const handler of HANDLERS[event] ?? []) defer(event, () => handler(payload));
 }
@@ -1,6 +1,17 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import crypto from "crypto";
+import { getLlmProvider, type LlmProviderId } from "@/lib/ai/provider";
+import { isLowQuality } from "@/lib/analytics/dataQuality";
+import { deriveSkillTier, type SkillTier } from "@/lib/analytics/thresholds";
+import { completeCheckedJson, type OutputCheck } from "@/lib/engine/coaching/llm";
+import { assignPrompt, renderPrompt, type PromptRef } from "@/lib/engine/coaching/prompts";
+import {
+  PLAN3M_V1_1_DISPLAY_SCHEMA,
+  validateCoachingContent,
+  validateCoachingFragment,
+} from "@/lib/engine/coaching/schemas";
+import { withStandardizedMetrics } from "@/lib/metrics/snapshot";
 
 /**
  * POST /api/internal/plans/plan3m-recompute
@@ -9,20 +20,24 @@ import crypto from "crypto";
  * ✅ Pointer update: moves client_active_plans.active_plan3m_id to the new row.
  * ✅ Bootstrap: if active_plan3m_id is NULL or points to a missing row, create first plan3m_v1.1.
  * ✅ Deterministic inputs snapshot: stores inputs_snapshot + inputs_hash inside content_json (no schema changes).
+ * ✅ Standardized: the snapshot's metrics are read at standard conditions (raw values kept as metrics_as_recorded).
  * ✅ Skill-tier aware: derives skill_tier from handicap (if present) and adapts baseline + AI prompt.
- * ✅ Rich AI (optional): if OPENAI_API_KEY present and PLAN3M_USE_AI !== "false", generates richer display + content_md.
+ * ✅ Rich AI (optional): if the LLM provider (lib/ai/provider.ts) is available and PLAN3M_USE_AI !== "false", generates richer display + content_md.
+ * ✅ Versioned prompt: the AI prompt is a template from lib/engine/coaching/prompts (version per client, recorded in meta.prompt).
+ * ✅ Schema-checked: AI display gets a repair turn when it fails the plan3m_v1.1 display schema; content_json is
+ *    validated against the registry (lib/engine/coaching/schemas) before it is written.
  *
  * Writes only to existing tables/columns:
- * - coaching_versions: client_id, session_id, version_index, data_hash, content_json, generated_by, reason
+ * - coaching_versions: client_id, session_id, version_index, data_hash, content_json, generated_by, reason, schema_version
  * - client_active_plans: active_plan3m_id, plan3m_touched_at, updated_at
  */
 
 const PLAN3M_ANCHOR_SESSION_ID = "00000000-0000-0000-0000-000000000000";
-const PLAN3M_SCHEMA_VERSION = "plan3m_v1.1";
+const PLAN3M_SCHEMA_VERSION = "plan3m_v1.1" as const;
 
 type Json = null | boolean | number | string | Json[] | { [k: string]: Json };
 
-type SkillTier = "scratch" | "advanced" | "intermediate" | "beginner" | "unknown";
+export { deriveSkillTier, type SkillTier };
 
 type WeekPlan = {
   week_number: number;
@@ -89,15 +104,6 @@ function getNumberDeep(obj: unknown, paths: string[]): number | null {
   return null;
 }
 
-function deriveSkillTier(handicap: number | null): SkillTier {
-  if (handicap === null) return "unknown";
-  // Conservative tiers; adjust later without schema change.
-  if (handicap <= 0.5) return "scratch";
-  if (handicap <= 5) return "advanced";
-  if (handicap <= 12) return "intermediate";
-  return "beginner";
-}
-
 function generateBaselineDisplay(args: { startDateIso?: string; tier: SkillTier; handicap: number | null }): Plan3mDisplay {
   const start = args.startDateIso ? new Date(`${args.startDateIso}T00:00:00.000Z`) : new Date();
   const startDay = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
@@ -325,106 +331,33 @@ function normalizeDisplay(x: unknown): Plan3mDisplay | null {
   return { headline, summary, success_criteria: success, weeks, content_md };
 }
 
-async function callOpenAIForPlan(args: {
-  apiKey: string;
-  model: string;
+// The template version that wrote the display is kept in content_json.meta.prompt
+type PlanLlmResult = { display: Plan3mDisplay; template: PromptRef };
+
+async function callLlmForPlan(args: {
+  client_id: string;
   snapshot: Record<string, Json>;
   baseline: Plan3mDisplay;
   tier: SkillTier;
-}): Promise<Plan3mDisplay | null> {
-  const { apiKey, model, snapshot, baseline, tier } = args;
-
-  const system = [
-    "You are a world-class golf performance coach.",
-    "Generate a 12-week 3-month plan in British English.",
-    "Output MUST be JSON only matching the required schema.",
-    "Be specific, progressive, and practical. No fluff.",
-    "Use the snapshot (stats + previous plan if any) to personalise the plan.",
-    tier === "scratch"
-      ? "Player is scratch: avoid fundamentals. Focus on dispersion, wedge proximity, strategy, pressure simulation, and scoring edge."
-      : tier === "advanced"
-        ? "Player is advanced: focus on performance optimisation, dispersion, proximity, and pressure reps; avoid beginner fundamentals."
-        : tier === "intermediate"
-          ? "Player is intermediate: blend core mechanics with constraint-based practice and scoring habits."
-          : tier === "beginner"
-            ? "Player is beginner: prioritise strike, low-point control, and simple repeatable cues."
-            : "Skill tier unknown: keep plan balanced and avoid overly technical assumptions.",
-  ].join(" ");
-
-  const user = {
-    task: "Generate a rich 3-month plan for the client.",
-    required_schema: {
-      headline: "string",
-      summary: "string[] (3-6 bullets)",
-      success_criteria: "string[] (3-6 bullets)",
-      content_md: "string (markdown narrative; optional but preferred)",
-      weeks: [
-        {
-          week_number: "1..12",
-          title: "string",
-          min_sessions: "number (2-4)",
-          clubs: "string[]",
-          aim: "string",
-          drills: "string[] (3-5)",
-          constraints: "string[] (2-4)",
-          checkpoints: "string[] (2-4)",
-          success_criteria: "string[] (2-4)",
-          date_window: { start: "YYYY-MM-DD", end: "YYYY-MM-DD" },
-        },
-      ],
-    },
-    baseline_example: baseline,
-    snapshot,
+}): Promise<PlanLlmResult | null> {
+  const { client_id, snapshot, baseline, tier } = args;
+  const prompt = renderPrompt(assignPrompt("plan3m", client_id), { tier, baseline, snapshot });
+
+  // normalizeDisplay drops malformed weeks; the display schema catches what it lets through (dates, ranges)
+  const check: OutputCheck<Plan3mDisplay> = (parsed) => {
+    const display = normalizeDisplay(parsed);
+    const errors = validateCoachingFragment(display ?? parsed, PLAN3M_V1_1_DISPLAY_SCHEMA);
+    if (display && !errors.length) return { ok: true, value: display };
+    return { ok: false, errors: errors.length ? errors : ["/weeks must hold exactly 12 complete weeks"] };
   };
 
-  const resp = await fetch("https://api.openai.com/v1/responses", {
-    method: "POST",
-    headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
-    body: JSON.stringify({
-      model,
-      input: [
-        { role: "system", content: [{ type: "text", text: system }] },
-        { role: "user", content: [{ type: "text", text: JSON.stringify(user) }] },
-      ],
-      temperature: 0.4,
-      max_output_tokens: 2600,
-    }),
-  });
-
-  if (!resp.ok) return null;
-
-  const data: unknown = await resp.json();
-  if (!isJsonObject(data)) return null;
-
-  const output = Array.isArray(data.output) ? data.output : null;
-  if (!output) return null;
-
-  let text: string | null = null;
-  for (const item of output) {
-    if (!isJsonObject(item)) continue;
-    const content = Array.isArray(item.content) ? item.content : null;
-    if (!content) continue;
-
-    for (const c of content) {
-      if (!isJsonObject(c)) continue;
-      if (c.type === "output_text" && typeof c.text === "string") {
-        text = c.text;
-        break;
-      }
-    }
-    if (text) break;
-  }
-
-  if (!text) return null;
-
-  let parsed: unknown;
   try {
-    parsed = JSON.parse(text);
+    const checked = await completeCheckedJson(prompt, check);
+    if (!checked.value) return null;
+    return { display: checked.value, template: prompt.template };
   } catch {
     return null;
   }
-
-  return normalizeDisplay(parsed);
 }
 
 export async function handlePlan3mRecompute(req: Request) {
@@ -491,15 +424,17 @@ export async function handlePlan3mRecompute(req: Request) {
       }
     }
 
-    // 3) Pull latest session_stats snapshot (may be null; no regression)
-    const { data: statRow } = await supabase
+    // 3) Pull latest session_stats snapshot (may be null; no regression). Low-quality sessions are skipped.
+    const { data: statRows } = await supabase
       .from("session_stats")
       .select("stats_json, created_at")
       .eq("client_id", client_id)
       .eq("stat_type", "snapshot")
       .order("created_at", { ascending: false })
-      .limit(1)
-      .maybeSingle();
+      .limit(10);
+
+    const statRow =
+      (statRows ?? []).find((r) => !isLowQuality(getNumberDeep(r.stats_json, ["data_quality.score"]))) ?? null;
 
     const stats_json: Json | null =
       statRow && isJsonObject(statRow) && "stats_json" in statRow ? ((statRow as { stats_json?: unknown }).stats_json as Json) : null;
@@ -545,30 +480,31 @@ export async function handlePlan3mRecompute(req: Request) {
       reason,
       previous_plan_id: prevPlanIdValid ? prevPlanId : null,
       player_profile: { handicap, skill_tier },
-      latest_session_stats_snapshot: stats_json,
+      // Standard conditions, so a cold or high-altitude session doesn't read as lost distance
+      latest_session_stats_snapshot: withStandardizedMetrics(stats_json),
     };
 
     const inputs_hash = sha256Hex(JSON.stringify(inputs_snapshot));
 
     // 7) Optional AI generation
-    const allowAi = !!process.env.OPENAI_API_KEY && process.env.PLAN3M_USE_AI !== "false";
-    const model = process.env.PLAN3M_OPENAI_MODEL || "gpt-4.1-mini";
+    const llm = getLlmProvider();
+    const allowAi = !llm.unavailable() && process.env.PLAN3M_USE_AI !== "false";
 
     let display: Plan3mDisplay = baseline;
-    let generatedBy: "openai" | "system" = "system";
+    let generatedBy: LlmProviderId | "system" = "system";
+    let ai: PlanLlmResult | null = null;
 
-    if (allowAi && process.env.OPENAI_API_KEY) {
-      const ai = await callOpenAIForPlan({
-        apiKey: process.env.OPENAI_API_KEY,
-        model,
+    if (allowAi) {
+      ai = await callLlmForPlan({
+        client_id,
         snapshot: inputs_snapshot,
         baseline,
         tier: skill_tier,
       });
 
       if (ai) {
-        display = ai;
-        generatedBy = "openai";
+        display = ai.display;
+        generatedBy = llm.id;
       } else if (prevDisplay) {
         display = prevDisplay;
       }
@@ -584,7 +520,13 @@ export async function handlePlan3mRecompute(req: Request) {
       inputs_hash,
       recompute_triggered_at: nowIso,
       previous_plan_id: prevPlanIdValid ? prevPlanId : null,
-      meta: { generated_by: generatedBy, reason, bootstrap: !prevPlanIdValid, skill_tier },
+      meta: {
+        generated_by: generatedBy,
+        reason,
+        bootstrap: !prevPlanIdValid,
+        skill_tier,
+        prompt: ai ? { id: ai.template.id, version: ai.template.version, experiment: ai.template.experiment } : null,
+      },
     };
 
     // 9) data_hash (NOT NULL) - stable + does not depend on full content_json
@@ -599,6 +541,11 @@ export async function handlePlan3mRecompute(req: Request) {
       })
     );
 
+    const schemaCheck = validateCoachingContent(content_json, PLAN3M_SCHEMA_VERSION);
+    if (!schemaCheck.ok) {
+      return NextResponse.json({ error: "output_schema_invalid", details: schemaCheck.errors }, { status: 500 });
+    }
+
     // 10) Append new plan version row
     const { data: newCv, error: insErr } = await supabase
       .from("coaching_versions")
@@ -608,6 +555,7 @@ export async function handlePlan3mRecompute(req: Request) {
         version_index: nextVersionIndex,
         generated_by: generatedBy,
         reason,
+        schema_version: PLAN3M_SCHEMA_VERSION,
         content_json,
         data_hash,
       })
@@ -638,7 +586,7 @@ export async function handlePlan3mRecompute(req: Request) {
       new_plan_id: newCv.id,
       version_index: nextVersionIndex,
       touched_at: nowIso,
-      ai_used: generatedBy === "openai",
+      ai_used: generatedBy !== "system",
       inputs_hash,
       skill_tier,
       handicap,
@@ -1,157 +1,22 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
 import { createClient } from "@supabase/supabase-js";
 import crypto from "crypto";
-import Ajv, { type ErrorObject } from "ajv";
-import addFormats from "ajv-formats";
-import { calcCostUsd } from "@/lib/ai/pricing";
-
-type JsonObject = Record<string, unknown>;
-type AjvInstance = InstanceType<typeof Ajv>;
+import { completionCostUsd, getLlmProvider } from "@/lib/ai/provider";
+import { isLowQuality } from "@/lib/analytics/dataQuality";
+import { getClientTrends } from "@/lib/analytics/trends";
+import { SNAPSHOT_METRIC_IDS, withStandardizedMetrics } from "@/lib/metrics/snapshot";
+import { completeCheckedJson } from "@/lib/engine/coaching/llm";
+import { assignPrompt, renderPrompt, type RenderedPrompt } from "@/lib/engine/coaching/prompts";
+import { THEME_ENUM, validateCoachingContent } from "@/lib/engine/coaching/schemas";
 
 const NIL_UUID = "00000000-0000-0000-0000-000000000000";
 
-// ===== Enum + Schema (authoritative) =====
-const THEME_ENUM = [
-  "dispersion_control",
-  "start_line_control",
-  "contact_quality",
-  "distance_control",
-  "face_to_path_control",
-  "low_point_control",
-  "club_selection_strategy",
-  "shot_shape_intent",
-  "short_game_proximity",
-  "putting_start_line_speed",
-] as const;
-
-const ALLOWED_METRIC_IDS = new Set([
-    "carry_avg",
-    "total_distance_avg",
-    "ball_speed_avg",
-    "club_speed_avg",
-    "smash_factor_avg",
-    "launch_angle_avg",
-    "spin_rate_avg",
-    "offline_dispersion_p50",
-    "offline_dispersion_p90",
-    "start_line_sd",
-    "face_to_path_avg",
-    "attack_angle_avg",
-    "dynamic_loft_avg",
-    "fairway_pct",
-    "gir_pct",
-    "penalty_rate",
-    "shot_quality_pct",
-]);
-
-const PLAN6M_V1_SCHEMA: JsonObject = {
-  "$schema": "http://json-schema.org/draft-07/schema#",
-  "$id": "https://stryklabs.com/schemas/plan6m_v1.json",
-  "title": "Plan6M_V1",
-  "type": "object",
-  "additionalProperties": false,
-  "required": [
-    "plan_id",
-    "client_id",
-    "created_at",
-    "time_window",
-    "plan_stability",
-    "plan_confidence",
-    "themes",
-    "what_good_looks_like",
-    "schema_version",
-  ],
-  "properties": {
-    "plan_id": { "type": "string", "format": "uuid" },
-    "client_id": { "type": "string", "format": "uuid" },
-    "created_at": { "type": "string", "format": "date-time" },
-    "time_window": {
-      "type": "object",
-      "additionalProperties": false,
-      "required": ["start", "end"],
-      "properties": {
-        "start": { "type": "string", "format": "date-time" },
-        "end": { "type": "string", "format": "date-time" },
-      },
-    },
-    "plan_stability": {
-      "type": "string",
-      "enum": ["unchanged", "minor_refinement", "reprioritised"],
-    },
-    "plan_confidence": { "type": "string", "enum": ["low", "medium", "high"] },
-    "themes": {
-      "type": "array",
-      "minItems": 1,
-      "maxItems": 3,
-      "items": {
-        "type": "object",
-        "additionalProperties": false,
-        "required": [
-          "theme_id",
-          "priority",
-          "rationale",
-          "progress_metrics",
-          "confidence",
-          "confidence_label",
-        ],
-        "properties": {
-          "theme_id": { "type": "string", "enum": THEME_ENUM as unknown as string[] },
-          "priority": { "type": "integer", "minimum": 1, "maximum": 3 },
-          "rationale": { "type": "string", "minLength": 1, "maxLength": 220 },
-          "progress_metrics": {
-            "type": "array",
-            "minItems": 1,
-            "maxItems": 4,
-            "items": {
-              "type": "object",
-              "additionalProperties": false,
-              "required": ["metric_id", "direction", "target_hint"],
-              "properties": {
-                "metric_id": {
-                  "type": "string",
-                  "enum": [
-                    "carry_avg",
-                    "total_distance_avg",
-                    "ball_speed_avg",
-                    "club_speed_avg",
-                    "smash_factor_avg",
-                    "launch_angle_avg",
-                    "spin_rate_avg",
-                    "offline_dispersion_p50",
-                    "offline_dispersion_p90",
-                    "start_line_sd",
-                    "face_to_path_avg",
-                    "attack_angle_avg",
-                    "dynamic_loft_avg",
-                    "fairway_pct",
-                    "gir_pct",
-                    "penalty_rate",
-                    "shot_quality_pct",
-                  ],
-                },
-                "direction": { "type": "string", "enum": ["up", "down", "flat"] },
-                "target_hint": { "type": "string", "minLength": 1, "maxLength": 120 },
-              },
-            },
-          },
-          "confidence": { "type": "number", "minimum": 0, "maximum": 1 },
-          "confidence_label": { "type": "string", "enum": ["low", "medium", "high"] },
-        },
-      },
-    },
-    "what_good_looks_like": {
-      "type": "array",
-      "minItems": 1,
-      "maxItems": 6,
-      "items": { "type": "string", "minLength": 1, "maxLength": 160 },
-    },
-    "change_reason": { "type": ["string", "null"], "maxLength": 220 },
-    "schema_version": { "type": "string", "const": "plan6m_v1" },
-  },
-};
+// ===== Enum + Schema (authoritative: lib/engine/coaching/schemas) =====
+
+// Metric ids a plan may cite = the ids every session snapshot carries (lib/metrics/snapshot)
+const ALLOWED_METRIC_IDS = new Set<string>(SNAPSHOT_METRIC_IDS);
 
 type Plan6mV1 = {
   schema_version: "plan6m_v1";
@@ -184,28 +49,6 @@ function sha256Hex(s: string): string {
   return crypto.createHash("sha256").update(s).digest("hex");
 }
 
-function ajvValidateOrThrow<T>(
-  ajv: AjvInstance,
-  schema: JsonObject,
-  value: unknown,
-  label: string
-): T {
-  const validate = ajv.compile(schema);
-  const ok = validate(value);
-  if (!ok) {
-    const errors = (validate.errors ?? []) as ErrorObject[];
-    const msg = errors
-      .slice(0, 8)
-      .map((e) => {
-        const path = (e as any).instancePath ?? (e as any).dataPath ?? "(root)";
-        return `${path} ${e.message ?? "invalid"}`;
-      })
-      .join("; ");
-    throw new Error(`${label} failed schema validation: ${msg}`);
-  }
-  return value as T;
-}
-
 function requireSecret(req: Request): boolean {
   const expected = process.env.COACHING_GENERATE_SECRET || "";
   if (!expected) return false;
@@ -300,6 +143,7 @@ export async function handleAdminPlan6mRegen(req: Request) {
   };
 
   let client_id: string | null = null;
+  let prompt: RenderedPrompt | null = null;
 
     try {
         const gate = await requireSecretOrAdmin(req);
@@ -307,10 +151,11 @@ export async function handleAdminPlan6mRegen(req: Request) {
             return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
         }
 
-        const openAiKey = process.env.OPENAI_API_KEY;
-        if (!openAiKey) {
+        const llm = getLlmProvider();
+        const llmUnavailable = llm.unavailable();
+        if (llmUnavailable) {
             return NextResponse.json(
-                { ok: false, error: "Missing OPENAI_API_KEY" },
+                { ok: false, error: `LLM provider ${llm.id} unavailable: ${llmUnavailable}` },
                 { status: 500 }
             );
         }
@@ -324,7 +169,6 @@ export async function handleAdminPlan6mRegen(req: Request) {
         const supabase = createClient(supabaseUrl, serviceKey, {
             auth: { persistSession: false },
         });
-        const openai = new OpenAI({ apiKey: openAiKey });
 
         // Input:
         // { client_id, reason, mode?: "noop"|"force" } OR { client_id, reason, force?: boolean }
@@ -355,14 +199,16 @@ export async function handleAdminPlan6mRegen(req: Request) {
                 : null;
 
         // Load recent sessions + snapshots (rolling window). Keep it simple and deterministic.
+        // Low-quality sessions (sessions.quality_score, lib/analytics/dataQuality.ts) are skipped.
         const recentSessionsQ = await supabase
             .from("sessions")
-            .select("id, created_at")
+            .select("id, created_at, quality_score")
             .eq("client_id", client_id)
             .order("created_at", { ascending: false })
             .limit(12);
 
         const recentIds = (recentSessionsQ.data ?? [])
+            .filter((r: any) => !isLowQuality(r.quality_score))
             .map((r: any) => (typeof r.id === "string" ? r.id : null))
             .filter((v: any): v is string => Boolean(v))
             .slice(0, 10);
@@ -374,7 +220,8 @@ export async function handleAdminPlan6mRegen(req: Request) {
                 .select("session_id, data_hash, stats_json, created_at")
                 .in("session_id", recentIds);
 
-            snapshots = (snapsQ.data ?? []).map((r: any) => r);
+            // Plans compare sessions at standard conditions (lib/metrics/snapshot withStandardizedMetrics)
+            snapshots = (snapsQ.data ?? []).map((r: any) => ({ ...r, stats_json: withStandardizedMetrics(r.stats_json) }));
         }
 
         if (snapshots.length === 0) {
@@ -382,7 +229,7 @@ export async function handleAdminPlan6mRegen(req: Request) {
                 {
                     ok: false,
                     error:
-                        "No session_stats found for this client (need at least 1 session snapshot)",
+                        "No session_stats found for this client (need at least 1 session snapshot that is not low quality)",
                 },
                 { status: 409 }
             );
@@ -480,117 +327,50 @@ export async function handleAdminPlan6mRegen(req: Request) {
             }
         }
 
-        // OpenAI contract: strict JSON only, schema validated.
-        const systemPrompt = `
-You are an expert golf coach building a 12-week (6-month) improvement plan.
-Plans change slowly. Be stable, conservative, and practical.
-Use ONLY the provided theme_id enums.
-Output MUST be VALID JSON that matches the provided JSON schema.
-No markdown. No commentary. No extra keys. Never invent metric_id values; only use those allowed by the schema.
-
-`.trim();
-
-        const developerPrompt = `
-THEME_ENUM (authoritative)
-${JSON.stringify(THEME_ENUM)}
-
-JSON_SCHEMA (authoritative)
-${JSON.stringify(PLAN6M_V1_SCHEMA)}
-
-RULES
-- schema_version MUST be "plan6m_v1"
-- Use ONLY theme_id values from THEME_ENUM
-- Max 3 themes
-- Do not reference devices, brands, or UI.
-- No free-text new themes.
-- progress_metrics.metric_id MUST be one of:
-  carry_avg, total_distance_avg, ball_speed_avg, club_speed_avg, smash_factor_avg,
-  launch_angle_avg, spin_rate_avg, offline_dispersion_p50, offline_dispersion_p90,
-  start_line_sd, face_to_path_avg, attack_angle_avg, dynamic_loft_avg,
-  fairway_pct, gir_pct, penalty_rate, shot_quality_pct
-- Do NOT invent new metric_id values.
-`.trim();
-
-        const userPrompt = `
-INPUT
-client_id: ${client_id}
-
-session_snapshots (most recent first):
-${JSON.stringify(snapshots, null, 2)}
-
-TASK
-Regenerate the 6-month plan. Default behaviour is stable: if the existing plan remains valid, output "unchanged".
-Return JSON ONLY matching the schema.
-`.trim();
-
-        const model = "gpt-4.1-mini";
-        const temperature = 0.1;
-
-        const completion = await openai.chat.completions.create({
-            model,
-            temperature,
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "developer", content: developerPrompt },
-                { role: "user", content: userPrompt },
-            ],
-            response_format: { type: "json_object" },
-        });
-
-        const raw = (completion.choices?.[0]?.message?.content ?? "").trim();
-        if (!raw) throw new Error("OpenAI returned empty response");
-
-        let parsed: unknown;
-        try {
-            parsed = JSON.parse(raw) as unknown;
-        } catch {
-            throw new Error("OpenAI returned non-JSON output");
-        }
+        // Cross-session trends: prompt context only, not part of data_hash (windows move with the date)
+        const trends = await getClientTrends(supabase, client_id).catch(() => null);
+        const trendInput = {
+            history_window: trends?.history_window ?? { sessions_considered: 0, trend_metrics_present: false },
+            trend_callouts: (trends?.callouts ?? []).map((c) => ({
+                metric_id: c.metric,
+                club: c.club,
+                direction: c.direction,
+                since: c.since,
+                text: c.text,
+            })),
+        };
 
-        // Enforce schema_version + created_at/client_id deterministically
-        if (parsed && typeof parsed === "object") {
-            const o = parsed as Record<string, unknown>;
-
-            const themes = (o as { themes?: unknown }).themes;
-            if (Array.isArray(themes)) {
-                for (const theme of themes as Array<Record<string, unknown>>) {
-                    const pm = (theme as { progress_metrics?: unknown }).progress_metrics;
-                    if (Array.isArray(pm)) {
-                        (theme as any).progress_metrics = (pm as Array<{ metric_id?: unknown }>).filter(
-                            (m) =>
-                                typeof m?.metric_id === "string" && ALLOWED_METRIC_IDS.has(m.metric_id)
-                        );
+        // LLM contract: strict JSON only, schema validated. The template version comes from the prompt registry
+        prompt = renderPrompt(assignPrompt("plan6m", client_id), { client_id, snapshots, trends: trendInput });
+
+        // Metric ids outside the snapshot registry are dropped before validation; anything else the schema rejects
+        // goes back to the model as a repair turn
+        const checked = await completeCheckedJson<Plan6mV1>(
+            prompt,
+            (o) => {
+                const themes = (o as { themes?: unknown }).themes;
+                if (Array.isArray(themes)) {
+                    for (const theme of themes as Array<Record<string, unknown>>) {
+                        const pm = (theme as { progress_metrics?: unknown }).progress_metrics;
+                        if (Array.isArray(pm)) {
+                            (theme as any).progress_metrics = (pm as Array<{ metric_id?: unknown }>).filter(
+                                (m) =>
+                                    typeof m?.metric_id === "string" && ALLOWED_METRIC_IDS.has(m.metric_id)
+                            );
+                        }
                     }
                 }
-            }
 
-            parsed = o;
-        }
-
-
-        const ajv = new Ajv({ allErrors: true });
-        addFormats(ajv);
-
-        const planJson = ajvValidateOrThrow<Plan6mV1>(
-            ajv,
-            PLAN6M_V1_SCHEMA,
-            parsed,
-            "plan6m_v1"
+                const schema = validateCoachingContent(o, "plan6m_v1");
+                return schema.ok ? { ok: true, value: o as Plan6mV1 } : { ok: false, errors: schema.errors };
+            }
         );
 
-        // Extra guardrail: all theme_ids used must be in THEME_ENUM
-        const planThemes = (planJson as any)?.themes;
-        if (Array.isArray(planThemes)) {
-            for (const t of planThemes) {
-                const theme_id = (t as any)?.theme_id;
-                if (
-                    typeof theme_id === "string" &&
-                    !THEME_ENUM.includes(theme_id as any)
-                ) {
-                    throw new Error(`plan contains invalid theme_id: ${theme_id}`);
-                }
-            }
+        const completion = checked.completion;
+        if (!checked.value) {
+            throw new Error(`plan6m_v1 failed schema validation: ${checked.errors.join("; ")}`);
         }
+        const planJson = checked.value;
 
         // version_index: next integer for (client_id, session_id=NIL_UUID)
         const maxV = await supabase
@@ -620,6 +400,7 @@ Return JSON ONLY matching the schema.
         version_index: nextIndex,
         reason: active_plan6m_id ? "data_change" : "initial",
         generated_by: "admin_plan6m_regen",
+        schema_version: "plan6m_v1",
         content_json: planJson,
         content_md: null,
       })
@@ -637,7 +418,7 @@ Return JSON ONLY matching the schema.
     // NOTE: This route generates an immutable draft only. Activation is a separate admin step.
 
     const usage = completion.usage;
-    const modelUsed = completion.model ?? model;
+    const modelUsed = completion.model;
 
     await safeTelemetry({
       request_id: requestId,
@@ -647,16 +428,18 @@ Return JSON ONLY matching the schema.
       client_id,
       duration_ms: Date.now() - t0,
       mode,
+      provider: completion.provider,
       model: modelUsed,
-      temperature,
+      temperature: prompt.temperature,
       prompt_tokens: usage?.prompt_tokens ?? null,
       completion_tokens: usage?.completion_tokens ?? null,
       total_tokens: usage?.total_tokens ?? null,
-      cost_usd: calcCostUsd(
-        modelUsed,
-        usage?.prompt_tokens,
-        usage?.completion_tokens
-      ),
+      cost_usd: completionCostUsd(completion),
+      schema_version: "plan6m_v1",
+      repair_attempts: checked.repair_attempts,
+      prompt_id: prompt.template.id,
+      prompt_version: prompt.template.version,
+      prompt_experiment: prompt.template.experiment,
     });
 
     return NextResponse.json({
@@ -678,6 +461,9 @@ Return JSON ONLY matching the schema.
       client_id,
       duration_ms: Date.now() - t0,
       error_message: msg.slice(0, 300),
+      prompt_id: prompt?.template.id ?? null,
+      prompt_version: prompt?.template.version ?? null,
+      prompt_experiment: prompt?.template.experiment ?? null,
     });
 
     return NextResponse.json({ ok: false, error: msg }, { status: 500 });
@@ -0,0 +1,354 @@
+// lib/ingest/clubInference.ts
+// Club inference for untagged shots. Deterministic (no random init): shots are clustered on ball speed,
+// launch, back spin and carry, clusters are ordered by carry and mapped onto the player's bag_clubs slots
+// in bag order. Expected carry per slot comes from the player's own tagged shots when there are enough
+// (compared at standard conditions, then converted to the session's), otherwise from a reference table scaled to fit.
+//
+// Writes shots.club + club_inferred + club_confidence; device-tagged and confirmed clubs are never touched.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { median } from "@/lib/analytics/numbers";
+import { parseClubSlot } from "@/lib/analytics/clubs";
+import { carryFactor, readSessionConditions, standardizeShots, type StandardizableShot } from "@/lib/analytics/conditions";
+
+export const CLUB_INFERENCE_VERSION = 1;
+
+type Feature = "ball_speed" | "launch_angle" | "back_spin" | "carry";
+const FEATURES: Feature[] = ["ball_speed", "launch_angle", "back_spin", "carry"];
+
+// A feature is used when at least this share of shots has it (bare-bones monitors often only report carry).
+const FEATURE_COVERAGE = 0.8;
+const MIN_SHOTS_PER_CLUSTER = 3;
+const MAX_CLUSTERS = 14;
+// Below this mean silhouette the session is treated as one club.
+const MIN_SILHOUETTE = 0.35;
+const SILHOUETTE_SAMPLE = 600;
+// Shots of one club a player must have tagged before their own carry replaces the reference table.
+const MIN_CALIBRATION_SHOTS = 5;
+// Yards of carry error at which the slot fit drops to 1/e.
+const FIT_SCALE_YDS = 12;
+
+export type InferenceShot = {
+  id: string;
+  ball_speed: number | null;
+  launch_angle: number | null;
+  back_spin: number | null;
+  carry: number | null;
+};
+
+export type BagSlot = { label: string; key: string; refCarry: number };
+
+export type InferredClub = { shotId: string; club: string; confidence: number };
+
+export type ClubInference = {
+  version: number;
+  clusters: number;
+  features: Feature[];
+  calibrated: boolean;
+  assignments: InferredClub[];
+};
+
+/* ---------- bag slots ---------- */
+
+/** Active bag slots, longest club first. */
+export async function loadBagSlots(supabase: SupabaseClient, userId: string): Promise<BagSlot[]> {
+  const { data } = await supabase.from("bag_clubs").select("slot").eq("user_id", userId).eq("is_active", true);
+
+  const seen = new Set<string>();
+  const slots: BagSlot[] = [];
+  for (const r of data ?? []) {
+    const label = String(r.slot ?? "").trim();
+    const parsed = label ? parseClubSlot(label) : null;
+    if (!parsed || seen.has(parsed.key)) continue;
+    seen.add(parsed.key);
+    slots.push({ label, ...parsed });
+  }
+  return slots.sort((a, b) => b.refCarry - a.refCarry);
+}
+
+/**
+ * Median carry per club key from the player's own tagged (device or confirmed) shots in recent sessions,
+ * at standard conditions (sessions.conditions, lib/analytics/conditions.ts).
+ */
+export async function loadCarryCalibration(supabase: SupabaseClient, clientId: string): Promise<Record<string, number>> {
+  const { data: sessions } = await supabase
+    .from("sessions")
+    .select("id, conditions")
+    .eq("client_id", clientId)
+    .order("session_date", { ascending: false })
+    .limit(60);
+
+  const ids = (sessions ?? []).map((s) => String(s.id));
+  if (!ids.length) return {};
+  const conditions = new Map((sessions ?? []).map((s) => [String(s.id), readSessionConditions(s.conditions)]));
+
+  const { data: rows } = await supabase
+    .from("shots")
+    .select("session_id, club, carry, total, ball_speed, launch_angle, back_spin, side_spin, estimated_fields")
+    .in("session_id", ids)
+    .eq("club_inferred", false)
+    .eq("excluded", false)
+    .not("club", "is", null)
+    .not("carry", "is", null)
+    .limit(5000);
+
+  const bySession = new Map<string, Array<StandardizableShot & { club: string }>>();
+  for (const r of rows ?? []) {
+    const sid = String(r.session_id);
+    bySession.set(sid, [...(bySession.get(sid) ?? []), r as StandardizableShot & { club: string }]);
+  }
+  const shots = Array.from(bySession.entries()).flatMap(
+    ([sid, list]) => standardizeShots(list, conditions.get(sid) ?? null).shots
+  );
+
+  const byKey = new Map<string, number[]>();
+  for (const s of shots) {
+    const parsed = parseClubSlot(String(s.club));
+    if (!parsed || typeof s.carry !== "number") continue;
+    byKey.set(parsed.key, [...(byKey.get(parsed.key) ?? []), s.carry]);
+  }
+
+  const out: Record<string, number> = {};
+  for (const [key, carries] of byKey) {
+    if (carries.length >= MIN_CALIBRATION_SHOTS) out[key] = median(carries) ?? 0;
+  }
+  return out;
+}
+
+/* ---------- clustering ---------- */
+
+// Carry in yards; ball speed converted with a typical ~1.6 yd/mph when the monitor doesn't report carry.
+function estCarry(s: InferenceShot): number {
+  return typeof s.carry === "number" ? s.carry : (s.ball_speed ?? 0) * 1.6;
+}
+
+function dist2(a: number[], b: number[]): number {
+  let d = 0;
+  for (let i = 0; i < a.length; i++) d += (a[i] - b[i]) ** 2;
+  return d;
+}
+
+/** k-means with centroids seeded at carry quantiles (points are pre-sorted by carry), so reruns agree. */
+function kMeans(points: number[][], k: number): { labels: number[]; centroids: number[][] } {
+  let centroids = Array.from({ length: k }, (_, j) => points[Math.floor(((j + 0.5) * points.length) / k)].slice());
+  let labels = new Array<number>(points.length).fill(0);
+
+  for (let iter = 0; iter < 50; iter++) {
+    const next = points.map((p) => {
+      let best = 0;
+      for (let j = 1; j < k; j++) if (dist2(p, centroids[j]) < dist2(p, centroids[best])) best = j;
+      return best;
+    });
+    const moved = next.some((l, i) => l !== labels[i]);
+    labels = next;
+
+    centroids = centroids.map((c, j) => {
+      const members = points.filter((_, i) => labels[i] === j);
+      if (!members.length) return c;
+      return c.map((_, f) => members.reduce((a, p) => a + p[f], 0) / members.length);
+    });
+    if (!moved && iter > 0) break;
+  }
+
+  return { labels, centroids };
+}
+
+function meanSilhouette(points: number[][], labels: number[], k: number): number {
+  const stride = Math.max(1, Math.ceil(points.length / SILHOUETTE_SAMPLE));
+  const idx = points.map((_, i) => i).filter((i) => i % stride === 0);
+
+  let total = 0;
+  for (const i of idx) {
+    const sums = new Array<number>(k).fill(0);
+    const counts = new Array<number>(k).fill(0);
+    for (const j of idx) {
+      if (i === j) continue;
+      sums[labels[j]] += Math.sqrt(dist2(points[i], points[j]));
+      counts[labels[j]]++;
+    }
+    const a = counts[labels[i]] ? sums[labels[i]] / counts[labels[i]] : 0;
+    let b = Infinity;
+    for (let c = 0; c < k; c++) if (c !== labels[i] && counts[c]) b = Math.min(b, sums[c] / counts[c]);
+    if (!Number.isFinite(b)) continue;
+    total += Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0;
+  }
+  return idx.length ? total / idx.length : 0;
+}
+
+/* ---------- cluster -> slot ---------- */
+
+/** Order-preserving match of clusters (longest carry first) onto slots (longest first), minimising carry error. */
+function matchSlots(carries: number[], expected: number[]): { slots: number[]; cost: number } {
+  const k = carries.length;
+  const n = expected.length;
+  // best[i][j]: clusters 0..i-1 placed on slots 0..j-1
+  const best = Array.from({ length: k + 1 }, () => new Array<number>(n + 1).fill(Infinity));
+  const take = Array.from({ length: k + 1 }, () => new Array<boolean>(n + 1).fill(false));
+  for (let j = 0; j <= n; j++) best[0][j] = 0;
+
+  for (let i = 1; i <= k; i++) {
+    for (let j = i; j <= n; j++) {
+      const skip = best[i][j - 1];
+      const use = best[i - 1][j - 1] + Math.abs(carries[i - 1] - expected[j - 1]);
+      best[i][j] = Math.min(skip, use);
+      take[i][j] = use <= skip;
+    }
+  }
+
+  const slots = new Array<number>(k).fill(0);
+  for (let i = k, j = n; i > 0; j--) {
+    if (take[i][j]) slots[--i] = j - 1;
+  }
+  return { slots, cost: best[k][n] };
+}
+
+/** Expected carry per slot: the player's own medians where known, the reference table (scaled to them) elsewhere. */
+function expectedCarries(slots: BagSlot[], calibration: Record<string, number>, scale: number): number[] {
+  return slots.map((s) => calibration[s.key] ?? s.refCarry * scale);
+}
+
+/**
+ * Cluster untagged shots and map clusters onto bag slots. Pure + deterministic: same shots, bag and
+ * calibration -> same result. Shots without carry or ball speed are left untagged.
+ */
+export function inferClubs(
+  shots: InferenceShot[],
+  slots: BagSlot[],
+  calibration: Record<string, number> = {}
+): ClubInference {
+  const empty = (features: Feature[] = []): ClubInference => ({
+    version: CLUB_INFERENCE_VERSION,
+    clusters: 0,
+    features,
+    calibrated: false,
+    assignments: [],
+  });
+
+  const usable = shots.filter((s) => typeof s.carry === "number" || typeof s.ball_speed === "number");
+  if (!usable.length || !slots.length) return empty();
+
+  const features = FEATURES.filter(
+    (f) => usable.filter((s) => typeof s[f] === "number").length >= FEATURE_COVERAGE * usable.length
+  );
+  if (!features.includes("carry") && !features.includes("ball_speed")) return empty(features);
+
+  // z-score each feature; gaps filled with the feature mean
+  const stats = features.map((f) => {
+    const xs = usable.map((s) => s[f]).filter((x): x is number => typeof x === "number");
+    const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+    const sd = Math.sqrt(xs.reduce((a, b) => a + (b - mean) ** 2, 0) / xs.length) || 1;
+    return { f, mean, sd };
+  });
+
+  const sorted = [...usable].sort((a, b) => estCarry(b) - estCarry(a) || a.id.localeCompare(b.id));
+  const points = sorted.map((s) => stats.map(({ f, mean, sd }) => ((typeof s[f] === "number" ? (s[f] as number) : mean) - mean) / sd));
+
+  // k by silhouette; one club when no split is convincing
+  const maxK = Math.min(slots.length, Math.floor(sorted.length / MIN_SHOTS_PER_CLUSTER), MAX_CLUSTERS);
+  let fit = kMeans(points, 1);
+  let bestScore = MIN_SILHOUETTE;
+  for (let k = 2; k <= maxK; k++) {
+    const run = kMeans(points, k);
+    const sizes = new Array<number>(k).fill(0);
+    run.labels.forEach((l) => sizes[l]++);
+    if (sizes.some((n) => n < MIN_SHOTS_PER_CLUSTER)) continue;
+    const score = meanSilhouette(points, run.labels, k);
+    if (score > bestScore) {
+      bestScore = score;
+      fit = run;
+    }
+  }
+
+  const k = fit.centroids.length;
+
+  const clusterCarry = fit.centroids.map((_, j) => median(sorted.filter((_, i) => fit.labels[i] === j).map(estCarry)) ?? 0);
+  const order = clusterCarry.map((_, j) => j).sort((a, b) => clusterCarry[b] - clusterCarry[a]);
+  const carriesDesc = order.map((j) => clusterCarry[j]);
+
+  // Scale the reference table to the player: from their own tagged clubs, else the best fit in 0.6-1.3
+  const calibratedKeys = slots.filter((s) => calibration[s.key] !== undefined);
+  const calibrated = calibratedKeys.length > 0;
+  let scale = 1;
+  if (calibrated) {
+    scale = median(calibratedKeys.map((s) => calibration[s.key] / s.refCarry)) ?? 1;
+  } else if (k > 1) {
+    let bestCost = Infinity;
+    for (let s = 0.6; s <= 1.3001; s += 0.05) {
+      const { cost } = matchSlots(carriesDesc, expectedCarries(slots, {}, s));
+      if (cost < bestCost - 1e-9) {
+        bestCost = cost;
+        scale = Math.round(s * 100) / 100;
+      }
+    }
+  }
+
+  const expected = expectedCarries(slots, calibration, scale);
+  const { slots: slotIdx } = matchSlots(carriesDesc, expected);
+  const slotOfCluster = new Map<number, number>();
+  order.forEach((j, rank) => slotOfCluster.set(j, slotIdx[rank]));
+
+  // One unscaled club guess is a weak signal without the player's history
+  const cap = k === 1 && !calibrated ? 0.5 : 1;
+
+  const assignments: InferredClub[] = sorted.map((s, i) => {
+    const j = fit.labels[i];
+    const slot = slotOfCluster.get(j) ?? 0;
+    const d1 = Math.sqrt(dist2(points[i], fit.centroids[j]));
+    let d2 = Infinity;
+    for (let c = 0; c < k; c++) if (c !== j) d2 = Math.min(d2, Math.sqrt(dist2(points[i], fit.centroids[c])));
+    const margin = Number.isFinite(d2) && d1 + d2 > 0 ? (d2 - d1) / (d2 + d1) : 1;
+    const slotFit = Math.exp(-Math.abs(clusterCarry[j] - expected[slot]) / FIT_SCALE_YDS);
+    const confidence = Math.round((0.5 + 0.5 * margin) * slotFit * cap * 100) / 100;
+    return { shotId: s.id, club: slots[slot].label, confidence };
+  });
+
+  return { version: CLUB_INFERENCE_VERSION, clusters: k, features, calibrated, assignments };
+}
+
+/**
+ * Infer clubs for a session's untagged (or previously inferred, unconfirmed) shots against the uploader's bag.
+ * Returns what was written; nothing is written when the player has no bag set up.
+ */
+export async function applyClubInference(
+  supabase: SupabaseClient,
+  args: { clientId: string; userId: string; sessionId: string }
+): Promise<ClubInference & { before: Record<string, string | null> }> {
+  const { clientId, userId, sessionId } = args;
+
+  const [slots, standardCalibration, { data: session }, { data, error }] = await Promise.all([
+    loadBagSlots(supabase, userId),
+    loadCarryCalibration(supabase, clientId),
+    supabase.from("sessions").select("conditions").eq("id", sessionId).maybeSingle(),
+    supabase
+      .from("shots")
+      .select("id, club, club_inferred, ball_speed, launch_angle, back_spin, carry")
+      .eq("session_id", sessionId)
+      .eq("excluded", false),
+  ]);
+  if (error) throw new Error(error.message);
+
+  // Standard-condition carries -> what the player carries in this session's conditions
+  const factor = carryFactor(readSessionConditions(session?.conditions));
+  const calibration = Object.fromEntries(Object.entries(standardCalibration).map(([k, v]) => [k, v * factor]));
+
+  const candidates = (data ?? []).filter((s) => !s.club || s.club_inferred) as Array<InferenceShot & { club: string | null }>;
+  const result = inferClubs(candidates, slots, calibration);
+  const before = Object.fromEntries(candidates.map((s) => [s.id, s.club ?? null]));
+
+  for (let i = 0; i < result.assignments.length; i += 20) {
+    const batch = result.assignments.slice(i, i + 20);
+    const results = await Promise.all(
+      batch.map((a) =>
+        supabase
+          .from("shots")
+          .update({ club: a.club, club_inferred: true, club_confidence: a.confidence })
+          .eq("id", a.shotId)
+          .eq("session_id", sessionId)
+      )
+    );
+    const failed = results.find((r) => r.error);
+    if (failed?.error) throw new Error(failed.error.message);
+  }
+
+  return { ...result, before };
+}
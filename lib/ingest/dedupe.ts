@@ -0,0 +1,145 @@
+// lib/ingest/dedupe.ts
+// Duplicate-upload detection, scoped per client:
+// - exact: same normalized file content (csv_imports.content_hash)
+// - overlap: a partial re-export sharing shot fingerprints with an earlier import (csv_imports.shot_fingerprints);
+//   csv_imports.split keeps each block's fingerprints, so a merge finds the session every shot went to
+
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CanonicalShot } from "@/lib/parsers/types";
+
+// Fewer shared shots than this is treated as coincidence, not a re-export.
+const MIN_OVERLAP = 3;
+
+export type DuplicateMatch =
+  | { kind: "exact"; importId: string; sessionId: string; sessionIds: string[] }
+  | {
+      kind: "overlap";
+      importId: string;
+      sessionId: string; // session holding most of the overlapping shots
+      overlap: number;
+      owners: Record<string, string>; // overlapping fingerprint -> session that holds that shot
+    };
+
+type SplitBlock = { session_id?: unknown; fingerprints?: unknown };
+
+/** SHA-256 of the file text, insensitive to BOM / line endings / trailing whitespace (re-saved exports still match). */
+export function contentHash(buf: Buffer): string {
+  const text = buf
+    .toString("utf-8")
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .trimEnd();
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+const r1 = (n: number | null) => (n === null ? "" : n.toFixed(1));
+
+/**
+ * Per-shot fingerprint from canonical (unit-converted) ball data; club and shot number are excluded
+ * so re-tagged or renumbered re-exports still match. Null when the shot has no ball data.
+ */
+export function shotFingerprint(s: CanonicalShot): string | null {
+  if (s.carry === null && s.ball_speed === null) return null;
+  const key = [
+    r1(s.carry),
+    r1(s.ball_speed),
+    r1(s.launch_angle),
+    r1(s.side),
+    s.back_spin === null ? "" : String(Math.round(s.back_spin / 10) * 10),
+  ].join("|");
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+export function shotFingerprints(shots: CanonicalShot[]): string[] {
+  return Array.from(new Set(shots.map(shotFingerprint).filter((f): f is string => !!f)));
+}
+
+export async function findDuplicateImport(
+  supabase: SupabaseClient,
+  args: { clientId: string; contentHash: string; fingerprints: string[] }
+): Promise<DuplicateMatch | null> {
+  const { clientId, fingerprints } = args;
+
+  const { data: exact } = await supabase
+    .from("csv_imports")
+    .select("id, session_id")
+    .eq("client_id", clientId)
+    .eq("content_hash", args.contentHash)
+    .neq("status", "failed")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (exact?.session_id) {
+    // A split upload created one session per block; every one of them points back at the import
+    const { data: created } = await supabase
+      .from("sessions")
+      .select("id")
+      .eq("client_id", clientId)
+      .eq("import_id", exact.id);
+
+    const sessionId = exact.session_id as string;
+    const others = (created ?? []).map((r) => r.id as string).filter((id) => id !== sessionId);
+    return { kind: "exact", importId: exact.id as string, sessionId, sessionIds: [sessionId, ...others] };
+  }
+
+  if (fingerprints.length < MIN_OVERLAP) return null;
+
+  const { data: candidates } = await supabase
+    .from("csv_imports")
+    .select("id, session_id, shot_fingerprints, split")
+    .eq("client_id", clientId)
+    .neq("status", "failed")
+    .overlaps("shot_fingerprints", fingerprints)
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  const mine = new Set(fingerprints);
+  const owners: Record<string, string> = {};
+  let best: { importId: string; overlap: number } | null = null;
+
+  // Newest import first: a shot merged again later belongs where it was put last
+  for (const c of candidates ?? []) {
+    const theirs: string[] = Array.isArray(c.shot_fingerprints) ? c.shot_fingerprints : [];
+    const overlap = theirs.filter((f) => mine.has(f)).length;
+    if (overlap < MIN_OVERLAP || !c.session_id) continue;
+    if (!best || overlap > best.overlap) best = { importId: c.id as string, overlap };
+
+    // Imports written before blocks kept their fingerprints: every shot is in csv_imports.session_id
+    const blocks: SplitBlock[] = Array.isArray(c.split) ? c.split : [];
+    const owned = new Set<string>();
+    for (const b of blocks) {
+      if (typeof b?.session_id !== "string" || !Array.isArray(b.fingerprints)) continue;
+      for (const f of b.fingerprints) {
+        if (typeof f !== "string" || !mine.has(f)) continue;
+        owned.add(f);
+        owners[f] ??= b.session_id;
+      }
+    }
+    for (const f of theirs) if (mine.has(f) && !owned.has(f)) owners[f] ??= c.session_id as string;
+  }
+
+  if (!best) return null;
+
+  const counts = new Map<string, number>();
+  for (const id of Object.values(owners)) counts.set(id, (counts.get(id) ?? 0) + 1);
+  const sessionId = Array.from(counts).sort((a, b) => b[1] - a[1])[0][0];
+
+  return { kind: "overlap", importId: best.importId, sessionId, overlap: best.overlap, owners };
+}
+
+/**
+ * Merge target for one block of an upload: the session holding most of the block's overlapping shots,
+ * or null (new session) when fewer than MIN_OVERLAP of them (or of a smaller block's shots) overlap.
+ */
+export function mergeTarget(blockFingerprints: string[], owners: Record<string, string>): string | null {
+  const counts = new Map<string, number>();
+  for (const f of blockFingerprints) {
+    const id = owners[f];
+    if (id) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  const [top] = Array.from(counts).sort((a, b) => b[1] - a[1]);
+  if (!top || top[1] < Math.min(MIN_OVERLAP, blockFingerprints.length)) return null;
+  return top[0];
+}
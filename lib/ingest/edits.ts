@@ -0,0 +1,431 @@
+// lib/ingest/edits.ts
+// Shot-level edits after import: exclude/include shots, re-tag the club on a selection, split a session by club,
+// infer clubs for untagged shots (./clubInference) and confirm the guesses. Session-level: playing conditions.
+// Every edit writes a shot_edits audit row per affected session, rebuilds session_stats (the edit id is
+// folded into data_hash, so cached coaching goes stale) and raises "session.shots_edited"; the event regenerates
+// the session's published coaching after the response, once per burst of edits (lib/engine/events.ts).
+//
+// Writes to tables: shots, shot_edits, sessions (split, conditions), session_stats
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SessionConditions } from "@/lib/analytics/conditions";
+import { triggerEvent } from "@/lib/engine/events";
+import { applyClubInference } from "./clubInference";
+import { recomputeSessionStats } from "./pipeline";
+
+export type ShotEditAction = "exclude" | "include" | "retag" | "split_by_club" | "infer" | "confirm" | "conditions";
+
+export const MAX_SHOTS_PER_EDIT = 1000;
+
+type EditedSession = {
+  sessionId: string;
+  shots: number;
+  metricsStatus: "complete" | "incomplete";
+  metricsMissing: string[];
+  qualityScore: number | null;
+  dataHash: string;
+};
+
+export type ShotEditResult =
+  | { ok: true; data: { action: ShotEditAction; shotIds: string[]; sessions: EditedSession[] } }
+  | { ok: false; status: number; error: string; extra?: Record<string, unknown> };
+
+type SessionRow = {
+  id: string;
+  client_id: string;
+  uploaded_by: string | null;
+  session_date: string | null;
+  practiced_at: string | null;
+  time_zone: string | null;
+  source: string | null;
+  import_id: string | null;
+  conditions: SessionConditions | null;
+};
+
+type ShotRow = {
+  id: string;
+  shot_number: number | null;
+  club: string | null;
+  excluded: boolean | null;
+  club_inferred: boolean | null;
+};
+
+function fail(status: number, error: string, extra?: Record<string, unknown>): ShotEditResult {
+  return { ok: false, status, error, extra };
+}
+
+/** Clean a shot id list from a request body; null when it isn't one. */
+export function parseShotIds(raw: unknown): string[] | null {
+  if (!Array.isArray(raw)) return null;
+  const ids = Array.from(
+    new Set(raw.filter((v): v is string => typeof v === "string").map((v) => v.replace(/[^a-f0-9-]/gi, "")))
+  ).filter(Boolean);
+  return ids.length && ids.length <= MAX_SHOTS_PER_EDIT ? ids : null;
+}
+
+async function loadSession(supabase: SupabaseClient, clientId: string, sessionId: string): Promise<SessionRow | null> {
+  const { data } = await supabase
+    .from("sessions")
+    .select("id, client_id, uploaded_by, session_date, practiced_at, time_zone, source, import_id, conditions")
+    .eq("id", sessionId)
+    .eq("client_id", clientId)
+    .maybeSingle();
+  return (data as SessionRow | null) ?? null;
+}
+
+/** Shots of the session in `ids`; every id has to belong to it. */
+async function loadShots(
+  supabase: SupabaseClient,
+  sessionId: string,
+  ids: string[]
+): Promise<{ ok: true; shots: ShotRow[] } | { ok: false; res: ShotEditResult }> {
+  const { data, error } = await supabase
+    .from("shots")
+    .select("id, shot_number, club, excluded, club_inferred")
+    .eq("session_id", sessionId)
+    .in("id", ids);
+
+  if (error) return { ok: false, res: fail(500, "shots_load_failed", { detail: error.message }) };
+
+  const shots = (data ?? []) as ShotRow[];
+  if (shots.length !== ids.length) {
+    const found = new Set(shots.map((s) => s.id));
+    return { ok: false, res: fail(400, "unknown_shot_ids", { shotIds: ids.filter((id) => !found.has(id)) }) };
+  }
+  return { ok: true, shots };
+}
+
+async function recordEdit(
+  supabase: SupabaseClient,
+  row: {
+    client_id: string;
+    session_id: string;
+    edited_by: string;
+    action: ShotEditAction;
+    shot_ids: string[];
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+  }
+) {
+  const { error } = await supabase.from("shot_edits").insert([row]);
+  return error;
+}
+
+/** Rebuild the snapshot for each touched session; coaching is regenerated from it by the shots_edited event. */
+async function afterEdit(
+  supabase: SupabaseClient,
+  clientId: string,
+  action: ShotEditAction,
+  sessions: Array<{ id: string; source: string | null }>
+): Promise<EditedSession[]> {
+  const out: EditedSession[] = [];
+
+  for (const s of sessions) {
+    const stats = await recomputeSessionStats(supabase, { clientId, sessionId: s.id, source: String(s.source ?? "") });
+    const { count } = await supabase
+      .from("shots")
+      .select("id", { count: "exact", head: true })
+      .eq("session_id", s.id)
+      .eq("excluded", false);
+
+    out.push({ sessionId: s.id, shots: count ?? 0, ...stats });
+    await triggerEvent("session.shots_edited", { session_id: s.id, client_id: clientId, action, data_hash: stats.dataHash });
+  }
+
+  return out;
+}
+
+async function finish(
+  supabase: SupabaseClient,
+  clientId: string,
+  action: ShotEditAction,
+  shotIds: string[],
+  sessions: Array<{ id: string; source: string | null }>
+): Promise<ShotEditResult> {
+  try {
+    return { ok: true, data: { action, shotIds, sessions: await afterEdit(supabase, clientId, action, sessions) } };
+  } catch (e: unknown) {
+    // The edit itself is saved; the snapshot can be rebuilt by the next edit or a recompute.
+    return fail(500, "stats_recompute_failed", { detail: e instanceof Error ? e.message : String(e), shotIds });
+  }
+}
+
+/** Exclude (or bring back) shots: practice swings, dropped balls. The rows stay; stats ignore them. */
+export async function setShotsExcluded(
+  supabase: SupabaseClient,
+  args: { clientId: string; userId: string; sessionId: string; shotIds: string[]; excluded: boolean; reason?: string | null }
+): Promise<ShotEditResult> {
+  const { clientId, userId, sessionId, shotIds, excluded } = args;
+  const reason = excluded ? (args.reason?.trim().slice(0, 200) || null) : null;
+  const action: ShotEditAction = excluded ? "exclude" : "include";
+
+  const session = await loadSession(supabase, clientId, sessionId);
+  if (!session) return fail(404, "session_not_found");
+
+  const loaded = await loadShots(supabase, sessionId, shotIds);
+  if (!loaded.ok) return loaded.res;
+
+  const changed = loaded.shots.filter((s) => Boolean(s.excluded) !== excluded);
+  if (!changed.length) return { ok: true, data: { action, shotIds: [], sessions: [] } };
+
+  const ids = changed.map((s) => s.id);
+  const { error } = await supabase
+    .from("shots")
+    .update({ excluded, excluded_reason: reason })
+    .eq("session_id", sessionId)
+    .in("id", ids);
+  if (error) return fail(500, "shots_update_failed", { detail: error.message });
+
+  const auditErr = await recordEdit(supabase, {
+    client_id: clientId,
+    session_id: sessionId,
+    edited_by: userId,
+    action,
+    shot_ids: ids,
+    before: Object.fromEntries(changed.map((s) => [s.id, Boolean(s.excluded)])),
+    after: Object.fromEntries(ids.map((id) => [id, excluded])),
+  });
+  if (auditErr) return fail(500, "audit_insert_failed", { detail: auditErr.message });
+
+  return finish(supabase, clientId, action, ids, [session]);
+}
+
+/** Set the club on a selection of shots (null clears it). A re-tag is the player's word: no longer inferred. */
+export async function retagShots(
+  supabase: SupabaseClient,
+  args: { clientId: string; userId: string; sessionId: string; shotIds: string[]; club: string | null }
+): Promise<ShotEditResult> {
+  const { clientId, userId, sessionId, shotIds } = args;
+  const club = args.club?.trim().slice(0, 40) || null;
+
+  const session = await loadSession(supabase, clientId, sessionId);
+  if (!session) return fail(404, "session_not_found");
+
+  const loaded = await loadShots(supabase, sessionId, shotIds);
+  if (!loaded.ok) return loaded.res;
+
+  const changed = loaded.shots.filter((s) => (s.club ?? null) !== club || s.club_inferred);
+  if (!changed.length) return { ok: true, data: { action: "retag", shotIds: [], sessions: [] } };
+
+  const ids = changed.map((s) => s.id);
+  const { error } = await supabase
+    .from("shots")
+    .update({ club, club_inferred: false, club_confidence: null })
+    .eq("session_id", sessionId)
+    .in("id", ids);
+  if (error) return fail(500, "shots_update_failed", { detail: error.message });
+
+  const auditErr = await recordEdit(supabase, {
+    client_id: clientId,
+    session_id: sessionId,
+    edited_by: userId,
+    action: "retag",
+    shot_ids: ids,
+    before: Object.fromEntries(changed.map((s) => [s.id, s.club ?? null])),
+    after: Object.fromEntries(ids.map((id) => [id, club])),
+  });
+  if (auditErr) return fail(500, "audit_insert_failed", { detail: auditErr.message });
+
+  return finish(supabase, clientId, "retag", ids, [session]);
+}
+
+/**
+ * One session per club. The original session keeps the club of its first tagged shot (plus untagged shots);
+ * every other club moves to a new session with the same date, time zone, source and import.
+ */
+export async function splitSessionByClub(
+  supabase: SupabaseClient,
+  args: { clientId: string; userId: string; sessionId: string }
+): Promise<ShotEditResult> {
+  const { clientId, userId, sessionId } = args;
+
+  const session = await loadSession(supabase, clientId, sessionId);
+  if (!session) return fail(404, "session_not_found");
+
+  const { data, error } = await supabase
+    .from("shots")
+    .select("id, shot_number, club, excluded, club_inferred")
+    .eq("session_id", sessionId)
+    .order("shot_number", { ascending: true });
+  if (error) return fail(500, "shots_load_failed", { detail: error.message });
+
+  const byClub = new Map<string, string[]>();
+  for (const s of (data ?? []) as ShotRow[]) {
+    const club = s.club?.trim();
+    if (!club) continue;
+    byClub.set(club, [...(byClub.get(club) ?? []), s.id]);
+  }
+
+  const moving = Array.from(byClub.entries()).slice(1); // first club stays
+  if (!moving.length) return fail(409, "nothing_to_split", { clubs: Array.from(byClub.keys()) });
+
+  const { data: created, error: insErr } = await supabase
+    .from("sessions")
+    .insert(
+      moving.map(() => ({
+        client_id: clientId,
+        uploaded_by: session.uploaded_by ?? userId,
+        session_date: session.session_date,
+        practiced_at: session.practiced_at,
+        time_zone: session.time_zone,
+        conditions: session.conditions,
+        source: session.source,
+        // Not the import's own session: a failed or resumed import must not mark or rebuild it
+        import_id: null,
+        metrics_status: "uploaded",
+      }))
+    )
+    .select("id");
+
+  if (insErr || !created || created.length !== moving.length) {
+    return fail(500, "session_create_failed", { detail: insErr?.message });
+  }
+
+  const newIds = created.map((r) => String(r.id));
+  const movedTo: Record<string, string> = {};
+
+  for (const [i, [, ids]] of moving.entries()) {
+    const { error: moveErr } = await supabase
+      .from("shots")
+      .update({ session_id: newIds[i] })
+      .eq("session_id", sessionId)
+      .in("id", ids);
+    if (moveErr) {
+      // Put back what already moved, drop the new sessions
+      await supabase.from("shots").update({ session_id: sessionId }).in("session_id", newIds);
+      await supabase.from("sessions").delete().in("id", newIds);
+      return fail(500, "shots_move_failed", { detail: moveErr.message });
+    }
+    for (const id of ids) movedTo[id] = newIds[i];
+  }
+
+  // Audit on the source session (all moved shots) and on each new one (its own shots)
+  const movedIds = Object.keys(movedTo);
+  const audit = [
+    {
+      client_id: clientId,
+      session_id: sessionId,
+      edited_by: userId,
+      action: "split_by_club" as const,
+      shot_ids: movedIds,
+      before: Object.fromEntries(movedIds.map((id) => [id, sessionId])),
+      after: movedTo,
+    },
+    ...moving.map(([, ids], i) => ({
+      client_id: clientId,
+      session_id: newIds[i],
+      edited_by: userId,
+      action: "split_by_club" as const,
+      shot_ids: ids,
+      before: Object.fromEntries(ids.map((id) => [id, sessionId])),
+      after: Object.fromEntries(ids.map((id) => [id, newIds[i]])),
+    })),
+  ];
+  const { error: auditErr } = await supabase.from("shot_edits").insert(audit);
+  if (auditErr) return fail(500, "audit_insert_failed", { detail: auditErr.message });
+
+  return finish(supabase, clientId, "split_by_club", movedIds, [
+    session,
+    ...newIds.map((id) => ({ id, source: session.source })),
+  ]);
+}
+
+/** Guess clubs for the session's untagged (or still-unconfirmed) shots from the player's bag. */
+export async function inferSessionClubs(
+  supabase: SupabaseClient,
+  args: { clientId: string; userId: string; sessionId: string }
+): Promise<ShotEditResult> {
+  const { clientId, userId, sessionId } = args;
+
+  const session = await loadSession(supabase, clientId, sessionId);
+  if (!session) return fail(404, "session_not_found");
+
+  let result: Awaited<ReturnType<typeof applyClubInference>>;
+  try {
+    result = await applyClubInference(supabase, { clientId, userId, sessionId });
+  } catch (e: unknown) {
+    return fail(500, "club_inference_failed", { detail: e instanceof Error ? e.message : String(e) });
+  }
+
+  // No bag set up, or no shot with carry / ball speed to go on
+  if (!result.assignments.length) return fail(409, "nothing_to_infer", { needs: ["bag_clubs", "carry or ball_speed"] });
+
+  const ids = result.assignments.map((a) => a.shotId);
+  const auditErr = await recordEdit(supabase, {
+    client_id: clientId,
+    session_id: sessionId,
+    edited_by: userId,
+    action: "infer",
+    shot_ids: ids,
+    before: Object.fromEntries(ids.map((id) => [id, result.before[id] ?? null])),
+    after: Object.fromEntries(result.assignments.map((a) => [a.shotId, { club: a.club, confidence: a.confidence }])),
+  });
+  if (auditErr) return fail(500, "audit_insert_failed", { detail: auditErr.message });
+
+  return finish(supabase, clientId, "infer", ids, [session]);
+}
+
+/** Accept inferred clubs as they are (correcting one is a re-tag). */
+export async function confirmInferredClubs(
+  supabase: SupabaseClient,
+  args: { clientId: string; userId: string; sessionId: string; shotIds: string[] }
+): Promise<ShotEditResult> {
+  const { clientId, userId, sessionId, shotIds } = args;
+
+  const session = await loadSession(supabase, clientId, sessionId);
+  if (!session) return fail(404, "session_not_found");
+
+  const loaded = await loadShots(supabase, sessionId, shotIds);
+  if (!loaded.ok) return loaded.res;
+
+  const changed = loaded.shots.filter((s) => s.club_inferred && s.club);
+  if (!changed.length) return { ok: true, data: { action: "confirm", shotIds: [], sessions: [] } };
+
+  const ids = changed.map((s) => s.id);
+  const { error } = await supabase.from("shots").update({ club_inferred: false }).eq("session_id", sessionId).in("id", ids);
+  if (error) return fail(500, "shots_update_failed", { detail: error.message });
+
+  const clubs = Object.fromEntries(changed.map((s) => [s.id, s.club]));
+  const auditErr = await recordEdit(supabase, {
+    client_id: clientId,
+    session_id: sessionId,
+    edited_by: userId,
+    action: "confirm",
+    shot_ids: ids,
+    before: clubs,
+    after: clubs,
+  });
+  if (auditErr) return fail(500, "audit_insert_failed", { detail: auditErr.message });
+
+  return finish(supabase, clientId, "confirm", ids, [session]);
+}
+
+/**
+ * Set the conditions a session was played in (null clears them: standard conditions). Raw shots are untouched;
+ * the rebuilt snapshot reports carry at standard conditions next to the raw carry.
+ */
+export async function setSessionConditions(
+  supabase: SupabaseClient,
+  args: { clientId: string; userId: string; sessionId: string; conditions: SessionConditions | null }
+): Promise<ShotEditResult> {
+  const { clientId, userId, sessionId, conditions } = args;
+
+  const session = await loadSession(supabase, clientId, sessionId);
+  if (!session) return fail(404, "session_not_found");
+
+  const { error } = await supabase.from("sessions").update({ conditions }).eq("id", sessionId).eq("client_id", clientId);
+  if (error) return fail(500, "session_update_failed", { detail: error.message });
+
+  const auditErr = await recordEdit(supabase, {
+    client_id: clientId,
+    session_id: sessionId,
+    edited_by: userId,
+    action: "conditions",
+    shot_ids: [],
+    before: { conditions: session.conditions ?? null },
+    after: { conditions },
+  });
+  if (auditErr) return fail(500, "audit_insert_failed", { detail: auditErr.message });
+
+  return finish(supabase, clientId, "conditions", [], [session]);
+}
@@ -0,0 +1,413 @@
+// lib/ingest/ingestCsv.ts
+// Registry-driven CSV ingestion (Phase 1):
+// detect parser -> duplicate check -> split into sessions (./split) -> sessions -> csv_imports,
+// then the resumable steps in ./pipeline (storage -> shots_raw -> shots -> session_stats).
+//
+// Writes to tables: sessions, csv_imports, shots_raw, shots, session_stats
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SessionConditions } from "@/lib/analytics/conditions";
+import { readCsvTable } from "@/lib/parsers/csv";
+import { isValidTimeZone, localDateIn } from "@/lib/parsers/datetime";
+import { detectParser, getParser, listParsers, mapRowToShot, resolveHeaderMap } from "@/lib/parsers/registry";
+import type { CsvTable, LaunchMonitorParser, ShotField } from "@/lib/parsers/types";
+import { resolveColumnUnits, type ColumnUnit } from "@/lib/parsers/units";
+import { contentHash, findDuplicateImport, mergeTarget, shotFingerprints } from "./dedupe";
+import { applySavedHeaderMap, loadSavedHeaderMap, validateHeaderMap, type HeaderMapSource, type SavedHeaderMap } from "./mapping";
+import { runImportSteps, type ImportSessionBlock } from "./pipeline";
+import { buildBlocks, detectBlockStarts } from "./split";
+
+/** What to do when the file overlaps an earlier import: report it (409), append new shots to that session, or ignore. */
+export type OnDuplicate = "ask" | "merge" | "new";
+
+export type IngestCsvArgs = {
+  supabase: SupabaseClient;
+  userId: string;
+  clientId: string;
+  bucket: string;
+  filename: string;
+  buf: Buffer;
+  /** Force a parser id (e.g. "gspro"); null/"auto" = detect from headers. */
+  source?: string | null;
+  onDuplicate?: OnDuplicate;
+  /** Uploader's IANA time zone (browser); used when the client profile has none. */
+  timeZone?: string | null;
+  /** Session split: detected boundaries (default), one session, or start rows confirmed in the preview. */
+  split?: "auto" | "none" | number[];
+  /** Column mapping edited in the preview wizard (file header -> shot field | null); replaces the parser's. */
+  headerMap?: Record<string, unknown> | null;
+  /** Playing conditions for new sessions (sessions.conditions); a merged-into session keeps its own. */
+  conditions?: SessionConditions | null;
+};
+
+export type IngestCsvResult =
+  | {
+      ok: true;
+      data: {
+        sessionId: string;
+        importId: string;
+        source: string;
+        shotsInserted: number;
+        createdAt: string;
+        storagePath: string;
+        metricsStatus: "complete" | "incomplete";
+        metricsMissing: string[];
+        /** "exact" = identical file already imported; nothing written, its existing sessions returned. */
+        duplicate: "none" | "exact" | "merged";
+        /** Every session this upload wrote to (one per detected block; first = sessionId). */
+        sessions?: Array<{
+          sessionId: string;
+          sessionDate: string | null;
+          practicedAt: string | null;
+          label: string | null;
+          rows: number;
+        }>;
+      };
+    }
+  | { ok: false; status: number; error: string; extra?: Record<string, unknown> };
+
+type MergeTargetRow = { id: string; created_at: string; session_date: string | null; practiced_at: string | null };
+
+function fail(status: number, error: string, extra?: Record<string, unknown>): IngestCsvResult {
+  return { ok: false, status, error, extra };
+}
+
+/** Client profile zone first (the player's), then the uploader's browser zone. Null = unknown. */
+export async function resolveTimeZone(supabase: SupabaseClient, clientId: string, hint?: string | null): Promise<string | null> {
+  const { data } = await supabase
+    .from("profiles")
+    .select("time_zone")
+    .eq("client_id", clientId)
+    .not("time_zone", "is", null)
+    .limit(1)
+    .maybeSingle();
+
+  if (isValidTimeZone(data?.time_zone)) return data.time_zone;
+  return isValidTimeZone(hint) ? hint : null;
+}
+
+async function existingSessionResult(
+  supabase: SupabaseClient,
+  clientId: string,
+  match: { importId: string; sessionId: string; sessionIds: string[] }
+): Promise<IngestCsvResult> {
+  const [{ data: rows }, { data: imp }] = await Promise.all([
+    supabase
+      .from("sessions")
+      .select("id, created_at, source, session_date, practiced_at, metrics_status, metrics_missing")
+      .in("id", match.sessionIds)
+      .eq("client_id", clientId),
+    supabase.from("csv_imports").select("storage_path, split").eq("id", match.importId).maybeSingle(),
+  ]);
+
+  const session = (rows ?? []).find((r) => r.id === match.sessionId);
+  if (!session) return fail(409, "duplicate_upload", { existingSessionId: match.sessionId });
+
+  // Same order and row ranges as the original upload (csv_imports.split); sessions it doesn't list go last
+  const split: Array<{ session_id: string; row_start: number; row_end: number }> = Array.isArray(imp?.split)
+    ? imp.split
+    : [];
+  const blockOf = (id: string) => {
+    const i = split.findIndex((b) => b?.session_id === id);
+    return i < 0 ? split.length : i;
+  };
+  const ordered = match.sessionIds
+    .map((id) => (rows ?? []).find((r) => r.id === id))
+    .filter((r): r is NonNullable<typeof r> => !!r)
+    .sort((a, b) => blockOf(a.id as string) - blockOf(b.id as string));
+
+  // Upload-level status like a fresh import: incomplete if any session is missing a metric
+  const missing = new Set<string>();
+  for (const r of ordered) if (Array.isArray(r.metrics_missing)) r.metrics_missing.forEach((k: string) => missing.add(k));
+  const complete = ordered.every((r) => r.metrics_status === "complete");
+
+  return {
+    ok: true,
+    data: {
+      sessionId: match.sessionId,
+      importId: match.importId,
+      source: String(session.source ?? ""),
+      shotsInserted: 0,
+      createdAt: session.created_at as string,
+      storagePath: String(imp?.storage_path ?? ""),
+      metricsStatus: complete && !missing.size ? "complete" : "incomplete",
+      metricsMissing: Array.from(missing),
+      duplicate: "exact",
+      sessions: ordered.map((r) => {
+        const block = split.find((b) => b?.session_id === r.id);
+        return {
+          sessionId: r.id as string,
+          sessionDate: (r.session_date as string | null) ?? null,
+          practicedAt: (r.practiced_at as string | null) ?? null,
+          label: null,
+          rows: block ? block.row_end - block.row_start : 0,
+        };
+      }),
+    },
+  };
+}
+
+export type PreparedCsv = {
+  table: CsvTable;
+  parser: LaunchMonitorParser;
+  headerMap: Record<string, ShotField>;
+  headerMapSource: HeaderMapSource;
+  columnUnits: Record<string, ColumnUnit>;
+};
+
+export type PrepareCsvOptions = {
+  /** Mapping sent by the wizard (validated against the file headers). */
+  headerMap?: Record<string, unknown> | null;
+  /** The uploader's saved mapping for this device (mapping.loadSavedHeaderMap). */
+  saved?: SavedHeaderMap | null;
+  /** Preview only: return an empty mapping instead of no_mapped_columns, so the wizard can fill it in. */
+  allowUnmapped?: boolean;
+};
+
+/** Parse + pick the parser + resolve columns/units. Shared by the upload and the preview (nothing is written). */
+export function prepareCsv(
+  buf: Buffer,
+  source?: string | null,
+  opts: PrepareCsvOptions = {}
+): { ok: true; prepared: PreparedCsv } | Extract<IngestCsvResult, { ok: false }> {
+  const read = readCsvTable(buf.toString("utf-8"));
+  if (!read.ok) return { ok: false, status: 400, error: read.error, extra: read.detail ? { first: read.detail } : undefined };
+
+  const table = read.table;
+  if (!table.rows.length) return { ok: false, status: 400, error: "no_rows" };
+
+  // Resolve parser (forced or detected)
+  const forced = source && source !== "auto" ? source : null;
+  const parser = forced ? getParser(forced) : detectParser(table.headers);
+  const supported = listParsers().map((p) => p.id);
+
+  if (!parser) {
+    return forced
+      ? { ok: false, status: 400, error: "unknown_source", extra: { source: forced, supported } }
+      : { ok: false, status: 400, error: "unsupported_format", extra: { headers: table.headers, supported } };
+  }
+
+  // Wizard mapping > the uploader's saved mapping for this device > parser default
+  let headerMap: Record<string, ShotField>;
+  let headerMapSource: HeaderMapSource = "parser";
+
+  if (opts.headerMap) {
+    const v = validateHeaderMap(opts.headerMap, table.headers);
+    if (!v.ok) return { ok: false, status: 400, error: v.error, extra: v.extra };
+    headerMap = v.headerMap;
+    headerMapSource = "user";
+  } else {
+    headerMap = resolveHeaderMap(table.headers, parser.headerMap);
+    const saved = applySavedHeaderMap(table.headers, headerMap, opts.saved ?? null);
+    if (saved && Object.keys(saved).length) {
+      headerMap = saved;
+      headerMapSource = "saved";
+    }
+  }
+
+  if (!Object.keys(headerMap).length && !opts.allowUnmapped) {
+    return { ok: false, status: 400, error: "no_mapped_columns", extra: { source: parser.id, headers: table.headers } };
+  }
+
+  // Export units per mapped column; shots are always written in yards/mph/rpm/degrees.
+  const columnUnits = resolveColumnUnits(table, headerMap, parser);
+
+  return { ok: true, prepared: { table, parser, headerMap, headerMapSource, columnUnits } };
+}
+
+/** prepareCsv with the uploader's saved mapping for the detected (or forced) device applied. */
+export async function prepareCsvForUser(
+  supabase: SupabaseClient,
+  userId: string,
+  buf: Buffer,
+  source?: string | null,
+  opts: Omit<PrepareCsvOptions, "saved"> = {}
+): Promise<ReturnType<typeof prepareCsv>> {
+  // First pass only picks the device; the saved mapping may cover columns the parser can't.
+  const first = prepareCsv(buf, source, { ...opts, allowUnmapped: true });
+  if (!first.ok || opts.headerMap) return first;
+
+  const saved = await loadSavedHeaderMap(supabase, userId, first.prepared.parser.id);
+  return prepareCsv(buf, first.prepared.parser.id, { ...opts, saved });
+}
+
+export async function ingestCsvUpload(args: IngestCsvArgs): Promise<IngestCsvResult> {
+  const { supabase, userId, clientId, bucket, filename, buf } = args;
+  const onDuplicate = args.onDuplicate ?? "ask";
+
+  const prep = await prepareCsvForUser(supabase, userId, buf, args.source, { headerMap: args.headerMap });
+  if (!prep.ok) return prep;
+  const { table, parser, headerMap, headerMapSource, columnUnits } = prep.prepared;
+
+  const parsedShots = table.rows.map((r, idx) =>
+    mapRowToShot(r, headerMap, idx + 1, { parser, units: columnUnits })
+  );
+
+  // Duplicate check (per client) before anything is written
+  const dataHash = contentHash(buf);
+  const fingerprints = shotFingerprints(parsedShots);
+
+  const dup = await findDuplicateImport(supabase, { clientId, contentHash: dataHash, fingerprints });
+
+  if (dup?.kind === "exact") return existingSessionResult(supabase, clientId, dup);
+
+  if (dup?.kind === "overlap" && onDuplicate === "ask") {
+    return fail(409, "possible_duplicate", {
+      existingSessionId: dup.sessionId,
+      existingImportId: dup.importId,
+      overlappingShots: dup.overlap,
+      totalShots: parsedShots.length,
+      options: ["merge", "new"],
+    });
+  }
+
+  const owners = dup?.kind === "overlap" && onDuplicate === "merge" ? dup.owners : null;
+
+  // Practice date/time from the file; upload time (in the client's zone) only when the export has none
+  const timeZone = await resolveTimeZone(supabase, clientId, args.timeZone);
+
+  const split = args.split ?? "auto";
+  const starts =
+    split === "none"
+      ? [{ rowStart: 0 }]
+      : split === "auto"
+        ? detectBlockStarts(parser, table, timeZone)
+        : split.map((rowStart) => ({ rowStart }));
+  const blocks = buildBlocks(parser, table, timeZone, starts);
+  const blockFingerprints = blocks.map((b) => shotFingerprints(parsedShots.slice(b.rowStart, b.rowEnd)));
+
+  // Merging: each block goes into the session holding its overlapping shots; blocks with no overlap get a new one
+  const targets = blocks.map((_, i) => (owners ? mergeTarget(blockFingerprints[i], owners) : null));
+  const mergeIds = Array.from(new Set(targets.filter((t): t is string => !!t)));
+  const existing = new Map<string, MergeTargetRow>();
+
+  if (mergeIds.length) {
+    const { data: rows, error } = await supabase
+      .from("sessions")
+      .select("id, created_at, session_date, practiced_at")
+      .in("id", mergeIds)
+      .eq("client_id", clientId);
+
+    if (error) return fail(500, "merge_session_lookup_failed", { detail: error.message });
+    for (const r of (rows ?? []) as MergeTargetRow[]) existing.set(r.id, r);
+  }
+
+  // A merge target that is gone (or not this client's) -> new session for that block
+  const toCreate = blocks.filter((_, i) => !targets[i] || !existing.has(targets[i] as string));
+  const newRows: Array<{ id: string; created_at: string }> = [];
+
+  if (toCreate.length) {
+    const { data: rows, error: sessionErr } = await supabase
+      .from("sessions")
+      .insert(
+        toCreate.map((b) => ({
+          client_id: clientId,
+          uploaded_by: userId,
+          session_date: b.sessionDate ?? localDateIn(new Date(), timeZone), // YYYY-MM-DD
+          practiced_at: b.practicedAt,
+          time_zone: timeZone,
+          conditions: args.conditions ?? null,
+          source: parser.id,
+          metrics_status: "uploaded",
+        }))
+      )
+      .select("id, created_at");
+
+    if (sessionErr || !rows || rows.length !== toCreate.length) {
+      return fail(500, "session_create_failed", { detail: sessionErr?.message });
+    }
+    newRows.push(...(rows as Array<{ id: string; created_at: string }>));
+  }
+
+  const newIds = newRows.map((row) => row.id);
+  const sessions: ImportSessionBlock[] = [];
+  const created: NonNullable<Extract<IngestCsvResult, { ok: true }>["data"]["sessions"]> = [];
+  let nextNew = 0;
+
+  blocks.forEach((b, i) => {
+    const merge = existing.get(targets[i] ?? "");
+    const id = merge ? merge.id : newRows[nextNew++].id;
+    sessions.push({ sessionId: id, rowStart: b.rowStart, rowEnd: b.rowEnd });
+    created.push({
+      sessionId: id,
+      sessionDate: merge ? merge.session_date : b.sessionDate,
+      practicedAt: merge ? merge.practiced_at : b.practicedAt,
+      label: b.label,
+      rows: b.rowEnd - b.rowStart,
+    });
+  });
+
+  const createdAt = (existing.get(sessions[0].sessionId) ?? newRows[0]).created_at;
+  const mergedAny = sessions.some((x) => existing.has(x.sessionId));
+
+  const sessionId = sessions[0].sessionId;
+  const sessionIds = sessions.map((x) => x.sessionId);
+
+  // csv_imports parent row ("received"); storage, shots_raw, shots and stats run as resumable steps
+  const ts = new Date().toISOString().replace(/[:.]/g, "-");
+  const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, "_");
+  const storagePath = `uploads/${clientId}/${sessionId}/${ts}-${safeName}`;
+
+  const { data: imp, error: impErr } = await supabase
+    .from("csv_imports")
+    .insert([
+      {
+        session_id: sessionId,
+        client_id: clientId,
+        uploaded_by: userId,
+        storage_path: storagePath,
+        original_filename: filename,
+        parser_id: parser.id,
+        headers: table.headers,
+        header_map: headerMap,
+        header_map_source: headerMapSource,
+        source_units: columnUnits,
+        content_hash: dataHash,
+        shot_fingerprints: fingerprints,
+        split: sessions.map((x, i) => ({
+          session_id: x.sessionId,
+          row_start: x.rowStart,
+          row_end: x.rowEnd,
+          fingerprints: blockFingerprints[i],
+        })),
+        status: "received",
+      },
+    ])
+    .select("id")
+    .single();
+
+  if (impErr || !imp) {
+    // Nothing else was written yet; don't leave empty sessions behind.
+    if (newIds.length) await supabase.from("sessions").delete().in("id", newIds);
+    return fail(500, "import_create_failed", { detail: impErr?.message });
+  }
+
+  const importId = imp.id as string;
+
+  if (newIds.length) await supabase.from("sessions").update({ import_id: importId }).in("id", newIds);
+
+  const run = await runImportSteps(
+    { supabase, bucket, importId, sessions, clientId, userId, storagePath, buf, table, parser, headerMap, columnUnits },
+    "received"
+  );
+
+  if (!run.ok) {
+    return fail(500, run.error, { detail: run.detail, step: run.step, importId, sessionIds, bucket, storagePath });
+  }
+
+  return {
+    ok: true,
+    data: {
+      sessionId,
+      importId,
+      source: parser.id,
+      shotsInserted: run.shotsInserted,
+      createdAt,
+      storagePath,
+      metricsStatus: run.metricsStatus,
+      metricsMissing: run.metricsMissing,
+      duplicate: mergedAny ? "merged" : "none",
+      sessions: created,
+    },
+  };
+}
@@ -0,0 +1,90 @@
+// lib/ingest/mapping.ts
+// Column mapping chosen in the upload wizard, remembered per user + device.
+// No extra table: the latest csv_imports row with header_map_source "user"/"saved" for that uploader and
+// parser is the saved mapping (its `headers` tells which columns were deliberately left unmapped).
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { SHOT_FIELDS, type ShotField } from "@/lib/parsers/types";
+
+export type HeaderMapSource = "parser" | "saved" | "user";
+
+export type SavedHeaderMap = { headers: string[]; headerMap: Record<string, ShotField> };
+
+export async function loadSavedHeaderMap(
+  supabase: SupabaseClient,
+  userId: string,
+  parserId: string
+): Promise<SavedHeaderMap | null> {
+  const { data } = await supabase
+    .from("csv_imports")
+    .select("headers, header_map")
+    .eq("uploaded_by", userId)
+    .eq("parser_id", parserId)
+    .in("header_map_source", ["user", "saved"])
+    .neq("status", "failed")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!data || !Array.isArray(data.headers) || !data.header_map || typeof data.header_map !== "object") return null;
+  return { headers: data.headers as string[], headerMap: data.header_map as Record<string, ShotField> };
+}
+
+/**
+ * Overlay a saved mapping on the parser's: a column the saved upload also had takes the saved choice
+ * (including "unmapped"); columns it never saw keep the parser default. Null when nothing changes.
+ */
+export function applySavedHeaderMap(
+  fileHeaders: string[],
+  parserMap: Record<string, ShotField>,
+  saved: SavedHeaderMap | null
+): Record<string, ShotField> | null {
+  if (!saved) return null;
+
+  const seen = new Set(saved.headers);
+  const out: Record<string, ShotField> = {};
+  let touched = false;
+
+  for (const h of fileHeaders) {
+    if (seen.has(h)) {
+      touched = true;
+      const field = saved.headerMap[h];
+      if (field) out[h] = field;
+    } else if (parserMap[h]) {
+      out[h] = parserMap[h];
+    }
+  }
+
+  return touched ? out : null;
+}
+
+/**
+ * Validate a mapping sent by the wizard: { "<file header>": "<shot field>" | null }.
+ * Headers must exist in the file and each shot field may be fed by one column only.
+ */
+export function validateHeaderMap(
+  raw: unknown,
+  headers: string[]
+): { ok: true; headerMap: Record<string, ShotField> } | { ok: false; error: string; extra?: Record<string, unknown> } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "invalid_header_map" };
+
+  const known = new Set(headers);
+  const out: Record<string, ShotField> = {};
+  const usedBy = new Map<ShotField, string>();
+
+  for (const [h, v] of Object.entries(raw as Record<string, unknown>)) {
+    if (!known.has(h)) return { ok: false, error: "unknown_header", extra: { header: h } };
+    if (v === null || v === "") continue;
+    if (typeof v !== "string" || !(SHOT_FIELDS as readonly string[]).includes(v)) {
+      return { ok: false, error: "unknown_shot_field", extra: { header: h, field: v, expected: SHOT_FIELDS } };
+    }
+    const field = v as ShotField;
+    const prev = usedBy.get(field);
+    if (prev) return { ok: false, error: "duplicate_field_mapping", extra: { field, headers: [prev, h] } };
+    usedBy.set(field, h);
+    out[h] = field;
+  }
+
+  if (!Object.keys(out).length) return { ok: false, error: "no_mapped_columns" };
+  return { ok: true, headerMap: out };
+}
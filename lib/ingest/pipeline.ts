@@ -0,0 +1,525 @@
+// lib/ingest/pipeline.ts
+// Import state machine on csv_imports.status:
+//   received -> stored -> raw_parsed -> normalized -> stats_computed -> complete   (or failed)
+// Every step is idempotent (upsert / delete-then-insert keyed by import_id), so a failed or stalled
+// import can be resumed from its last completed step, or purged without leaving orphaned rows.
+
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { estimateMissingFlight } from "@/lib/analytics/ballFlight";
+import { readSessionConditions } from "@/lib/analytics/conditions";
+import { shotQualityFlags } from "@/lib/analytics/dataQuality";
+import { DEFAULT_THRESHOLD_PROFILE, loadThresholdProfile } from "@/lib/analytics/thresholds";
+import { buildSessionSnapshot, SNAPSHOT_STAT_VERSION, type SnapshotShot } from "@/lib/metrics/snapshot";
+import { readCsvTable } from "@/lib/parsers/csv";
+import { getParser, mapRowToShot } from "@/lib/parsers/registry";
+import { CANONICAL_SHOT_FIELDS, type CanonicalShot, type CsvTable, type LaunchMonitorParser, type ShotField } from "@/lib/parsers/types";
+import type { ColumnUnit } from "@/lib/parsers/units";
+import { applyClubInference } from "./clubInference";
+import { shotFingerprint } from "./dedupe";
+
+export const IMPORT_STATUSES = [
+  "received",
+  "stored",
+  "raw_parsed",
+  "normalized",
+  "stats_computed",
+  "complete",
+  "failed",
+] as const;
+
+export type ImportStatus = (typeof IMPORT_STATUSES)[number];
+
+const STEP_ORDER: ImportStatus[] = ["received", "stored", "raw_parsed", "normalized", "stats_computed", "complete"];
+
+/** Rows [rowStart, rowEnd) of the file that belong to one session (csv_imports.split). */
+export type ImportSessionBlock = { sessionId: string; rowStart: number; rowEnd: number };
+
+export type ImportContext = {
+  supabase: SupabaseClient;
+  bucket: string;
+  importId: string;
+  sessions: ImportSessionBlock[];
+  clientId: string;
+  userId: string;
+  storagePath: string;
+  buf: Buffer;
+  table: CsvTable;
+  parser: LaunchMonitorParser;
+  headerMap: Record<string, ShotField>;
+  columnUnits: Record<string, ColumnUnit>;
+};
+
+export type ImportRunResult =
+  | { ok: true; shotsInserted: number; metricsStatus: "complete" | "incomplete"; metricsMissing: string[] }
+  | { ok: false; step: ImportStatus; error: string; detail?: string };
+
+class StepError extends Error {
+  constructor(public code: string, detail?: string) {
+    super(detail ?? code);
+  }
+}
+
+const SHOT_COLUMNS =
+  "shot_number, club, club_inferred, ball_speed, club_speed, carry, total, side, launch_angle, back_spin, side_spin, attack_angle, dynamic_loft, face_to_path, apex, descent_angle, flight_time, estimated_fields, created_at";
+
+function chunk<T>(arr: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+// Modelled values (shots.estimated_fields) count as present; the snapshot's flight_estimates says which they are.
+function missingMetrics(shots: CanonicalShot[]): string[] {
+  const missingSet = new Set<string>();
+  for (const s of shots) {
+    for (const k of CANONICAL_SHOT_FIELDS) {
+      const v = s[k];
+      if (v === null || v === undefined || v === "") missingSet.add(k);
+    }
+  }
+  return Array.from(missingSet);
+}
+
+type FlightColumns = { descent_angle: number | null; flight_time: number | null; estimated_fields: string[] };
+
+/** Fill flight fields the device didn't report from its launch data (standard conditions), flagged as estimated. */
+function withFlightEstimates<T extends CanonicalShot>(s: T): T & FlightColumns {
+  const est = estimateMissingFlight(s);
+  return {
+    ...s,
+    carry: est.values.carry ?? s.carry,
+    total: est.values.total ?? s.total,
+    apex: est.values.apex ?? s.apex,
+    descent_angle: est.values.descent_angle ?? null,
+    flight_time: est.values.flight_time ?? null,
+    estimated_fields: est.estimated_fields,
+  };
+}
+
+/**
+ * Rebuild session_stats + sessions.metrics_* from every shot currently in the session (excluded shots left out).
+ * data_hash = the import's content hash, or a hash of all content hashes for merged sessions; once the shots
+ * have been edited (shot_edits) the latest edit id is folded in, so cached coaching no longer matches.
+ */
+export async function recomputeSessionStats(
+  supabase: SupabaseClient,
+  args: { clientId: string; sessionId: string; source: string }
+): Promise<{
+  metricsStatus: "complete" | "incomplete";
+  metricsMissing: string[];
+  qualityScore: number | null;
+  dataHash: string;
+}> {
+  const { clientId, sessionId, source } = args;
+
+  const [{ data: shots, error: shotsErr }, { data: session }, { data: lastEdit }, profile] = await Promise.all([
+    supabase
+      .from("shots")
+      .select(SHOT_COLUMNS)
+      .eq("session_id", sessionId)
+      .eq("excluded", false)
+      .order("shot_number", { ascending: true }),
+    supabase.from("sessions").select("import_id, conditions").eq("id", sessionId).maybeSingle(),
+    supabase
+      .from("shot_edits")
+      .select("id")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    loadThresholdProfile(supabase, clientId).catch(() => DEFAULT_THRESHOLD_PROFILE),
+  ]);
+
+  if (shotsErr) throw new StepError("shots_reload_failed", shotsErr.message);
+
+  // The import that created this session + any merged into it
+  const imports = (await sessionImports(supabase, sessionId)).filter((i) => i.status !== "failed");
+
+  const sessionShots = (shots ?? []) as SnapshotShot[];
+  const hashes = Array.from(new Set(imports.map((i) => i.content_hash ?? "").filter(Boolean))).sort();
+  if (lastEdit?.id) hashes.push(`edit:${lastEdit.id}`);
+  const dataHash =
+    hashes.length === 1 ? hashes[0] : crypto.createHash("sha256").update(hashes.join(",")).digest("hex");
+
+  const snapshot = buildSessionSnapshot({
+    source,
+    shots: sessionShots,
+    profile,
+    conditions: readSessionConditions(session?.conditions),
+  });
+
+  const { error: statsErr } = await supabase.from("session_stats").upsert(
+    [
+      {
+        client_id: clientId,
+        session_id: sessionId,
+        data_hash: dataHash,
+        stat_type: "snapshot",
+        stat_version: SNAPSHOT_STAT_VERSION,
+        stats_json: snapshot,
+      },
+    ],
+    { onConflict: "session_id,stat_type" }
+  );
+  if (statsErr) throw new StepError("session_stats_upsert_failed", statsErr.message);
+
+  const metricsMissing = missingMetrics(sessionShots);
+  const metricsStatus = metricsMissing.length ? "incomplete" : "complete";
+
+  // Per-shot detail stays in the snapshot
+  const q = snapshot.data_quality;
+  const qualityScore = q.score;
+  const quality = { version: q.version, grade: q.grade, shots: q.shots, flagged_shots: q.flagged_shots, flags: q.flags };
+
+  const { error: sessErr } = await supabase
+    .from("sessions")
+    .update({ metrics_status: metricsStatus, metrics_missing: metricsMissing, quality_score: qualityScore, quality })
+    .eq("id", sessionId);
+  if (sessErr) throw new StepError("session_update_failed", sessErr.message);
+
+  return { metricsStatus, metricsMissing, qualityScore, dataHash };
+}
+
+type SessionImport = { id: string; status: string; content_hash: string | null; fingerprints: string[] };
+
+/**
+ * Imports with shots in a session: listed in a csv_imports.split block (split and merged uploads) or, for imports
+ * from before blocks, csv_imports.session_id. Fingerprints are the block's when it kept them, else the whole file's.
+ */
+async function sessionImports(supabase: SupabaseClient, sessionId: string): Promise<SessionImport[]> {
+  const cols = "id, status, content_hash, shot_fingerprints, split";
+  const [{ data: byParent }, { data: byBlock }] = await Promise.all([
+    supabase.from("csv_imports").select(cols).eq("session_id", sessionId),
+    supabase.from("csv_imports").select(cols).contains("split", JSON.stringify([{ session_id: sessionId }])),
+  ]);
+
+  const out = new Map<string, SessionImport>();
+  for (const row of [...(byParent ?? []), ...(byBlock ?? [])]) {
+    const blocks: Array<{ session_id?: unknown; fingerprints?: unknown }> = Array.isArray(row.split) ? row.split : [];
+    const mine = blocks.filter((b) => b?.session_id === sessionId && Array.isArray(b.fingerprints));
+    const fingerprints: string[] = mine.length
+      ? mine.flatMap((b) => b.fingerprints as string[])
+      : Array.isArray(row.shot_fingerprints)
+        ? row.shot_fingerprints
+        : [];
+    out.set(row.id as string, {
+      id: row.id as string,
+      status: String(row.status ?? ""),
+      content_hash: (row.content_hash as string | null) ?? null,
+      fingerprints,
+    });
+  }
+  return Array.from(out.values());
+}
+
+async function storeFile(ctx: ImportContext) {
+  const { error } = await ctx.supabase.storage
+    .from(ctx.bucket)
+    .upload(ctx.storagePath, ctx.buf, { contentType: "text/csv", upsert: true });
+  if (error) throw new StepError("storage_upload_failed", error.message);
+}
+
+async function writeRawRows(ctx: ImportContext) {
+  const { supabase, importId, parser, table } = ctx;
+
+  const { error: delErr } = await supabase.from("shots_raw").delete().eq("import_id", importId);
+  if (delErr) throw new StepError("shots_raw_reset_failed", delErr.message);
+
+  const rawRows = table.rows.map((r, idx) => ({
+    import_id: importId,
+    row_number: idx + 1,
+    data: parser.rawPayload ? parser.rawPayload(r, table) : r.values,
+    uploaded_by: ctx.userId,
+  }));
+
+  for (const part of chunk(rawRows, 500)) {
+    const { error } = await supabase.from("shots_raw").insert(part);
+    if (error) throw new StepError("shots_raw_insert_failed", error.message);
+  }
+}
+
+/**
+ * Normalize into shots, one session per block (shot numbers restart per session). When the import was merged
+ * into an existing session (sessions.import_id is another import), shots already in that session are skipped
+ * and numbering continues after the last shot. Flight fields the device didn't report are modelled from its
+ * launch data and listed in shots.estimated_fields; suspect readings get shots.quality_flags (lib/analytics/dataQuality.ts).
+ */
+async function writeShots(ctx: ImportContext): Promise<number> {
+  const { supabase, importId } = ctx;
+
+  // Only the blocks' sessions: shots split off into another session keep their import_id but are no longer ours
+  const { error: delErr } = await supabase
+    .from("shots")
+    .delete()
+    .eq("import_id", importId)
+    .in("session_id", ctx.sessions.map((b) => b.sessionId));
+  if (delErr) throw new StepError("shots_reset_failed", delErr.message);
+
+  let inserted = 0;
+  for (const block of ctx.sessions) inserted += await writeBlockShots(ctx, block);
+  return inserted;
+}
+
+async function writeBlockShots(ctx: ImportContext, block: ImportSessionBlock): Promise<number> {
+  const { supabase, importId } = ctx;
+  const sessionId = block.sessionId;
+
+  const { data: session } = await supabase.from("sessions").select("import_id").eq("id", sessionId).maybeSingle();
+  const merged = !!session?.import_id && session.import_id !== importId;
+
+  const known = new Set<string>();
+  let nextShotNumber = 1;
+
+  if (merged) {
+    const [others, { data: last }] = await Promise.all([
+      sessionImports(supabase, sessionId),
+      supabase
+        .from("shots")
+        .select("shot_number")
+        .eq("session_id", sessionId)
+        .order("shot_number", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+    for (const o of others) if (o.id !== importId) o.fingerprints.forEach((f) => known.add(f));
+    nextShotNumber = (typeof last?.shot_number === "number" ? last.shot_number : 0) + 1;
+  }
+
+  const shots: Array<CanonicalShot & FlightColumns & { session_id: string; import_id: string }> = [];
+  ctx.table.rows.slice(block.rowStart, block.rowEnd).forEach((r, idx) => {
+    const s = mapRowToShot(r, ctx.headerMap, idx + 1, { parser: ctx.parser, units: ctx.columnUnits });
+    if (merged) {
+      const fp = shotFingerprint(s);
+      if (fp && known.has(fp)) return;
+      if (fp) known.add(fp);
+      s.shot_number = nextShotNumber++;
+    }
+    shots.push({ ...withFlightEstimates(s), session_id: sessionId, import_id: importId });
+  });
+
+  const flags = shotQualityFlags(shots);
+  const rows = shots.map((s, i) => ({ ...s, quality_flags: flags[i] }));
+
+  for (const part of chunk(rows, 500)) {
+    const { error } = await supabase.from("shots").insert(part);
+    if (error) throw new StepError("shots_insert_failed", error.message);
+  }
+
+  return shots.length;
+}
+
+async function setStatus(ctx: ImportContext, status: ImportStatus) {
+  const { error } = await ctx.supabase
+    .from("csv_imports")
+    .update({ status, failed_step: null, error: null, updated_at: new Date().toISOString() })
+    .eq("id", ctx.importId);
+  if (error) throw new StepError("import_status_update_failed", error.message);
+}
+
+async function markFailed(ctx: ImportContext, step: ImportStatus, message: string) {
+  await ctx.supabase
+    .from("csv_imports")
+    .update({ status: "failed", failed_step: step, error: message, updated_at: new Date().toISOString() })
+    .eq("id", ctx.importId);
+
+  // Keep half-built sessions out of histories; merged-into sessions keep their own status.
+  await ctx.supabase.from("sessions").update({ metrics_status: "failed" }).eq("import_id", ctx.importId);
+}
+
+/** Run every step after `from` (the last completed status). */
+export async function runImportSteps(ctx: ImportContext, from: ImportStatus): Promise<ImportRunResult> {
+  const start = STEP_ORDER.indexOf(from);
+  if (start < 0) return { ok: false, step: from, error: "invalid_resume_point" };
+
+  let shotsInserted = 0;
+  let metrics: { metricsStatus: "complete" | "incomplete"; metricsMissing: string[] } = {
+    metricsStatus: "incomplete",
+    metricsMissing: [],
+  };
+
+  for (const step of STEP_ORDER.slice(start + 1)) {
+    try {
+      if (step === "stored") await storeFile(ctx);
+      else if (step === "raw_parsed") await writeRawRows(ctx);
+      else if (step === "normalized") shotsInserted = await writeShots(ctx);
+      else if (step === "stats_computed") {
+        // Upload-level status: incomplete if any session is missing a metric
+        const missing = new Set<string>();
+        for (const b of ctx.sessions) {
+          // Best-effort club guesses for untagged shots; a missing bag or odd data never fails the import
+          await applyClubInference(ctx.supabase, {
+            clientId: ctx.clientId,
+            userId: ctx.userId,
+            sessionId: b.sessionId,
+          }).catch(() => null);
+          const m = await recomputeSessionStats(ctx.supabase, {
+            clientId: ctx.clientId,
+            sessionId: b.sessionId,
+            source: ctx.parser.id,
+          });
+          m.metricsMissing.forEach((k) => missing.add(k));
+        }
+        metrics = { metricsStatus: missing.size ? "incomplete" : "complete", metricsMissing: Array.from(missing) };
+      }
+      await setStatus(ctx, step);
+    } catch (e: unknown) {
+      const code = e instanceof StepError ? e.code : "step_failed";
+      const detail = e instanceof Error ? e.message : String(e);
+      await markFailed(ctx, step, detail);
+      return { ok: false, step, error: code, detail };
+    }
+  }
+
+  return { ok: true, shotsInserted, ...metrics };
+}
+
+type ImportRow = {
+  id: string;
+  session_id: string;
+  client_id: string | null;
+  uploaded_by: string;
+  storage_path: string;
+  parser_id: string | null;
+  header_map: Record<string, ShotField> | null;
+  source_units: Record<string, ColumnUnit> | null;
+  split: Array<{ session_id: string; row_start: number; row_end: number }> | null;
+  status: string;
+  failed_step: string | null;
+};
+
+/** Last status an import fully reached (failed imports resume from the step before the one that failed). */
+function lastCompleted(row: ImportRow): ImportStatus | null {
+  if (row.status !== "failed") {
+    return STEP_ORDER.find((s) => s === row.status) ?? null; // legacy "processing" rows are not resumable
+  }
+  const i = STEP_ORDER.findIndex((s) => s === row.failed_step);
+  return i > 0 ? STEP_ORDER[i - 1] : null;
+}
+
+export type ResumeResult =
+  | { ok: true; importId: string; sessionIds: string[]; resumedFrom: ImportStatus; run: ImportRunResult }
+  | { ok: false; status: number; error: string; extra?: Record<string, unknown> };
+
+/** Re-run a failed or stalled import from its last completed step, re-reading the stored CSV. */
+export async function resumeImport(supabase: SupabaseClient, bucket: string, importId: string): Promise<ResumeResult> {
+  const { data, error } = await supabase
+    .from("csv_imports")
+    .select("id, session_id, client_id, uploaded_by, storage_path, parser_id, header_map, source_units, split, status, failed_step")
+    .eq("id", importId)
+    .maybeSingle();
+
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!data) return { ok: false, status: 404, error: "import_not_found" };
+
+  const row = data as ImportRow;
+  if (row.status === "complete") return { ok: false, status: 409, error: "import_already_complete" };
+
+  const from = lastCompleted(row);
+  // Nothing to re-read until the file reached storage; the player has to upload again.
+  if (!from || from === "received") {
+    return { ok: false, status: 409, error: "not_resumable", extra: { status: row.status, failed_step: row.failed_step } };
+  }
+
+  const parser = row.parser_id ? getParser(row.parser_id) : null;
+  if (!parser || !row.client_id) return { ok: false, status: 409, error: "not_resumable", extra: { reason: "missing_parser" } };
+
+  const { data: blob, error: dlErr } = await supabase.storage.from(bucket).download(row.storage_path);
+  if (dlErr || !blob) return { ok: false, status: 500, error: "storage_download_failed", extra: { detail: dlErr?.message } };
+
+  const buf = Buffer.from(await blob.arrayBuffer());
+  const read = readCsvTable(buf.toString("utf-8"));
+  if (!read.ok) return { ok: false, status: 500, error: read.error };
+
+  // Pre-split imports have no csv_imports.split: the whole file is one session.
+  const sessions: ImportSessionBlock[] = row.split?.length
+    ? row.split.map((b) => ({ sessionId: b.session_id, rowStart: b.row_start, rowEnd: b.row_end }))
+    : [{ sessionId: row.session_id, rowStart: 0, rowEnd: read.table.rows.length }];
+
+  const ctx: ImportContext = {
+    supabase,
+    bucket,
+    importId: row.id,
+    sessions,
+    clientId: row.client_id,
+    userId: row.uploaded_by,
+    storagePath: row.storage_path,
+    buf,
+    table: read.table,
+    parser,
+    headerMap: row.header_map ?? {},
+    columnUnits: row.source_units ?? {},
+  };
+
+  const run = await runImportSteps(ctx, from);
+  return { ok: true, importId: row.id, sessionIds: sessions.map((b) => b.sessionId), resumedFrom: from, run };
+}
+
+export type PurgeResult =
+  | { ok: true; importId: string; sessionsDeleted: string[]; sessionsRebuilt: string[] }
+  | { ok: false; status: number; error: string; extra?: Record<string, unknown> };
+
+/**
+ * Remove a failed import and everything it wrote. Sessions it created (sessions.import_id = this import)
+ * go too; sessions it was merged into are kept and their stats rebuilt from the remaining shots.
+ * The csv_imports row goes last, so a purge that fails part-way can be retried.
+ */
+export async function purgeImport(supabase: SupabaseClient, bucket: string, importId: string): Promise<PurgeResult> {
+  const { data: row, error } = await supabase
+    .from("csv_imports")
+    .select("id, session_id, client_id, storage_path, parser_id, split, status")
+    .eq("id", importId)
+    .maybeSingle();
+
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!row) return { ok: false, status: 404, error: "import_not_found" };
+  if (row.status !== "failed") return { ok: false, status: 409, error: "import_not_failed", extra: { status: row.status } };
+
+  const [{ data: owned }, { data: parent }] = await Promise.all([
+    supabase.from("sessions").select("id").eq("import_id", importId),
+    supabase.from("sessions").select("id, import_id, source").eq("id", row.session_id).maybeSingle(),
+  ]);
+
+  const ownedIds = new Set((owned ?? []).map((s: { id: string }) => String(s.id)));
+  // Legacy rows whose session never got import_id set are owned too.
+  if (parent && parent.import_id === null) ownedIds.add(String(parent.id));
+
+  // Merged uploads list every existing session a block went into; older rows only csv_imports.session_id
+  const blocks: Array<{ session_id?: unknown }> = Array.isArray(row.split) ? row.split : [];
+  const touched = new Set(blocks.map((b) => b?.session_id).filter((id): id is string => typeof id === "string"));
+  if (parent) touched.add(String(parent.id));
+  const mergedInto = Array.from(touched).filter((id) => !ownedIds.has(id));
+
+  for (const table of ["shots", "shots_raw"]) {
+    const { error: delErr } = await supabase.from(table).delete().eq("import_id", importId);
+    if (delErr) return { ok: false, status: 500, error: `${table}_delete_failed`, extra: { detail: delErr.message } };
+  }
+
+  const ids = Array.from(ownedIds);
+  if (ids.length) {
+    const { error: statsErr } = await supabase.from("session_stats").delete().in("session_id", ids);
+    if (statsErr) return { ok: false, status: 500, error: "session_stats_delete_failed", extra: { detail: statsErr.message } };
+    const { error: sErr } = await supabase.from("sessions").delete().in("id", ids);
+    if (sErr) return { ok: false, status: 500, error: "session_delete_failed", extra: { detail: sErr.message } };
+  }
+
+  if (row.storage_path) {
+    const { error: fileErr } = await supabase.storage.from(bucket).remove([row.storage_path as string]);
+    if (fileErr) return { ok: false, status: 500, error: "storage_delete_failed", extra: { detail: fileErr.message } };
+  }
+
+  const { error: impErr } = await supabase.from("csv_imports").delete().eq("id", importId);
+  if (impErr) return { ok: false, status: 500, error: "import_delete_failed", extra: { detail: impErr.message } };
+
+  if (row.client_id) {
+    for (const sessionId of mergedInto) {
+      await recomputeSessionStats(supabase, {
+        clientId: row.client_id as string,
+        sessionId,
+        source: String((sessionId === parent?.id ? parent?.source : null) ?? row.parser_id ?? ""),
+      }).catch(() => null);
+    }
+  }
+
+  return { ok: true, importId, sessionsDeleted: ids, sessionsRebuilt: mergedInto };
+}
@@ -0,0 +1,106 @@
+// lib/ingest/recompute.ts
+// Rebuild session_stats for historical sessions after the snapshot shape changes (SNAPSHOT_STAT_VERSION bump)
+// or a client's threshold profile is edited. Works in batches: callers repeat with the returned `cursor` until
+// `remaining` is 0.
+//
+// Writes to tables: session_stats, sessions (metrics_*)
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { triggerEvent } from "@/lib/engine/events";
+import { SNAPSHOT_STAT_VERSION } from "@/lib/metrics/snapshot";
+import { recomputeSessionStats } from "./pipeline";
+
+export const MAX_RECOMPUTE_BATCH = 200;
+
+/** Position after the last session handled; sessions are walked newest first by (session_date, id). */
+export type RecomputeCursor = { sessionDate: string; id: string };
+
+export type RecomputeOptions = {
+  clientId?: string | null;
+  sessionIds?: string[] | null;
+  // false = rebuild every matched session, not just ones below the current stat_version
+  staleOnly?: boolean;
+  limit?: number;
+  cursor?: RecomputeCursor | null;
+};
+
+export type RecomputeResult = {
+  statVersion: number;
+  scanned: number; // sessions matched past the cursor, this batch included
+  recomputed: Array<{
+    sessionId: string;
+    metricsStatus: "complete" | "incomplete";
+    qualityScore: number | null;
+    dataHash: string;
+  }>;
+  failed: Array<{ sessionId: string; error: string }>;
+  remaining: number;
+  cursor: RecomputeCursor | null; // pass back to continue; null once nothing remains
+};
+
+type SessionRow = { id: string; client_id: string; source: string | null; session_date: string };
+
+export async function recomputeSnapshots(supabase: SupabaseClient, opts: RecomputeOptions): Promise<RecomputeResult> {
+  const staleOnly = opts.staleOnly ?? true;
+  const limit = Math.max(1, Math.min(MAX_RECOMPUTE_BATCH, Math.floor(opts.limit ?? 50)));
+
+  // Staleness is decided in the database (session_snapshot_versions view), so the count covers every session
+  let q = supabase
+    .from("session_snapshot_versions")
+    .select("id, client_id, source, session_date", { count: "exact" })
+    .eq("metrics_failed", false) // half-imported sessions are rebuilt by resume, not here
+    .order("session_date", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+  if (staleOnly) q = q.lt("stat_version", SNAPSHOT_STAT_VERSION);
+  if (opts.clientId) q = q.eq("client_id", opts.clientId);
+  if (opts.sessionIds?.length) q = q.in("id", opts.sessionIds);
+  if (opts.cursor) {
+    // Past the cursor even when a rebuild failed: a session that keeps failing cannot stall the walk
+    const { sessionDate, id } = opts.cursor;
+    q = q.or(`session_date.lt."${sessionDate}",and(session_date.eq."${sessionDate}",id.lt.${id})`);
+  }
+
+  const { data: sessions, error, count } = await q;
+  if (error) throw new Error(error.message);
+
+  const batch = (sessions ?? []) as SessionRow[];
+  const matched = count ?? batch.length;
+  const last = batch[batch.length - 1];
+  const remaining = Math.max(0, matched - batch.length);
+  const result: RecomputeResult = {
+    statVersion: SNAPSHOT_STAT_VERSION,
+    scanned: matched,
+    recomputed: [],
+    failed: [],
+    remaining,
+    cursor: remaining > 0 && last ? { sessionDate: last.session_date, id: last.id } : null,
+  };
+
+  // Sequential: each rebuild reloads every shot of the session
+  for (const s of batch) {
+    try {
+      const stats = await recomputeSessionStats(supabase, {
+        clientId: s.client_id,
+        sessionId: s.id,
+        source: String(s.source ?? ""),
+      });
+      result.recomputed.push({
+        sessionId: s.id,
+        metricsStatus: stats.metricsStatus,
+        qualityScore: stats.qualityScore,
+        dataHash: stats.dataHash,
+      });
+      await triggerEvent("session.stats_recomputed", {
+        session_id: s.id,
+        client_id: s.client_id,
+        stat_version: SNAPSHOT_STAT_VERSION,
+        data_hash: stats.dataHash,
+      });
+    } catch (e: unknown) {
+      result.failed.push({ sessionId: s.id, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,115 @@
+// lib/ingest/split.ts
+// Session boundaries inside one export: a new practice label, a gap between shots, or a date change.
+// One csv_imports parent -> one sessions row per block (sessions.import_id = parent).
+
+import { toUtcDate, type LocalDateTime } from "@/lib/parsers/datetime";
+import { rowPracticeTime } from "@/lib/parsers/registry";
+import type { CsvTable, LaunchMonitorParser } from "@/lib/parsers/types";
+
+// Shots further apart than this start a new session.
+export const SPLIT_GAP_MINUTES = 60;
+
+export type SplitReason = "start" | "label" | "time_gap" | "date_change";
+
+export type SessionBlock = {
+  index: number;
+  rowStart: number; // index into table.rows (inclusive)
+  rowEnd: number; // exclusive
+  reason: SplitReason; // why this block starts here
+  label: string | null;
+  sessionDate: string | null; // wall-clock practice date (YYYY-MM-DD) when the file has one
+  practicedAt: string | null; // ISO instant of the first timed shot
+};
+
+function localDate(d: LocalDateTime): string {
+  return `${d.year}-${String(d.month).padStart(2, "0")}-${String(d.day).padStart(2, "0")}`;
+}
+
+function rowTimes(parser: LaunchMonitorParser, table: CsvTable, timeZone: string | null) {
+  return table.rows.map((row) => {
+    const local = rowPracticeTime(parser, row, table);
+    return local ? { local, at: toUtcDate(local, timeZone) } : null;
+  });
+}
+
+/** Row indices where a new session starts (always includes 0), with the reason for each. */
+export function detectBlockStarts(
+  parser: LaunchMonitorParser,
+  table: CsvTable,
+  timeZone: string | null,
+  gapMinutes = SPLIT_GAP_MINUTES
+): Array<{ rowStart: number; reason: SplitReason }> {
+  if (!table.rows.length) return [];
+
+  const times = rowTimes(parser, table, timeZone);
+  const starts: Array<{ rowStart: number; reason: SplitReason }> = [{ rowStart: 0, reason: "start" }];
+
+  let prevTime = times[0];
+  for (let i = 1; i < table.rows.length; i++) {
+    const t = times[i];
+    const labelChanged = !!table.rows[i].label && table.rows[i].label !== table.rows[i - 1].label;
+
+    if (labelChanged) starts.push({ rowStart: i, reason: "label" });
+    else if (t && prevTime && localDate(t.local) !== localDate(prevTime.local)) starts.push({ rowStart: i, reason: "date_change" });
+    else if (t && prevTime && t.at.getTime() - prevTime.at.getTime() > gapMinutes * 60000) {
+      starts.push({ rowStart: i, reason: "time_gap" });
+    }
+
+    if (t) prevTime = t;
+  }
+
+  return starts;
+}
+
+/**
+ * Build blocks from confirmed start rows (from detectBlockStarts, or edited by the user in the preview).
+ * Invalid / duplicate indices are dropped; row 0 always starts the first block.
+ */
+export function buildBlocks(
+  parser: LaunchMonitorParser,
+  table: CsvTable,
+  timeZone: string | null,
+  starts: Array<{ rowStart: number; reason?: SplitReason }>
+): SessionBlock[] {
+  const n = table.rows.length;
+  if (!n) return [];
+
+  const reasonAt = new Map<number, SplitReason>();
+  for (const s of starts) {
+    if (Number.isInteger(s.rowStart) && s.rowStart > 0 && s.rowStart < n) reasonAt.set(s.rowStart, s.reason ?? "label");
+  }
+  const sorted = [0, ...Array.from(reasonAt.keys()).sort((a, b) => a - b)];
+  const times = rowTimes(parser, table, timeZone);
+
+  return sorted.map((rowStart, index) => {
+    const rowEnd = index + 1 < sorted.length ? sorted[index + 1] : n;
+
+    let first: { local: LocalDateTime; at: Date } | null = null;
+    for (let i = rowStart; i < rowEnd; i++) {
+      const t = times[i];
+      if (t && (!first || t.at < first.at)) first = t;
+    }
+
+    return {
+      index,
+      rowStart,
+      rowEnd,
+      reason: index === 0 ? "start" : (reasonAt.get(rowStart) ?? "label"),
+      label: table.rows[rowStart].label,
+      sessionDate: first ? localDate(first.local) : null,
+      practicedAt: first ? first.at.toISOString() : null,
+    };
+  });
+}
+
+/**
+ * Parse the upload's `split` field: "auto" (detected boundaries, the default), "none" (one session),
+ * or a comma-separated list of start row indices confirmed in the preview.
+ */
+export function parseSplitField(raw: string | null | undefined): "auto" | "none" | number[] | null {
+  const s = (raw ?? "").trim();
+  if (!s || s === "auto") return "auto";
+  if (s === "none") return "none";
+  const parts = s.split(",").map((p) => Number(p.trim()));
+  return parts.every((p) => Number.isInteger(p) && p >= 0) ? parts : null;
+}
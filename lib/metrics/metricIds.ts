@@ -0,0 +1,25 @@
+// lib/metrics/metricIds.ts
+// Snapshot metric registry (re-exported by lib/metrics/snapshot.ts). No imports, so schemas and prompts can name the
+// metrics without loading the snapshot builder and the analytics behind it.
+
+export const SNAPSHOT_METRIC_IDS = [
+  "carry_avg", // yards
+  "total_distance_avg", // yards
+  "ball_speed_avg", // mph
+  "club_speed_avg", // mph
+  "smash_factor_avg", // ball / club speed, shots with both
+  "launch_angle_avg", // degrees
+  "spin_rate_avg", // rpm, total spin from back + side spin
+  "offline_dispersion_p50", // yards, |side|
+  "offline_dispersion_p90", // yards, |side|
+  "start_line_sd", // degrees; no start-line column on range exports, so SD of atan(side / carry)
+  "face_to_path_avg", // degrees
+  "attack_angle_avg", // degrees
+  "dynamic_loft_avg", // degrees
+  "fairway_pct", // 0-100, per-club fairway finders (signals V1.2)
+  "gir_pct", // 0-100; needs course play, always null for range sessions
+  "penalty_rate", // 0-1, extreme offline share (signals V1.2)
+  "shot_quality_pct", // 0-100, share of shots that are not mishits (signals V1.2)
+] as const;
+
+export type SnapshotMetricId = (typeof SNAPSHOT_METRIC_IDS)[number];
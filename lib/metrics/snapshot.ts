@@ -1,64 +1,307 @@
-export type ShotForSnapshot = {
-  data?: {
-    carry_yd?: number;
-    offline_yd?: number;
-    ball_speed_mph?: number;
-    club_speed_mph?: number;
+// lib/metrics/snapshot.ts
+// Versioned session snapshot (session_stats.stats_json, stat_type "snapshot").
+// One builder for every writer (upload pipeline, shot edits, recompute); readers key off `stat_version`.
+// Metric ids match the ones coaching plans may cite (plan6m metric_id), so evidence never points at a missing key.
+
+import {
+  computeSignalsV1,
+  computeSignalsV1_1,
+  computeSignalsV1_2,
+  type SignalsV1,
+  type SignalsV11,
+  type SignalsV12,
+} from "@/lib/analytics/signalsV1";
+import { carryFactor, standardizeShots, type SessionConditions } from "@/lib/analytics/conditions";
+import { BALL_FLIGHT_MODEL_VERSION, FLIGHT_FIELDS, type FlightField } from "@/lib/analytics/ballFlight";
+import { analyzeSessionQuality, type SessionQualityV1 } from "@/lib/analytics/dataQuality";
+import { isNum, mean, median, percentile, sd } from "@/lib/analytics/numbers";
+import { computeDispersionGeometry, type DispersionGeometryV1 } from "@/lib/analytics/geometry";
+import { computePracticeScore, type PracticeScoreV1 } from "@/lib/analytics/practiceScore";
+import { computeSequence, type SequenceV1 } from "@/lib/analytics/sequence";
+import { DEFAULT_THRESHOLD_PROFILE, resolveThresholds, type ThresholdProfile } from "@/lib/analytics/thresholds";
+import type { CanonicalShot } from "@/lib/parsers/types";
+import { SNAPSHOT_METRIC_IDS, type SnapshotMetricId } from "@/lib/metrics/metricIds";
+
+// Bump when any metric definition or the stats_json shape changes; older rows are rebuilt by the recompute endpoint.
+export const SNAPSHOT_STAT_VERSION = 9;
+
+export { SNAPSHOT_METRIC_IDS, type SnapshotMetricId };
+
+export type SnapshotShot = CanonicalShot & {
+  club_inferred?: boolean | null;
+  descent_angle?: number | null;
+  flight_time?: number | null;
+  estimated_fields?: string[] | null; // flight fields filled by the ball-flight model at import
+  created_at?: string | null; // orders shots that share a shot_number (sequence analytics)
+};
+
+// Metrics that read a flight field, directly or through the carry-based outcome classifier
+const METRIC_FLIGHT_FIELD: Partial<Record<SnapshotMetricId, FlightField>> = {
+  carry_avg: "carry",
+  total_distance_avg: "total",
+  start_line_sd: "carry",
+  fairway_pct: "carry",
+  penalty_rate: "carry",
+  shot_quality_pct: "carry",
+};
+
+// A metric counts as estimated once at least this share of the shots behind it had the field modelled
+const ESTIMATED_METRIC_SHARE = 0.5;
+
+export type FlightEstimates = {
+  model_version: number;
+  shots: number; // shots with at least one modelled field
+  fields: Record<FlightField, number>; // shots per modelled field
+  metrics: SnapshotMetricId[]; // metrics to treat with lower confidence
+};
+
+export type SessionSnapshot = {
+  stat_version: number;
+  source: string;
+  shots: number;
+  clubs: string[];
+  metrics: Record<SnapshotMetricId, number | null>;
+  metric_samples: Record<SnapshotMetricId, number>; // shots each metric was computed from
+  signals_v1: SignalsV1;
+  signals_v1_1: SignalsV11;
+  signals_v1_2: SignalsV12;
+  practice_score: PracticeScoreV1;
+  dispersion_geometry: DispersionGeometryV1;
+  sequence: SequenceV1; // warm-up, fatigue, streaks, first ball (shot order)
+  flight_estimates: FlightEstimates;
+  data_quality: SessionQualityV1; // also stored on sessions.quality_score / quality
+  conditions: SessionConditions | null; // null = recorded at standard conditions
+  // Carry / total at standard conditions (sea level, 70F, premium ball); what trends, plans and the bag compare
+  standardized: {
+    applied: boolean; // false = conditions were standard, values equal the raw ones
+    carry_factor: number | null; // median session carry / standard carry
+    metrics: Record<SnapshotMetricId, number | null>;
+    clubs: Array<{ club: string; median_carry: number | null; carry_sd: number | null }>;
   };
+  // Read by the coaching engines as deterministic evidence
+  summary: string;
+  highlights: string[];
+  metrics_used: SnapshotMetricId[];
 };
 
-function mean(arr: number[]) {
-  return arr.reduce((a, b) => a + b, 0) / (arr.length || 1);
+function fmt(n: number, digits = 0): string {
+  return n.toFixed(digits);
 }
 
-function std(arr: number[]) {
-  const m = mean(arr);
-  const v = mean(arr.map((x) => (x - m) ** 2));
-  return Math.sqrt(v);
+function flightEstimates(shots: SnapshotShot[]): FlightEstimates {
+  const fields = Object.fromEntries(FLIGHT_FIELDS.map((f) => [f, 0])) as FlightEstimates["fields"];
+  let estimatedShots = 0;
+  for (const s of shots) {
+    const est = (Array.isArray(s.estimated_fields) ? s.estimated_fields : []).filter((f): f is FlightField =>
+      (FLIGHT_FIELDS as readonly string[]).includes(f)
+    );
+    if (est.length) estimatedShots += 1;
+    for (const f of est) fields[f] += 1;
+  }
+
+  const metrics = SNAPSHOT_METRIC_IDS.filter((id) => {
+    const field = METRIC_FLIGHT_FIELD[id];
+    return field !== undefined && shots.length > 0 && fields[field] / shots.length >= ESTIMATED_METRIC_SHARE;
+  });
+  return { model_version: BALL_FLIGHT_MODEL_VERSION, shots: estimatedShots, fields, metrics };
 }
 
-export function computeSnapshotMetrics(shots: ShotForSnapshot[]) {
-  const clean = (shots ?? []).filter((s) => {
-    const d = s?.data;
-    const carry = Number(d?.carry_yd);
-    const offline = Number(d?.offline_yd);
-    const bs = Number(d?.ball_speed_mph);
-    const cs = Number(d?.club_speed_mph);
-    return (
-      Number.isFinite(carry) &&
-      Number.isFinite(offline) &&
-      Number.isFinite(bs) &&
-      Number.isFinite(cs) &&
-      cs > 0
+function summarize(
+  source: string,
+  shots: number,
+  clubs: string[],
+  m: SessionSnapshot["metrics"],
+  practice: PracticeScoreV1,
+  estimates: FlightEstimates,
+  standardized: SessionSnapshot["standardized"],
+  quality: SessionQualityV1,
+  sequence: SequenceV1
+): { summary: string; highlights: string[] } {
+  if (!shots) return { summary: "No shots recorded for this session.", highlights: [] };
+
+  const parts = [`${shots} shots${source ? ` (${source})` : ""}${clubs.length ? ` across ${clubs.length} club${clubs.length === 1 ? "" : "s"}` : ""}.`];
+  if (m.carry_avg !== null) parts.push(`Average carry ${fmt(m.carry_avg)}y.`);
+  if (standardized.applied && standardized.metrics.carry_avg !== null) {
+    parts.push(`${fmt(standardized.metrics.carry_avg)}y at standard conditions.`);
+  }
+  if (m.offline_dispersion_p90 !== null) parts.push(`90% of shots within ${fmt(m.offline_dispersion_p90)}y of the target line.`);
+  const fade = sequence.fatigue;
+  if (fade?.metric) {
+    const drift = (fade.metric === "ball_speed" ? fade.ball_speed_drift_pct : fade.carry_drift_pct) ?? 0;
+    parts.push(`${fade.metric === "ball_speed" ? "Ball speed" : "Carry"} faded ${fmt(-drift, 1)}% through the session.`);
+  }
+  if (quality.grade === "poor") {
+    parts.push(`Data quality is low (${quality.flagged_shots} suspect readings); treat these numbers with caution.`);
+  }
+  if (estimates.fields.carry) {
+    parts.push(`Carry estimated from launch data on ${estimates.fields.carry} shot${estimates.fields.carry === 1 ? "" : "s"}.`);
+  }
+
+  const highlights: string[] = [];
+  if (practice.session) {
+    const sg = practice.session.sg_vs_tier;
+    highlights.push(
+      `Practice score ${fmt(practice.session.score)} (${sg >= 0 ? "+" : ""}${fmt(sg, 2)} strokes per shot vs your level).`
     );
-  });
+  }
+  if (sequence.warm_up?.detected) {
+    highlights.push(`Took ${sequence.warm_up.shots} shots to warm up to full ball speed.`);
+  }
+  if (m.shot_quality_pct !== null) highlights.push(`${fmt(m.shot_quality_pct)}% of shots struck without a mishit.`);
+  if (m.fairway_pct !== null) highlights.push(`${fmt(m.fairway_pct)}% of shots finished inside the fairway window.`);
+  if (m.smash_factor_avg !== null) highlights.push(`Smash factor averaged ${fmt(m.smash_factor_avg, 2)}.`);
+  if (m.offline_dispersion_p50 !== null) highlights.push(`Median offline distance ${fmt(m.offline_dispersion_p50)}y.`);
 
-  if (!clean.length) return null;
+  return { summary: parts.join(" "), highlights: highlights.slice(0, 4) };
+}
 
-  const carry = clean.map((s) => Number(s.data!.carry_yd));
-  const offline = clean.map((s) => Number(s.data!.offline_yd));
-  const smash = clean.map(
-    (s) => Number(s.data!.ball_speed_mph) / Number(s.data!.club_speed_mph)
-  );
+// metric id -> (value, sample size)
+function computeMetrics(
+  shots: SnapshotShot[],
+  agg: SignalsV12["aggregate"]
+): Record<SnapshotMetricId, [number | null, number]> {
+  const col = (key: Exclude<keyof CanonicalShot, "club">) => shots.map((s) => s[key]).filter(isNum);
+
+  const smash = shots
+    .filter((s) => isNum(s.ball_speed) && isNum(s.club_speed) && (s.club_speed as number) > 0)
+    .map((s) => (s.ball_speed as number) / (s.club_speed as number));
 
-  const carryMean = mean(carry);
-  const carryStd = std(carry);
-  const offlineStd = std(offline);
+  const spin = shots
+    .filter((s) => isNum(s.back_spin))
+    .map((s) => Math.hypot(s.back_spin as number, isNum(s.side_spin) ? s.side_spin : 0));
 
-  const smashAvg = mean(smash);
-  const smashStd = std(smash);
+  const offline = col("side").map(Math.abs);
 
-  const ellipseArea = Math.PI * offlineStd * carryStd;
+  const startAngles = shots
+    .filter((s) => isNum(s.side) && isNum(s.carry) && (s.carry as number) > 0)
+    .map((s) => (Math.atan2(s.side as number, s.carry as number) * 180) / Math.PI);
+
+  const avgOf = (nums: number[]): [number | null, number] => [mean(nums), nums.length];
+  const rate = (r: number, scale: number): [number | null, number] => [shots.length ? r * scale : null, shots.length];
+
+  return {
+    carry_avg: avgOf(col("carry")),
+    total_distance_avg: avgOf(col("total")),
+    ball_speed_avg: avgOf(col("ball_speed")),
+    club_speed_avg: avgOf(col("club_speed")),
+    smash_factor_avg: avgOf(smash),
+    launch_angle_avg: avgOf(col("launch_angle")),
+    spin_rate_avg: avgOf(spin),
+    offline_dispersion_p50: [median(offline), offline.length],
+    offline_dispersion_p90: [percentile(offline, 90), offline.length],
+    start_line_sd: [sd(startAngles), startAngles.length],
+    face_to_path_avg: avgOf(col("face_to_path")),
+    attack_angle_avg: avgOf(col("attack_angle")),
+    dynamic_loft_avg: avgOf(col("dynamic_loft")),
+    fairway_pct: rate(agg.fairway_rate, 100),
+    gir_pct: [null, 0],
+    penalty_rate: rate(agg.extreme_rate, 1),
+    shot_quality_pct: rate(1 - agg.mishit_rate, 100),
+  };
+}
+
+function metricValues(computed: Record<SnapshotMetricId, [number | null, number]>): SessionSnapshot["metrics"] {
+  return Object.fromEntries(SNAPSHOT_METRIC_IDS.map((id) => [id, computed[id][0]])) as SessionSnapshot["metrics"];
+}
+
+/**
+ * Build the session snapshot from the session's non-excluded shots. Pure: same shots + profile + conditions ->
+ * same JSON. Raw metrics are what the device reported; `standardized` re-runs them on carries adjusted to
+ * standard conditions.
+ */
+export function buildSessionSnapshot(args: {
+  source: string;
+  shots: SnapshotShot[];
+  profile?: ThresholdProfile;
+  conditions?: SessionConditions | null;
+}): SessionSnapshot {
+  const { source, shots } = args;
+  const profile = args.profile ?? DEFAULT_THRESHOLD_PROFILE;
+  const conditions = args.conditions ?? null;
+
+  const signals_v1 = computeSignalsV1(shots, resolveThresholds(profile, null));
+  const signals_v1_1 = computeSignalsV1_1(shots, resolveThresholds(profile, null));
+  const signals_v1_2 = computeSignalsV1_2(shots, profile);
+  const practice_score = computePracticeScore(shots, profile, carryFactor(conditions));
+  const dispersion_geometry = computeDispersionGeometry(shots, profile);
+  const flight_estimates = flightEstimates(shots);
+  const data_quality = analyzeSessionQuality(shots);
+  const sequence = computeSequence(shots, profile);
+
+  const computed = computeMetrics(shots, signals_v1_2.aggregate);
+  const metrics = metricValues(computed);
+  const metric_samples = Object.fromEntries(
+    SNAPSHOT_METRIC_IDS.map((id) => [id, computed[id][1]])
+  ) as SessionSnapshot["metric_samples"];
+
+  // Outcome rates are judged against each club's own median carry, so they barely move; re-run for consistency
+  const standardizedShots = standardizeShots(shots, conditions);
+  const stdSignals = standardizedShots.applied ? computeSignalsV1_2(standardizedShots.shots, profile) : signals_v1_2;
+  const standardized: SessionSnapshot["standardized"] = {
+    applied: standardizedShots.applied,
+    carry_factor: standardizedShots.carry_factor,
+    metrics: standardizedShots.applied ? metricValues(computeMetrics(standardizedShots.shots, stdSignals.aggregate)) : metrics,
+    clubs: stdSignals.clubs.map((c) => ({ club: c.club, median_carry: c.median_carry, carry_sd: c.dispersion.carry_sd })),
+  };
+
+  const clubs = signals_v1_2.clubs.map((c) => c.club);
+  const { summary, highlights } = summarize(
+    source,
+    shots.length,
+    clubs,
+    metrics,
+    practice_score,
+    flight_estimates,
+    standardized,
+    data_quality,
+    sequence
+  );
 
   return {
-    n: clean.length,
-    strike_quality: { smash_avg: smashAvg, smash_std: smashStd },
-    start_line_control: { offline_std: offlineStd },
-    distance_control: {
-      carry_mean: carryMean,
-      carry_std: carryStd,
-      carry_cv: carryStd / (carryMean || 1),
-    },
-    dispersion_tightness: { ellipse_area: ellipseArea },
+    stat_version: SNAPSHOT_STAT_VERSION,
+    source,
+    shots: shots.length,
+    clubs,
+    metrics,
+    metric_samples,
+    signals_v1,
+    signals_v1_1,
+    signals_v1_2,
+    practice_score,
+    dispersion_geometry,
+    sequence,
+    flight_estimates,
+    data_quality,
+    conditions,
+    standardized,
+    summary,
+    highlights,
+    metrics_used: SNAPSHOT_METRIC_IDS.filter((id) => metrics[id] !== null),
   };
 }
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * A stored snapshot as plans read it: `metrics` at standard conditions (standardized.metrics, per metric falling
+ * back to the raw value), the device's values kept under `metrics_as_recorded`, and `metrics_basis` saying which one
+ * `metrics` is. Snapshots written before standardization are passed through as recorded.
+ */
+export function withStandardizedMetrics<T>(stats: T): T {
+  if (!isRecord(stats)) return stats;
+  const standardized = stats.standardized;
+  if (!isRecord(standardized) || !isRecord(standardized.metrics) || !isRecord(stats.metrics)) {
+    return { ...stats, metrics_basis: "as_recorded" };
+  }
+  // applied = false: the session was recorded at standard conditions, so the raw metrics already are standard
+  if (standardized.applied !== true) return { ...stats, metrics_basis: "standard_conditions" };
+
+  const raw = stats.metrics;
+  const standard = standardized.metrics;
+  const metrics = Object.fromEntries(
+    Object.entries(raw).map(([id, v]) => [id, isNum(standard[id]) ? standard[id] : v])
+  );
+  return { ...stats, metrics, metrics_as_recorded: raw, metrics_basis: "standard_conditions" };
+}
@@ -0,0 +1,134 @@
+// lib/parsers/csv.ts
+// Launch-monitor CSV text -> CsvTable (header row, optional units row, label rows, data rows).
+// Exports are messy: preamble lines before the header, repeated headers per block, blank padding columns.
+
+import Papa from "papaparse";
+import type { CsvRow, CsvTable } from "./types";
+import { parseUnitToken } from "./units";
+
+function cells(row: string[]): string[] {
+  return row.map((c) => (c ?? "").toString().trim());
+}
+
+function nonEmpty(row: string[]): string[] {
+  return row.filter((c) => c.length > 0);
+}
+
+function isNumeric(s: string): boolean {
+  return s.length > 0 && Number.isFinite(Number(s));
+}
+
+function isHeaderLike(row: string[]): boolean {
+  const filled = nonEmpty(row);
+  if (filled.length < 3) return false;
+  const textual = filled.filter((c) => !isNumeric(c)).length;
+  return textual / filled.length >= 0.8;
+}
+
+const EMPTY_UNIT = /^(\[\s*\]|\(\s*\))$/; // Trackman/Garmin put "[]" under unitless columns
+
+function isUnitRow(row: string[]): boolean {
+  const filled = nonEmpty(row);
+  const isUnit = (c: string) => parseUnitToken(c) !== null;
+  return filled.some(isUnit) && filled.every((c) => isUnit(c) || EMPTY_UNIT.test(c));
+}
+
+// Block titles devices write: "PRACTICE: 12/20/2025 5:32 PM" (SkyTrak), "Session: Range 2"
+const TITLE_LINE = /^[A-Za-z][A-Za-z ]{1,30}:\s*\S/;
+
+/**
+ * A one-cell text row is a block label only where a device puts one: a title line, or the line right before a
+ * repeated header. Anything else ("Driver,,,," from a misread) stays a shot so data quality can flag it.
+ */
+function isLabelRow(lines: string[][], i: number, headerLine: string[]): boolean {
+  const filled = nonEmpty(lines[i]);
+  if (filled.length !== 1 || isNumeric(filled[0])) return false;
+  if (TITLE_LINE.test(filled[0])) return true;
+
+  let next = i + 1;
+  while (next < lines.length && isUnitRow(lines[next])) next++;
+  return next < lines.length && sameRow(lines[next], headerLine);
+}
+
+// Some exports repeat a header (carry vs total "Lateral"); keep the first, suffix the rest "#2", "#3".
+function uniqueHeaders(row: string[]): string[] {
+  const seen = new Map<string, number>();
+  return row.map((h) => {
+    if (!h) return h;
+    const n = (seen.get(h) ?? 0) + 1;
+    seen.set(h, n);
+    return n === 1 ? h : `${h}#${n}`;
+  });
+}
+
+function sameRow(a: string[], b: string[]): boolean {
+  const x = nonEmpty(a);
+  const y = nonEmpty(b);
+  return x.length === y.length && x.every((v, i) => v === y[i]);
+}
+
+export type ReadCsvResult =
+  | { ok: true; table: CsvTable }
+  | { ok: false; error: string; detail?: unknown };
+
+export function readCsvTable(text: string): ReadCsvResult {
+  const clean = text.replace(/^\uFEFF/, "");
+
+  const parsed = Papa.parse<string[]>(clean, {
+    header: false,
+    skipEmptyLines: "greedy",
+  });
+
+  if (parsed.errors?.length) {
+    return { ok: false, error: "csv_parse_failed", detail: parsed.errors[0] };
+  }
+
+  const lines = (parsed.data ?? []).map(cells);
+
+  const headerIdx = lines.findIndex(isHeaderLike);
+  if (headerIdx < 0) return { ok: false, error: "no_header_row" };
+
+  const headerLine = lines[headerIdx];
+  const headerCells = uniqueHeaders(headerLine);
+  const headers = headerCells.filter((h) => h.length > 0);
+
+  const preamble = lines
+    .slice(0, headerIdx)
+    .map((r) => nonEmpty(r).join(" "))
+    .filter((s) => s.length > 0);
+
+  let unitRow: Record<string, string> | null = null;
+  let label: string | null = preamble.length ? preamble[preamble.length - 1] : null;
+
+  const rows: CsvRow[] = [];
+
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (sameRow(line, headerLine)) continue; // repeated header per block
+
+    if (isUnitRow(line)) {
+      if (!unitRow) {
+        unitRow = {};
+        headerCells.forEach((h, col) => {
+          if (h && line[col]) unitRow![h] = line[col];
+        });
+      }
+      continue;
+    }
+
+    if (isLabelRow(lines, i, headerLine)) {
+      label = nonEmpty(line)[0];
+      continue;
+    }
+
+    const values: Record<string, string> = {};
+    headerCells.forEach((h, col) => {
+      if (h) values[h] = line[col] ?? "";
+    });
+
+    rows.push({ line: i + 1, values, label });
+  }
+
+  return { ok: true, table: { headers, rows, preamble, unitRow } };
+}
@@ -0,0 +1,163 @@
+// lib/parsers/datetime.ts
+// Practice timestamps from launch-monitor exports.
+// Exports mostly carry wall-clock time with no zone; we keep it as local components and only turn it into
+// an instant once a time zone is known (offset in the file > client profile > uploader's browser > UTC).
+
+export type LocalDateTime = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** Minutes east of UTC when the export states it (ISO "Z" / "+02:00"); null = wall-clock only. */
+  offsetMinutes: number | null;
+};
+
+function valid(d: LocalDateTime): LocalDateTime | null {
+  const ok =
+    d.year >= 2000 &&
+    d.year <= 2100 &&
+    d.month >= 1 &&
+    d.month <= 12 &&
+    d.day >= 1 &&
+    d.day <= 31 &&
+    d.hour >= 0 &&
+    d.hour <= 23 &&
+    d.minute >= 0 &&
+    d.minute <= 59 &&
+    d.second >= 0 &&
+    d.second <= 59;
+  return ok ? d : null;
+}
+
+function to24h(hour: number, ampm: string | undefined): number {
+  const ap = (ampm ?? "").toUpperCase();
+  if (ap === "PM" && hour < 12) return hour + 12;
+  if (ap === "AM" && hour === 12) return 0;
+  return hour;
+}
+
+function fullYear(y: number): number {
+  return y < 100 ? 2000 + y : y;
+}
+
+/**
+ * Parse the date/time spellings seen in exports:
+ *   2025-12-20T17:32:05Z | 2025-12-20 17:32[:05][+01:00] | 12/20/2025 5:32 PM | 20.12.2025 17:32 | 2025/12/20 17:32
+ * Slash dates are month-first (US exports) unless the first part can only be a day (> 12).
+ * A date without a time is read as midnight.
+ */
+export function parseDateTimeText(raw: string | null | undefined): LocalDateTime | null {
+  const s = (raw ?? "").trim();
+  if (!s) return null;
+
+  const time = "(?:[ T]+(\\d{1,2}):(\\d{2})(?::(\\d{2}))?(?:\\.\\d+)?\\s*(AM|PM)?)?";
+  const zone = "\\s*(Z|[+-]\\d{2}:?\\d{2})?";
+
+  const build = (y: number, mo: number, d: number, m: RegExpMatchArray, t: number, z?: string) => {
+    const hour = m[t] ? to24h(Number(m[t]), m[t + 3]) : 0;
+    let offsetMinutes: number | null = null;
+    if (z) {
+      if (z.toUpperCase() === "Z") offsetMinutes = 0;
+      else {
+        const sign = z.startsWith("-") ? -1 : 1;
+        const digits = z.slice(1).replace(":", "");
+        offsetMinutes = sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2, 4)));
+      }
+    }
+    return valid({
+      year: fullYear(y),
+      month: mo,
+      day: d,
+      hour,
+      minute: m[t + 1] ? Number(m[t + 1]) : 0,
+      second: m[t + 2] ? Number(m[t + 2]) : 0,
+      offsetMinutes,
+    });
+  };
+
+  // Year first: 2025-12-20 / 2025/12/20
+  let m = s.match(new RegExp(`^(\\d{4})[-/](\\d{1,2})[-/](\\d{1,2})${time}${zone}$`, "i"));
+  if (m) return build(Number(m[1]), Number(m[2]), Number(m[3]), m, 4, m[8]);
+
+  // Day first with dots: 20.12.2025
+  m = s.match(new RegExp(`^(\\d{1,2})\\.(\\d{1,2})\\.(\\d{2,4})${time}$`, "i"));
+  if (m) return build(Number(m[3]), Number(m[2]), Number(m[1]), m, 4);
+
+  // Slashes: 12/20/2025 (or 20/12/2025 when unambiguous)
+  m = s.match(new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{2,4})${time}$`, "i"));
+  if (m) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    return a > 12 ? build(Number(m[3]), b, a, m, 4) : build(Number(m[3]), a, b, m, 4);
+  }
+
+  return null;
+}
+
+/** Find a date/time somewhere inside free text, e.g. "PRACTICE: 12/20/2025 5:32 PM" or "Session 2025-12-20 17:32". */
+export function findDateTimeInText(text: string | null | undefined): LocalDateTime | null {
+  const s = text ?? "";
+  const candidates = s.match(
+    /\d{4}[-/]\d{1,2}[-/]\d{1,2}(?:[ T]+\d{1,2}:\d{2}(?::\d{2})?(?:\s*(?:AM|PM))?)?(?:Z|[+-]\d{2}:?\d{2})?|\d{1,2}[./]\d{1,2}[./]\d{2,4}(?:\s+\d{1,2}:\d{2}(?::\d{2})?(?:\s*(?:AM|PM))?)?/gi
+  );
+  for (const c of candidates ?? []) {
+    const d = parseDateTimeText(c);
+    if (d) return d;
+  }
+  return null;
+}
+
+export function isValidTimeZone(tz: string | null | undefined): tz is string {
+  if (!tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Offset of `timeZone` from UTC (minutes east) at the given instant. */
+function zoneOffsetMinutes(epochMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(epochMs));
+
+  const get = (t: string) => Number(parts.find((p) => p.type === t)?.value ?? 0);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return Math.round((asUtc - epochMs) / 60000);
+}
+
+/**
+ * Resolve local components to a UTC instant. An offset in the export wins; otherwise the wall-clock time is
+ * read in `timeZone` (DST-aware). Falls back to UTC when no valid zone is given.
+ */
+export function toUtcDate(local: LocalDateTime, timeZone?: string | null): Date {
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  if (local.offsetMinutes !== null) return new Date(wall - local.offsetMinutes * 60000);
+  if (!isValidTimeZone(timeZone)) return new Date(wall);
+
+  // Two passes settle the offset around DST transitions.
+  let t = wall - zoneOffsetMinutes(wall, timeZone) * 60000;
+  t = wall - zoneOffsetMinutes(t, timeZone) * 60000;
+  return new Date(t);
+}
+
+/** Calendar date (YYYY-MM-DD) of an instant in `timeZone` (UTC when invalid). */
+export function localDateIn(instant: Date, timeZone?: string | null): string {
+  const tz = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const parts = new Intl.DateTimeFormat("en-CA", { timeZone: tz, year: "numeric", month: "2-digit", day: "2-digit" }).formatToParts(
+    instant
+  );
+  const get = (t: string) => parts.find((p) => p.type === t)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
@@ -0,0 +1,30 @@
+// lib/parsers/flightscope_v1.ts
+// FlightScope Mevo+ (FS Golf app) CSV export -> canonical shot fields (v1)
+// FS Golf puts the unit in every header ("Carry (yds)", "Club (mph)").
+
+import { readNum, spinComponents } from "./values";
+import type { LaunchMonitorParser } from "./types";
+
+export const flightscopeParserV1: LaunchMonitorParser = {
+  id: "flightscope",
+  label: "FlightScope Mevo+",
+  version: 1,
+
+  signature: ["Ball (mph)", "Carry (yds)", "Launch V (°)", "Spin (rpm)"],
+
+  headerMap: {
+    Club: "club",
+    "Ball (mph)": "ball_speed",
+    "Club (mph)": "club_speed",
+    "Carry (yds)": "carry",
+    "Total (yds)": "total",
+    "Lateral (yds)": "side",
+    "Launch V (°)": "launch_angle",
+    "AOA (°)": "attack_angle",
+    "Dynamic Loft (°)": "dynamic_loft",
+    "Face To Path (°)": "face_to_path",
+    "Height (ft)": "apex",
+  },
+
+  derive: (row) => spinComponents(readNum(row, "Spin (rpm)"), readNum(row, "Spin Axis (°)")),
+};
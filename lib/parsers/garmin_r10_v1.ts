@@ -0,0 +1,28 @@
+// lib/parsers/garmin_r10_v1.ts
+// Garmin Approach R10 (Garmin Golf app) CSV export -> canonical shot fields (v1)
+// The export has a bracketed units row ("[mph]", "[yds]") under the header.
+
+import type { LaunchMonitorParser } from "./types";
+
+export const garminR10ParserV1: LaunchMonitorParser = {
+  id: "garmin_r10",
+  label: "Garmin Approach R10",
+  version: 1,
+
+  signature: ["Club Type", "Carry Distance", "Carry Deviation Distance", "Backspin"],
+
+  headerMap: {
+    "Club Type": "club",
+    "Club Speed": "club_speed",
+    "Ball Speed": "ball_speed",
+    "Launch Angle": "launch_angle",
+    "Carry Distance": "carry",
+    "Total Distance": "total",
+    "Carry Deviation Distance": "side",
+    Backspin: "back_spin",
+    Sidespin: "side_spin",
+    "Attack Angle": "attack_angle",
+    "Face to Path": "face_to_path",
+    "Apex Height": "apex",
+  },
+};
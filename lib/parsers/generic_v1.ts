@@ -0,0 +1,37 @@
+// lib/parsers/generic_v1.ts
+// Fallback for exports no device parser recognises (older firmware, renamed columns).
+// Never auto-detected (empty signature); picked in the upload preview and mapped by hand.
+
+import type { LaunchMonitorParser } from "./types";
+
+export const genericParserV1: LaunchMonitorParser = {
+  id: "generic",
+  label: "Other (map columns)",
+  version: 1,
+
+  signature: [],
+
+  // Common spellings, so the mapping wizard starts mostly filled in.
+  headerMap: {
+    Club: "club",
+    "Club Type": "club",
+    Carry: "carry",
+    "Carry Distance": "carry",
+    Total: "total",
+    "Total Distance": "total",
+    Offline: "side",
+    Side: "side",
+    "Ball Speed": "ball_speed",
+    "Club Speed": "club_speed",
+    "Launch Angle": "launch_angle",
+    Launch: "launch_angle",
+    "Back Spin": "back_spin",
+    Backspin: "back_spin",
+    "Side Spin": "side_spin",
+    Sidespin: "side_spin",
+    "Attack Angle": "attack_angle",
+    "Dynamic Loft": "dynamic_loft",
+    "Face To Path": "face_to_path",
+    Apex: "apex",
+  },
+};
@@ -0,0 +1,25 @@
+// lib/parsers/gspro_v1.ts
+// GSPro shot export -> canonical shot fields (v1)
+
+import type { LaunchMonitorParser } from "./types";
+
+export const gsproParserV1: LaunchMonitorParser = {
+  id: "gspro",
+  label: "GSPro",
+  version: 1,
+
+  // VLA/TotalDistance are GSPro-specific spellings; enough to tell it apart from other exports.
+  signature: ["Carry", "TotalDistance", "BallSpeed", "VLA"],
+
+  headerMap: {
+    Carry: "carry",
+    TotalDistance: "total",
+    BallSpeed: "ball_speed",
+    ClubSpeed: "club_speed",
+    VLA: "launch_angle",
+    BackSpin: "back_spin",
+    SideSpin: "side_spin",
+    Offline: "side",
+    Club: "club",
+  },
+};
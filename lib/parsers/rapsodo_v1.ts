@@ -0,0 +1,31 @@
+// lib/parsers/rapsodo_v1.ts
+// Rapsodo MLM2PRO (R-Cloud) CSV export -> canonical shot fields (v1)
+// Lateral values come through as "12.3 L" / "4.1 R"; toNum() signs them.
+
+import { readNum, spinComponents } from "./values";
+import type { LaunchMonitorParser } from "./types";
+
+export const rapsodoParserV1: LaunchMonitorParser = {
+  id: "rapsodo",
+  label: "Rapsodo MLM2PRO",
+  version: 1,
+
+  signature: ["Club Type", "Carry Distance", "Side Carry", "Apex"],
+
+  headerMap: {
+    "Club Type": "club",
+    "Club Speed": "club_speed",
+    "Ball Speed": "ball_speed",
+    "Launch Angle": "launch_angle",
+    "Carry Distance": "carry",
+    "Total Distance": "total",
+    "Side Carry": "side",
+    "Attack Angle": "attack_angle",
+    Apex: "apex",
+  },
+
+  // No units row; R-Cloud reports apex in feet.
+  units: { apex: "ft" },
+
+  derive: (row) => spinComponents(readNum(row, "Spin Rate"), readNum(row, "Spin Axis")),
+};
@@ -0,0 +1,167 @@
+// lib/parsers/registry.ts
+// Launch-monitor parser registry: header-signature detection + canonical row mapping.
+// Adding a device = add a parser module and list it in PARSERS. No new upload route.
+
+import { flightscopeParserV1 } from "./flightscope_v1";
+import { garminR10ParserV1 } from "./garmin_r10_v1";
+import { genericParserV1 } from "./generic_v1";
+import { gsproParserV1 } from "./gspro_v1";
+import { rapsodoParserV1 } from "./rapsodo_v1";
+import { skytrakParserV1 } from "./skytrak_v1";
+import { trackmanParserV1 } from "./trackman_v1";
+import { findDateTimeInText, parseDateTimeText, type LocalDateTime } from "./datetime";
+import type { CanonicalShot, CsvRow, CsvTable, LaunchMonitorParser, ShotField } from "./types";
+import { splitHeaderUnit, toCanonical, type ColumnUnit } from "./units";
+import { normHeader, toNum, toText } from "./values";
+
+export { normHeader } from "./values";
+
+const PARSERS: LaunchMonitorParser[] = [
+  gsproParserV1,
+  skytrakParserV1,
+  trackmanParserV1,
+  flightscopeParserV1,
+  garminR10ParserV1,
+  rapsodoParserV1,
+  genericParserV1,
+];
+
+export function listParsers(): LaunchMonitorParser[] {
+  return PARSERS.slice();
+}
+
+export function getParser(id: string): LaunchMonitorParser | null {
+  return PARSERS.find((p) => p.id === id) ?? null;
+}
+
+function unitSuffixedBases(headers: string[]): string[] {
+  return headers.flatMap((h) => {
+    const { base, unit } = splitHeaderUnit(h);
+    return unit ? [normHeader(base)] : [];
+  });
+}
+
+/**
+ * Pick the parser whose full signature is present in the headers.
+ * Ties go to the longer (more specific) signature, then to registry order.
+ */
+export function detectParser(headers: string[]): LaunchMonitorParser | null {
+  const have = new Set(headers.map(normHeader));
+  const haveBase = new Set(unitSuffixedBases(headers));
+
+  // "Carry (yds)" in a signature is satisfied by "Carry (m)" too.
+  const present = (h: string) => {
+    if (have.has(normHeader(h))) return true;
+    const { base, unit } = splitHeaderUnit(h);
+    return !!unit && haveBase.has(normHeader(base));
+  };
+
+  let best: LaunchMonitorParser | null = null;
+  for (const p of PARSERS) {
+    if (!p.signature.length) continue; // manual-mapping parsers are chosen, never detected
+    const matches = p.signature.every(present);
+    if (!matches) continue;
+    if (!best || p.signature.length > best.signature.length) best = p;
+  }
+  return best;
+}
+
+/**
+ * Resolve a parser header map against the headers actually present in a file.
+ * Returns file header -> canonical field (only for headers that exist).
+ * Unit-suffixed headers also match across units: "Carry (m)" resolves via a "Carry (yds)" entry.
+ */
+export function resolveHeaderMap(
+  headers: string[],
+  headerMap: Record<string, ShotField>
+): Record<string, ShotField> {
+  const byNorm = new Map<string, ShotField>();
+  const byBase = new Map<string, ShotField>();
+  for (const [h, field] of Object.entries(headerMap)) {
+    byNorm.set(normHeader(h), field);
+    const { base, unit } = splitHeaderUnit(h);
+    if (unit) byBase.set(normHeader(base), field);
+  }
+
+  const out: Record<string, ShotField> = {};
+  for (const h of headers) {
+    let field = byNorm.get(normHeader(h));
+    if (!field) {
+      const { base, unit } = splitHeaderUnit(h);
+      if (unit) field = byBase.get(normHeader(base));
+    }
+    if (field) out[h] = field;
+  }
+  return out;
+}
+
+/**
+ * Map one export row onto the canonical shot shape using a resolved header map.
+ * `units` (from resolveColumnUnits) converts each column to yards/mph/rpm/degrees.
+ */
+export function mapRowToShot(
+  row: CsvRow,
+  resolvedMap: Record<string, ShotField>,
+  shotNumber: number,
+  opts: { parser?: LaunchMonitorParser; units?: Record<string, ColumnUnit> } = {}
+): CanonicalShot {
+  const { parser, units } = opts;
+  const shot: CanonicalShot = {
+    shot_number: shotNumber,
+    club: null,
+    ball_speed: null,
+    club_speed: null,
+    carry: null,
+    total: null,
+    side: null,
+    launch_angle: null,
+    back_spin: null,
+    side_spin: null,
+    attack_angle: null,
+    dynamic_loft: null,
+    face_to_path: null,
+    apex: null,
+  };
+
+  for (const [header, field] of Object.entries(resolvedMap)) {
+    const raw = row.values[header];
+    if (field === "club") shot.club = toText(raw);
+    else {
+      const unit = units?.[header]?.unit;
+      shot[field] = unit ? toCanonical(toNum(raw), unit) : toNum(raw);
+    }
+  }
+
+  if (parser?.derive) {
+    const derived = parser.derive(row, shot);
+    for (const [k, v] of Object.entries(derived) as Array<[keyof CanonicalShot, CanonicalShot[keyof CanonicalShot]]>) {
+      if (shot[k] === null && v !== null && v !== undefined) (shot as Record<string, unknown>)[k] = v;
+    }
+  }
+
+  return shot;
+}
+
+const TIME_HEADERS = new Set(["date", "time", "timestamp", "date time", "datetime", "shot time", "shot date", "created"]);
+
+/**
+ * Practice time of one row: the parser's own hook, then a Date/Time style column, then a date in the
+ * lines above the header (some apps write "Session: 2025-12-20 17:32" there).
+ */
+export function rowPracticeTime(parser: LaunchMonitorParser, row: CsvRow, table: CsvTable): LocalDateTime | null {
+  const own = parser.practiceTime?.(row, table);
+  if (own) return own;
+
+  for (const [h, v] of Object.entries(row.values)) {
+    if (!TIME_HEADERS.has(normHeader(h))) continue;
+    const d = parseDateTimeText(v) ?? findDateTimeInText(v);
+    if (d) return d;
+  }
+
+  for (const line of table.preamble) {
+    const d = findDateTimeInText(line);
+    if (d) return d;
+  }
+
+  return null;
+}
@@ -2,6 +2,10 @@
 // SkyTrak CSV -> normalized JSON (v1)
 // Goal: take the per-row `shots_raw.data` payload and output a clean, stable structure we can use across UI + analytics.
 
+import { findDateTimeInText, toUtcDate, type LocalDateTime } from "./datetime";
+import type { LaunchMonitorParser } from "./types";
+import { toCanonicalFromToken, type UnitKind } from "./units";
+
 export type SkyTrakUnits = Record<string, string>;
 
 export type SkyTrakShotV1 = {
@@ -67,33 +71,24 @@ const toStr = (v: any): string | null => {
   return s ? s : null;
 };
 
-// SkyTrak labels look like: "PRACTICE: 12/20/2025 5:32 PM,,,,,"
-// We'll attempt parsing into an ISO string; if unsure, return null.
-const parsePracticeLabelToISO = (label: any): string | null => {
+// SkyTrak labels look like: "PRACTICE: 12/20/2025 5:32 PM,,,,," (wall-clock time, no zone).
+export const parsePracticeLabel = (label: unknown): LocalDateTime | null => {
   const s = toStr(label);
   if (!s) return null;
 
-  const m = s.match(
-    /PRACTICE:\s*([0-9]{1,2}\/[0-9]{1,2}\/[0-9]{4})\s+([0-9]{1,2}:[0-9]{2})\s*(AM|PM)?/i
-  );
-  if (!m) return null;
-
-  const [mm, dd, yyyy] = m[1].split("/").map((x) => Number(x));
-  const [hhRaw, min] = m[2].split(":").map((x) => Number(x));
-  if (!mm || !dd || !yyyy || hhRaw === undefined || min === undefined) return null;
-
-  let hh = hhRaw;
-  const ampm = (m[3] || "").toUpperCase();
-  if (ampm === "PM" && hh < 12) hh += 12;
-  if (ampm === "AM" && hh === 12) hh = 0;
+  const m = s.match(/PRACTICE:\s*(.+)$/i);
+  return m ? findDateTimeInText(m[1]) : null;
+};
 
-  // This will be interpreted as server-local time; good enough for v1.
-  const dt = new Date(yyyy, mm - 1, dd, hh, min, 0);
-  return Number.isNaN(dt.getTime()) ? null : dt.toISOString();
+// ISO instant for the label, read in `timeZone` (the client's zone); UTC when no zone is known.
+const parsePracticeLabelToISO = (label: unknown, timeZone?: string | null): string | null => {
+  const local = parsePracticeLabel(label);
+  return local ? toUtcDate(local, timeZone).toISOString() : null;
 };
 
 export const normalizeSkyTrakRowV1 = (
-  rowData: any
+  rowData: any,
+  timeZone?: string | null
 ): { shot: SkyTrakShotV1; units: SkyTrakUnits; practice_at: string | null } => {
   const d: any = rowData || {};
 
@@ -102,15 +97,21 @@ export const normalizeSkyTrakRowV1 = (
   const raw: any = d._raw || {};
   const units: SkyTrakUnits = d._units && typeof d._units === "object" ? d._units : {};
 
+  // Normalized keys are already canonical; raw columns are converted from the export's units row (metric exports).
+  const pick = (normalized: unknown, header: string, kind: Exclude<UnitKind, "time">): number | null =>
+    normalized !== null && normalized !== undefined
+      ? toNum(normalized)
+      : toCanonicalFromToken(toNum(raw[header]), units[header], kind);
+
   const shot: SkyTrakShotV1 = {
     shot_number: toInt(d.shot_number ?? raw["SHOT"]),
-    carry_yd: toNum(d.carry_yd ?? raw["CARRY"]),
-    total_yd: toNum(d.total_yd ?? raw["TOTAL"]),
-    roll_yd: toNum(d.roll_yd ?? raw["ROLL"]),
-    offline_yd: toNum(d.offline_yd ?? raw["OFFLINE"]),
+    carry_yd: pick(d.carry_yd, "CARRY", "distance"),
+    total_yd: pick(d.total_yd, "TOTAL", "distance"),
+    roll_yd: pick(d.roll_yd, "ROLL", "distance"),
+    offline_yd: pick(d.offline_yd, "OFFLINE", "distance"),
 
-    ball_speed_mph: toNum(d.ball_speed_mph ?? raw["BALL SPEED"]),
-    club_speed_mph: toNum(d.club_speed_mph ?? raw["CLUB SPEED"]),
+    ball_speed_mph: pick(d.ball_speed_mph, "BALL SPEED", "speed"),
+    club_speed_mph: pick(d.club_speed_mph, "CLUB SPEED", "speed"),
     smash_factor: toNum(d.smash_factor ?? raw["SMASH"]),
 
     launch_deg: toNum(d.launch_deg ?? raw["LAUNCH"]),
@@ -122,7 +123,7 @@ export const normalizeSkyTrakRowV1 = (
     back_rpm: toNum(d.back_rpm ?? raw["BACK"]),
     side_rpm: toNum(d.side_rpm ?? raw["SIDE RPM"]),
 
-    height_yd: toNum(d.height_yd ?? raw["HEIGHT"]),
+    height_yd: pick(d.height_yd, "HEIGHT", "distance"),
     flight_sec: toNum(d.flight_sec ?? raw["FLIGHT"]),
 
     shot_score: toNum(d.shot_score ?? raw["SHOT SCORE"]),
@@ -133,7 +134,7 @@ export const normalizeSkyTrakRowV1 = (
     _raw: d,
   };
 
-  const practice_at = parsePracticeLabelToISO(d.practice_label);
+  const practice_at = parsePracticeLabelToISO(d.practice_label, timeZone);
 
   return { shot, units, practice_at };
 };
@@ -141,15 +142,16 @@ export const normalizeSkyTrakRowV1 = (
 export const buildSkyTrakSessionV1 = (args: {
   client_name: string; // ALWAYS use your client record name (not SkyTrak label)
   rows: any[]; // array of shots_raw.data objects
+  time_zone?: string | null; // IANA zone the practice label is read in (default UTC)
 }): SkyTrakSessionV1 => {
-  const { client_name, rows } = args;
+  const { client_name, rows, time_zone } = args;
 
   const shots: SkyTrakShotV1[] = [];
   let mergedUnits: SkyTrakUnits = {};
   let practice_at: string | null = null;
 
   for (const r of rows) {
-    const { shot, units, practice_at: pa } = normalizeSkyTrakRowV1(r);
+    const { shot, units, practice_at: pa } = normalizeSkyTrakRowV1(r, time_zone);
     shots.push(shot);
     mergedUnits = { ...mergedUnits, ...units };
     if (!practice_at && pa) practice_at = pa;
@@ -163,3 +165,33 @@ export const buildSkyTrakSessionV1 = (args: {
     shots,
   };
 };
+
+// Registry entry: raw SkyTrak exports carry a "PRACTICE: ..." label and a units row around the header.
+// shots_raw.data keeps the { _raw, _units, practice_label } shape read by normalizeSkyTrakRowV1.
+export const skytrakParserV1: LaunchMonitorParser = {
+  id: "skytrak",
+  label: "SkyTrak",
+  version: 1,
+
+  signature: ["SHOT", "CARRY", "BALL SPEED", "BACK"],
+
+  headerMap: {
+    CARRY: "carry",
+    TOTAL: "total",
+    OFFLINE: "side",
+    "BALL SPEED": "ball_speed",
+    "CLUB SPEED": "club_speed",
+    LAUNCH: "launch_angle",
+    BACK: "back_spin",
+    "SIDE RPM": "side_spin",
+    CLUB: "club",
+  },
+
+  practiceTime: (row) => parsePracticeLabel(row.label),
+
+  rawPayload: (row, table) => ({
+    _raw: row.values,
+    _units: table.unitRow ?? {},
+    practice_label: row.label,
+  }),
+};
@@ -0,0 +1,34 @@
+// lib/parsers/trackman_v1.ts
+// Trackman (TPS / Range) CSV export -> canonical shot fields (v1)
+
+import { readNum, spinComponents } from "./values";
+import type { LaunchMonitorParser } from "./types";
+
+export const trackmanParserV1: LaunchMonitorParser = {
+  id: "trackman",
+  label: "Trackman",
+  version: 1,
+
+  // "Spin Loft" + "Face To Path" alongside "Club Speed" only show up in Trackman exports.
+  signature: ["Club Speed", "Attack Angle", "Spin Loft", "Face To Path", "Carry"],
+
+  headerMap: {
+    Club: "club",
+    "Club Speed": "club_speed",
+    "Ball Speed": "ball_speed",
+    "Launch Angle": "launch_angle",
+    Carry: "carry",
+    Total: "total",
+    Side: "side",
+    "Attack Angle": "attack_angle",
+    "Dynamic Loft": "dynamic_loft",
+    "Face To Path": "face_to_path",
+    Height: "apex",
+  },
+
+  // Height is in feet; a units row ("[ft]", "[m]") still wins.
+  units: { apex: "ft" },
+
+  // Trackman reports total spin + spin axis rather than back/side spin.
+  derive: (row) => spinComponents(readNum(row, "Spin Rate"), readNum(row, "Spin Axis")),
+};
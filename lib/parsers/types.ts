@@ -0,0 +1,87 @@
+// lib/parsers/types.ts
+// Shared contract for launch-monitor CSV parsers.
+// Every device parser declares a header signature + canonical field mapping; ingestion does the rest.
+
+import type { LocalDateTime } from "./datetime";
+import type { Unit } from "./units";
+
+export const CANONICAL_SHOT_FIELDS = [
+  "club",
+  "ball_speed",
+  "club_speed",
+  "carry",
+  "total",
+  "side",
+  "launch_angle",
+  "back_spin",
+  "side_spin",
+] as const;
+
+export type CanonicalShotField = (typeof CANONICAL_SHOT_FIELDS)[number];
+
+// Optional per-device extras (nullable on `shots`; never counted as missing metrics).
+export const EXTENDED_SHOT_FIELDS = ["attack_angle", "dynamic_loft", "face_to_path", "apex"] as const;
+
+export type ExtendedShotField = (typeof EXTENDED_SHOT_FIELDS)[number];
+
+export type ShotField = CanonicalShotField | ExtendedShotField;
+
+export const SHOT_FIELDS: readonly ShotField[] = [...CANONICAL_SHOT_FIELDS, ...EXTENDED_SHOT_FIELDS];
+
+/** Normalized shot row, shaped like the `shots` table. */
+export type CanonicalShot = {
+  shot_number: number;
+  club: string | null;
+  ball_speed: number | null;
+  club_speed: number | null;
+  carry: number | null;
+  total: number | null;
+  side: number | null;
+  launch_angle: number | null;
+  back_spin: number | null;
+  side_spin: number | null;
+
+  attack_angle: number | null;
+  dynamic_loft: number | null;
+  face_to_path: number | null;
+  apex: number | null; // max height, yards
+};
+
+/** One data row of a launch-monitor export, keyed by the export's own header names. */
+export type CsvRow = {
+  line: number; // 1-based row index in the parsed file (blank lines skipped)
+  values: Record<string, string>;
+  label: string | null; // nearest label row above this row (e.g. SkyTrak "PRACTICE: ...")
+};
+
+export type CsvTable = {
+  headers: string[];
+  rows: CsvRow[];
+  preamble: string[]; // non-empty lines above the header row
+  unitRow: Record<string, string> | null; // header -> unit token, when the export has a units row
+};
+
+export type LaunchMonitorParser = {
+  /** Stable id, stored as sessions.source */
+  id: string;
+  label: string;
+  version: number;
+
+  /** Headers that must all be present for this parser to claim a file. Empty = manual mapping only, never detected. */
+  signature: string[];
+
+  /** Device header -> canonical shot field (persisted on csv_imports.header_map). */
+  headerMap: Record<string, ShotField>;
+
+  /** Export units when neither a units row nor the header says (e.g. Rapsodo apex is feet). Default: canonical. */
+  units?: Partial<Record<Exclude<ShotField, "club">, Unit>>;
+
+  /** Fill fields the device reports indirectly (e.g. spin rate + axis -> back/side spin). Only null fields are filled. */
+  derive?: (row: CsvRow, shot: CanonicalShot) => Partial<CanonicalShot>;
+
+  /** Practice time of a row when the export has one outside a Date/Time column (e.g. SkyTrak label rows). */
+  practiceTime?: (row: CsvRow, table: CsvTable) => LocalDateTime | null;
+
+  /** Payload stored per row in shots_raw.data (defaults to the raw row values). */
+  rawPayload?: (row: CsvRow, table: CsvTable) => Record<string, unknown>;
+};
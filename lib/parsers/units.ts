@@ -0,0 +1,152 @@
+// lib/parsers/units.ts
+// Unit detection + conversion for launch-monitor exports.
+// Everything written to `shots` is canonical: yards, mph, rpm, degrees.
+// Sources, in priority order: units row under the header, unit suffix in the header ("Carry (m)"),
+// the parser's device defaults, then canonical (assume the export is already yards/mph).
+
+import type { CsvTable, LaunchMonitorParser, ShotField } from "./types";
+
+export type Unit = "yd" | "m" | "ft" | "mph" | "kmh" | "ms" | "rpm" | "deg" | "rad" | "s";
+
+export type UnitKind = "distance" | "speed" | "spin" | "angle" | "time";
+
+export type NumericShotField = Exclude<ShotField, "club">;
+
+export type ColumnUnit = {
+  field: NumericShotField;
+  unit: Unit; // unit the export used
+  from: "unit_row" | "header" | "device" | "canonical";
+};
+
+const UNIT_KIND: Record<Unit, UnitKind> = {
+  yd: "distance",
+  m: "distance",
+  ft: "distance",
+  mph: "speed",
+  kmh: "speed",
+  ms: "speed",
+  rpm: "spin",
+  deg: "angle",
+  rad: "angle",
+  s: "time",
+};
+
+const CANONICAL_UNIT: Record<Exclude<UnitKind, "time">, Unit> = {
+  distance: "yd",
+  speed: "mph",
+  spin: "rpm",
+  angle: "deg",
+};
+
+// Multiply to get the canonical unit of the same kind.
+const TO_CANONICAL: Record<Unit, number> = {
+  yd: 1,
+  m: 1.0936133,
+  ft: 1 / 3,
+  mph: 1,
+  kmh: 0.6213712,
+  ms: 2.2369363,
+  rpm: 1,
+  deg: 1,
+  rad: 180 / Math.PI,
+  s: 1,
+};
+
+export const FIELD_KIND: Record<NumericShotField, Exclude<UnitKind, "time">> = {
+  ball_speed: "speed",
+  club_speed: "speed",
+  carry: "distance",
+  total: "distance",
+  side: "distance",
+  apex: "distance",
+  launch_angle: "angle",
+  attack_angle: "angle",
+  dynamic_loft: "angle",
+  face_to_path: "angle",
+  back_spin: "spin",
+  side_spin: "spin",
+};
+
+const TOKENS: Array<[RegExp, Unit]> = [
+  [/^(yds?|yards?)$/, "yd"],
+  [/^(m|meters?|metres?|mtrs?)$/, "m"],
+  [/^(ft|feet)$/, "ft"],
+  [/^mph$/, "mph"],
+  [/^(km\/h|kmh|kph)$/, "kmh"],
+  [/^(m\/s|mps)$/, "ms"],
+  [/^rpm$/, "rpm"],
+  [/^(deg|degrees?|°)$/, "deg"],
+  [/^(rad|radians?)$/, "rad"],
+  [/^(s|sec|secs|seconds?)$/, "s"],
+];
+
+/** Parse a unit token such as "mph", "[km/h]", "(yds)". Null if it is not a unit. */
+export function parseUnitToken(raw: string): Unit | null {
+  const s = raw
+    .trim()
+    .replace(/^[\[(]\s*/, "")
+    .replace(/\s*[\])]$/, "")
+    .toLowerCase();
+  if (!s) return null;
+  for (const [re, unit] of TOKENS) if (re.test(s)) return unit;
+  return null;
+}
+
+/** Split "Carry (m)" / "Ball Speed [km/h]" into base name + unit. Unit is null when there is no recognised suffix. */
+export function splitHeaderUnit(header: string): { base: string; unit: Unit | null } {
+  const m = header.match(/^(.*?)\s*[\[(]([^\])]+)[\])]\s*$/);
+  if (!m) return { base: header, unit: null };
+  const unit = parseUnitToken(m[2]);
+  return unit ? { base: m[1], unit } : { base: header, unit: null };
+}
+
+/** Canonical unit for a shot field (yards / mph / rpm / degrees). */
+export function canonicalUnit(field: NumericShotField): Unit {
+  return CANONICAL_UNIT[FIELD_KIND[field]];
+}
+
+/**
+ * Work out the export unit of every mapped numeric column.
+ * A unit of the wrong kind (e.g. "mph" under a carry column) is ignored and the next source is tried.
+ */
+export function resolveColumnUnits(
+  table: Pick<CsvTable, "unitRow">,
+  resolvedMap: Record<string, ShotField>,
+  parser?: Pick<LaunchMonitorParser, "units"> | null
+): Record<string, ColumnUnit> {
+  const out: Record<string, ColumnUnit> = {};
+
+  for (const [header, field] of Object.entries(resolvedMap)) {
+    if (field === "club") continue;
+    const kind = FIELD_KIND[field];
+    const fits = (u: Unit | null | undefined): u is Unit => !!u && UNIT_KIND[u] === kind;
+
+    const fromRow = table.unitRow?.[header] ? parseUnitToken(table.unitRow[header]) : null;
+    const fromHeader = splitHeaderUnit(header).unit;
+    const fromDevice = parser?.units?.[field];
+
+    if (fits(fromRow)) out[header] = { field, unit: fromRow, from: "unit_row" };
+    else if (fits(fromHeader)) out[header] = { field, unit: fromHeader, from: "header" };
+    else if (fits(fromDevice)) out[header] = { field, unit: fromDevice, from: "device" };
+    else out[header] = { field, unit: canonicalUnit(field), from: "canonical" };
+  }
+
+  return out;
+}
+
+/** Convert a value in `unit` to the canonical unit of its kind. */
+export function toCanonical(value: number | null, unit: Unit): number | null {
+  if (value === null) return null;
+  return value * TO_CANONICAL[unit];
+}
+
+/** Convert using a raw unit token (e.g. a SkyTrak units-row cell). Unknown or wrong-kind tokens leave the value as-is. */
+export function toCanonicalFromToken(
+  value: number | null,
+  token: string | null | undefined,
+  kind: Exclude<UnitKind, "time">
+): number | null {
+  const unit = token ? parseUnitToken(token) : null;
+  if (!unit || UNIT_KIND[unit] !== kind) return value;
+  return toCanonical(value, unit);
+}
@@ -0,0 +1,54 @@
+// lib/parsers/values.ts
+// Cell-level helpers shared by the registry and device parsers.
+
+import type { CsvRow } from "./types";
+
+/** Header comparison key: case/spacing/punctuation-insensitive. */
+export function normHeader(h: string): string {
+  return h.trim().toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Numeric cell parser. Accepts plain numbers plus the directional forms some devices export
+ * ("12.3 L" / "R12.3"): left is negative, right is positive.
+ */
+export function toNum(v: unknown): number | null {
+  if (v === null || v === undefined) return null;
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  const s = String(v).trim();
+  if (!s) return null;
+
+  const n = Number(s);
+  if (Number.isFinite(n)) return n;
+
+  const dir = s.match(/^([LR])\s*([0-9.]+)$|^([0-9.]+)\s*([LR])$/i);
+  if (!dir) return null;
+  const mag = Number(dir[2] ?? dir[3]);
+  if (!Number.isFinite(mag)) return null;
+  return (dir[1] ?? dir[4]).toUpperCase() === "L" ? -mag : mag;
+}
+
+/** Read the first present numeric cell among candidate headers (header match is normalized). */
+export function readNum(row: CsvRow, ...headers: string[]): number | null {
+  const wanted = new Set(headers.map(normHeader));
+  for (const [h, v] of Object.entries(row.values)) {
+    if (wanted.has(normHeader(h))) {
+      const n = toNum(v);
+      if (n !== null) return n;
+    }
+  }
+  return null;
+}
+
+/** Split total spin into back/side components from the spin axis (degrees, + = tilted right). */
+export function spinComponents(spinRpm: number | null, axisDeg: number | null) {
+  if (spinRpm === null || axisDeg === null) return { back_spin: null, side_spin: null };
+  const rad = (axisDeg * Math.PI) / 180;
+  return { back_spin: spinRpm * Math.cos(rad), side_spin: spinRpm * Math.sin(rad) };
+}
+
+export function toText(v: unknown): string | null {
+  if (v === null || v === undefined) return null;
+  const s = String(v).trim();
+  return s ? s : null;
+}